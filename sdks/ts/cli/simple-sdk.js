@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+
+const fs = require('node:fs/promises')
+const path = require('node:path')
+
+const USAGE = `Usage: simple-sdk codegen --schema <file> [options]
+
+Generates TypeScript types from a GraphQL schema (SDL or introspection JSON)
+and the .graphql files of the project. It runs fully offline.
+
+Options:
+  --schema <file>        The schema file (.graphql, .graphqls or .json). Required.
+  --documents <dir>      The directory to search for .graphql and .gql files. Defaults to the current directory.
+  --output <file>        The file to write. Defaults to standard output.
+  --scalar <Name=Type>   The TypeScript type of a custom scalar, e.g. DateTime=string. Repeatable.`
+
+/** Directories that never contain the project's own operations. */
+const SKIPPED_DIRECTORIES = new Set(['dist', 'node_modules'])
+
+function fail(message) {
+  console.error(message)
+  // eslint-disable-next-line node/prefer-global/process
+  process.exit(1)
+}
+
+function parseArgs(args) {
+  const options = { documents: '.', scalars: {} }
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].split(/=(.*)/s, 2)
+    if (!['--documents', '--output', '--scalar', '--schema'].includes(flag)) {
+      fail(`Unknown option: ${args[i]}\n\n${USAGE}`)
+    }
+
+    const value = inline ?? args[++i]
+    if (value === undefined) {
+      fail(`Missing value for ${flag}\n\n${USAGE}`)
+    }
+
+    if (flag === '--scalar') {
+      const [name, type] = value.split('=')
+      if (!name || !type) {
+        fail(`Invalid scalar mapping "${value}", expected Name=Type`)
+      }
+      options.scalars[name] = type
+    }
+    else {
+      options[flag.slice(2)] = value
+    }
+  }
+
+  if (!options.schema) {
+    fail(USAGE)
+  }
+
+  return options
+}
+
+/**
+ * Lists the GraphQL files under a directory, skipping dependencies, build
+ * output and hidden directories.
+ */
+async function findDocuments(directory, excluded) {
+  const files = []
+
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const file = path.join(directory, entry.name)
+
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        files.push(...await findDocuments(file, excluded))
+      }
+    }
+    else if (/\.(?:gql|graphql)$/.test(entry.name) && file !== excluded) {
+      files.push(file)
+    }
+  }
+
+  return files.sort()
+}
+
+async function codegen(args) {
+  // The generator is bundled as CommonJS by the build, next to this file.
+  const { generate } = require('./codegen.cjs')
+  const options = parseArgs(args)
+
+  const schemaPath = path.resolve(options.schema)
+  const schema = await fs.readFile(schemaPath, 'utf8')
+
+  const files = await findDocuments(path.resolve(options.documents), schemaPath)
+  const documents = await Promise.all(files.map(async file => ({
+    // eslint-disable-next-line node/prefer-global/process
+    path: path.relative(process.cwd(), file),
+    source: await fs.readFile(file, 'utf8'),
+  })))
+
+  const output = generate(schema, documents, {
+    onWarning: message => console.error(`⚠️ ${message}`),
+    scalars: options.scalars,
+  })
+
+  if (!options.output) {
+    // eslint-disable-next-line node/prefer-global/process
+    process.stdout.write(output)
+    return
+  }
+
+  await fs.mkdir(path.dirname(path.resolve(options.output)), { recursive: true })
+  await fs.writeFile(options.output, output)
+
+  console.error(`✅ Generated ${options.output} from ${options.schema} and ${documents.length} GraphQL file(s).`)
+}
+
+async function main() {
+  // eslint-disable-next-line node/prefer-global/process
+  const [command, ...args] = process.argv.slice(2)
+
+  if (command !== 'codegen') {
+    fail(USAGE)
+  }
+
+  try {
+    await codegen(args)
+  }
+  catch (error) {
+    fail(`❌ Simple SDK codegen failed: ${error.message}`)
+  }
+}
+
+main()
@@ -9,83 +9,26 @@
  * This makes AI a first-class, reusable primitive, available to any developer
  * in any logic module they build on the Simple platform.
  */
+import type { JSONSchema } from './schema'
 import type { Context, DocumentHandle } from './types'
 
+import { failIfUnsupported } from './capabilities'
+import { SimpleActionError } from './errors'
 import { execute as hostExecute } from './host'
 
+export type {
+  JSONSchema,
+  JSONSchemaArray,
+  JSONSchemaBoolean,
+  JSONSchemaNumber,
+  JSONSchemaObject,
+  JSONSchemaString,
+} from './schema'
+
 // ============================================================================
 // AI API Types (The Developer-Facing Contract)
 // ============================================================================
 
-// --- JSON Schema Type System (Discriminated Union) ---
-
-/**
- * Base properties common to all JSON Schema definitions.
- */
-interface JSONSchemaBase {
-  description?: string
-}
-
-/**
- * JSON Schema definition for a string type.
- */
-export interface JSONSchemaString extends JSONSchemaBase {
-  format?: 'date' | 'date-time' | 'email' | 'uri'
-  maxLength?: number
-  minLength?: number
-  pattern?: string
-  type: 'string'
-}
-
-/**
- * JSON Schema definition for a number or integer type.
- */
-export interface JSONSchemaNumber extends JSONSchemaBase {
-  exclusiveMaximum?: number
-  exclusiveMinimum?: number
-  maximum?: number
-  minimum?: number
-  multipleOf?: number
-  type: 'integer' | 'number'
-}
-
-/**
- * JSON Schema definition for a boolean type.
- */
-export interface JSONSchemaBoolean extends JSONSchemaBase {
-  type: 'boolean'
-}
-
-/**
- * JSON Schema definition for an object type.
- */
-export interface JSONSchemaObject extends JSONSchemaBase {
-  properties: Record<string, JSONSchema>
-  required?: string[]
-  type: 'object'
-}
-
-/**
- * JSON Schema definition for an array type.
- */
-export interface JSONSchemaArray extends JSONSchemaBase {
-  items: JSONSchema
-  maxItems?: number
-  minItems?: number
-  type: 'array'
-}
-
-/**
- * A discriminated union representing a complete and strongly-typed JSON Schema.
- * This provides developers with precise autocompletion and type-checking.
- */
-export type JSONSchema
-  = | JSONSchemaArray
-    | JSONSchemaBoolean
-    | JSONSchemaNumber
-    | JSONSchemaObject
-    | JSONSchemaString
-
 /**
  * A set of common configuration options shared across all AI operations.
  * This adheres to the DRY principle, ensuring a consistent API surface.
@@ -120,6 +63,12 @@ export interface AICommonOptions {
    */
   regenerate?: boolean
 
+  /**
+   * (Optional) Aborts the operation. The pending promise rejects with an
+   * `ABORTED` error and the platform is asked to cancel the work.
+   */
+  signal?: AbortSignal
+
   /**
    * (Optional) A system prompt to define the AI's role, personality, or
    * high-level instructions for the entire task.
@@ -232,23 +181,25 @@ export interface AIExecutionResult {
  *
  * @internal
  */
-async function _uploadPendingFiles(obj: any, context: Context): Promise<any> {
+async function _uploadPendingFiles(obj: any, context: Context, signal?: AbortSignal): Promise<any> {
   if (obj === null || typeof obj !== 'object') {
     return obj
   }
 
   if (obj.pending === true && obj.file_hash) {
-    const response = await hostExecute('action:documents/upload-ephemeral', obj, context)
+    failIfUnsupported('action:documents/upload-ephemeral', context)
+
+    const response = await hostExecute('action:documents/upload-ephemeral', obj, context, { signal })
 
     if (!response.ok) {
-      throw new Error(response.error?.message || 'Failed to upload pending file')
+      throw SimpleActionError.fromResponse(response.error, 'Failed to upload pending file')
     }
 
     return response.data
   }
 
   if (Array.isArray(obj)) {
-    return Promise.all(obj.map(item => _uploadPendingFiles(item, context)))
+    return Promise.all(obj.map(item => _uploadPendingFiles(item, context, signal)))
   }
 
   return obj
@@ -273,12 +224,15 @@ async function _executeAIOperation(
     reasoning = true,
     reasoningBudget,
     regenerate = false,
+    signal,
     systemPrompt,
     temperature,
     timeout,
   } = options
 
-  const processedInput = await _uploadPendingFiles(input, context)
+  failIfUnsupported('logic:dev.simple.system/ai-orchestrator', context)
+
+  const processedInput = await _uploadPendingFiles(input, context, signal)
 
   // 1. Construct the universal options payload for caching and execution.
   const universalOptions = {
@@ -303,10 +257,10 @@ async function _executeAIOperation(
 
   // 3. Call the trusted primitive. The SDK's `hostExecute` handles the complexity
   //    of the underlying `logic:` call and the async execution.
-  const response = await hostExecute('logic:dev.simple.system/ai-orchestrator', payload, context)
+  const response = await hostExecute('logic:dev.simple.system/ai-orchestrator', payload, context, { signal, timeout })
 
   if (!response.ok) {
-    throw new Error(response.error?.message || `AI '${operation}' operation failed.`)
+    throw SimpleActionError.fromResponse(response.error, `AI '${operation}' operation failed.`)
   }
 
   // 4. Transform the raw backend response into the clean, developer-facing API contract.
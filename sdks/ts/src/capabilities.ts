@@ -0,0 +1,193 @@
+/**
+ * @file Simple Platform Capabilities SDK
+ *
+ * This module implements the capability handshake between the SDK and the
+ * host. The host reports its protocol version and the actions it supports; the
+ * answer is cached per execution, so user code can feature-detect before
+ * relying on an action.
+ *
+ * The handshake is opt-in: it only runs when user code calls `capabilities`,
+ * `supports` or `requireAction`, so SDK calls never pay for an extra round
+ * trip. Once it has completed, the SDK modules also consult its answer and
+ * fail fast with a clear "unsupported by this host" error instead of an opaque
+ * runtime failure.
+ *
+ * Hosts that predate the handshake cannot answer it. They are treated as
+ * "legacy": every action is assumed to be supported, exactly as before.
+ */
+import type { Context } from './types'
+
+import { SimpleActionError, UNSUPPORTED_BY_HOST } from './errors'
+import { execute as hostExecute } from './host'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What the host reported about itself.
+ */
+export interface HostCapabilities {
+  /**
+   * The actions the host supports. An entry ending in `*` matches every action
+   * with that prefix, e.g. `logic:*`. Empty for legacy hosts.
+   */
+  actions: string[]
+
+  /** True when the host did not answer the handshake; all actions are then assumed supported. */
+  legacy: boolean
+
+  /** The host's protocol version, or `null` for legacy hosts. */
+  protocolVersion: null | number
+}
+
+// ============================================================================
+// Constants & Internal State
+// ============================================================================
+
+/** The host action that answers the capability handshake. */
+export const CAPABILITIES_ACTION = 'runtime/capabilities:get'
+
+/** The protocol version spoken by this SDK, sent to the host during the handshake. */
+export const SDK_PROTOCOL_VERSION = 1
+
+/**
+ * Handshake results (or in-flight handshakes), keyed by execution ID.
+ * @internal
+ */
+const _cache = new Map<string, Promise<HostCapabilities>>()
+
+/**
+ * Completed handshake results, keyed by execution ID, for the synchronous
+ * checks of `failIfUnsupported`.
+ * @internal
+ */
+const _results = new Map<string, HostCapabilities>()
+
+/** @internal */
+function keyOf(context: Context): string {
+  return context?.logic?.execution_id ?? 'unknown'
+}
+
+/** @internal */
+async function handshake(context: Context): Promise<HostCapabilities> {
+  const result = await ask(context)
+  _results.set(keyOf(context), result)
+  return result
+}
+
+/** @internal */
+async function ask(context: Context): Promise<HostCapabilities> {
+  try {
+    const response = await hostExecute(CAPABILITIES_ACTION, { sdk_protocol_version: SDK_PROTOCOL_VERSION }, context)
+
+    if (response.ok && response.data && Array.isArray(response.data.actions)) {
+      return {
+        actions: response.data.actions,
+        legacy: false,
+        protocolVersion: response.data.protocol_version ?? null,
+      }
+    }
+  }
+  catch {
+    // A host that rejects the handshake action is a legacy host.
+  }
+
+  return { actions: [], legacy: true, protocolVersion: null }
+}
+
+/** @internal */
+function unsupported(action: string, caps: HostCapabilities): SimpleActionError {
+  return new SimpleActionError(UNSUPPORTED_BY_HOST, `action "${action}" is unsupported by this host (protocol version ${caps.protocolVersion})`, {
+    details: { action, protocolVersion: caps.protocolVersion },
+    status: 501,
+  })
+}
+
+/** @internal */
+function matches(capabilities: HostCapabilities, action: string): boolean {
+  if (capabilities.legacy) {
+    return true
+  }
+
+  return capabilities.actions.some(entry => entry.endsWith('*')
+    ? action.startsWith(entry.slice(0, -1))
+    : entry === action)
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+/**
+ * Returns the host's capabilities, performing the handshake on first use in an
+ * execution and serving it from cache afterwards.
+ *
+ * @param context The execution context.
+ * @returns A promise that resolves with the host's capabilities.
+ */
+export async function capabilities(context: Context): Promise<HostCapabilities> {
+  const key = keyOf(context)
+
+  let pending = _cache.get(key)
+  if (!pending) {
+    pending = handshake(context)
+    _cache.set(key, pending)
+  }
+
+  return pending
+}
+
+/**
+ * Clears all cached handshake results.
+ * Called by the testing harness to isolate executions that share an ID.
+ * @internal
+ */
+export function clearCapabilities(): void {
+  _cache.clear()
+  _results.clear()
+}
+
+/**
+ * Fails fast if a completed handshake reports that the host lacks an action.
+ * It never starts a handshake itself, so the SDK modules can call it before
+ * every host call at no cost; without a handshake the call simply proceeds.
+ *
+ * @param action The action name.
+ * @param context The execution context.
+ * @throws {SimpleActionError} `UNSUPPORTED_BY_HOST` (status 501) if the host is known to lack the action.
+ * @internal
+ */
+export function failIfUnsupported(action: string, context: Context): void {
+  const caps = _results.get(keyOf(context))
+
+  if (caps && !matches(caps, action)) {
+    throw unsupported(action, caps)
+  }
+}
+
+/**
+ * Asserts that the host supports an action.
+ *
+ * @param action The action name, e.g. `action:storage/upload-external`.
+ * @param context The execution context.
+ * @throws {SimpleActionError} `UNSUPPORTED_BY_HOST` (status 501) if it does not.
+ */
+export async function requireAction(action: string, context: Context): Promise<void> {
+  const caps = await capabilities(context)
+
+  if (!matches(caps, action)) {
+    throw unsupported(action, caps)
+  }
+}
+
+/**
+ * Checks whether the host supports an action.
+ *
+ * @param action The action name, e.g. `action:storage/upload-external`.
+ * @param context The execution context.
+ * @returns A promise that resolves with `true` if the action is supported.
+ */
+export async function supports(action: string, context: Context): Promise<boolean> {
+  return matches(await capabilities(context), action)
+}
@@ -0,0 +1,239 @@
+/**
+ * @file Simple Platform Client SDK
+ *
+ * This module binds the SDK's host-backed modules to a single execution
+ * context. Every free function in `ai`, `crypto`, `graphql`, `http`, `settings`
+ * and `storage` takes the `Context` as its last argument; a `SimpleClient` removes
+ * that noise by capturing the context once, so nested helpers only need the
+ * client. The free functions remain the underlying implementation.
+ *
+ * @example
+ * ```typescript
+ * simple.Handle(async (request) => {
+ *   const { graphql, http } = request.sdk
+ *   const users = await graphql.query<{ users: User[] }>('query { users { id } }')
+ *   await http.post('https://example.com/hook', users)
+ * })
+ * ```
+ */
+import type { AIExecutionResult, AIExtractOptions, AISummarizeOptions, AITranscribeOptions } from './ai'
+import type { BinaryLike, SignatureOptions, SigningKey } from './crypto'
+import type { GraphQLDocument, GraphQLOptions, GraphQLResult } from './graphql'
+import type { HttpOptions, HttpRequest, HttpResponse, OAuth2Client, OAuth2Options, PaginatedRequest } from './http'
+import type { Logger } from './log'
+import type { Context, DocumentHandle, ExternalFileSource, StorageTarget } from './types'
+
+import * as ai from './ai'
+import * as crypto from './crypto'
+import * as graphql from './graphql'
+import * as http from './http'
+import * as log from './log'
+import * as settings from './settings'
+import * as storage from './storage'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The `ai` module, bound to an execution context. */
+export interface BoundAI {
+  extract: (input: DocumentHandle | object | string, options: AIExtractOptions) => Promise<AIExecutionResult>
+  summarize: (input: DocumentHandle | object | string, options: AISummarizeOptions) => Promise<AIExecutionResult>
+  transcribe: (input: DocumentHandle, options: AITranscribeOptions) => Promise<AIExecutionResult>
+}
+
+/** The context-dependent functions of the `crypto` module, bound to an execution context. */
+export interface BoundCrypto {
+  randomBytes: (size: number) => Uint8Array
+  randomUUID: () => string
+  sign: (key: SigningKey, data: BinaryLike, options?: SignatureOptions) => Promise<string>
+  verify: (key: SigningKey, data: BinaryLike, signature: string, options?: SignatureOptions) => Promise<boolean>
+}
+
+/** An operation function of the `graphql` module, bound to an execution context. */
+export interface BoundGraphQLOperation {
+  <TResult = any, TVariables = any>(document: GraphQLDocument<TResult, TVariables>, variables: TVariables, options: GraphQLOptions & { errorPolicy: 'all' }): Promise<GraphQLResult<TResult>>
+  <TResult = any, TVariables = any>(document: GraphQLDocument<TResult, TVariables>, variables?: TVariables, options?: GraphQLOptions): Promise<TResult>
+}
+
+/** The `graphql` module, bound to an execution context. */
+export interface BoundGraphQL {
+  execute: BoundGraphQLOperation
+  mutate: BoundGraphQLOperation
+  query: BoundGraphQLOperation
+}
+
+/** A verb helper of the `http` module without a body, bound to an execution context. */
+export interface BoundHttpHelper {
+  <T = any>(url: string, headers: Record<string, string> | undefined, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+  <T = any>(url: string, headers?: Record<string, string>, options?: HttpOptions): Promise<T>
+}
+
+/** A verb helper of the `http` module with a body, bound to an execution context. */
+export interface BoundHttpBodyHelper {
+  <T = any>(url: string, body: any, headers: Record<string, string> | undefined, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+  <T = any>(url: string, body: any, headers?: Record<string, string>, options?: HttpOptions): Promise<T>
+}
+
+/** The `http` module, bound to an execution context. */
+export interface BoundHttp {
+  del: BoundHttpHelper
+  fetch: <T = any>(request: HttpRequest) => Promise<T>
+  get: BoundHttpHelper
+  head: BoundHttpHelper
+  oauth2: (options: OAuth2Options) => OAuth2Client
+  options: BoundHttpHelper
+  paginate: <T = any>(request: PaginatedRequest<T>) => AsyncGenerator<T, void, undefined>
+  patch: BoundHttpBodyHelper
+  post: BoundHttpBodyHelper
+  put: BoundHttpBodyHelper
+  request: <T = any>(request: HttpRequest) => Promise<HttpResponse<T>>
+}
+
+/** The `settings` module, bound to an execution context. */
+export interface BoundSettings {
+  get: (appId: string, keys: string[]) => Promise<Record<string, any>>
+}
+
+/** The `storage` module, bound to an execution context. */
+export interface BoundStorage {
+  uploadExternal: (source: ExternalFileSource, target: StorageTarget) => Promise<DocumentHandle>
+}
+
+/**
+ * The SDK modules, bound to a single execution context.
+ */
+export interface SimpleClient {
+  ai: BoundAI
+  context: Context
+  crypto: BoundCrypto
+  graphql: BoundGraphQL
+  http: BoundHttp
+  log: Logger
+  settings: BoundSettings
+  storage: BoundStorage
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/**
+ * The shape shared by the `http` verb helpers without a body.
+ * @internal
+ */
+interface HttpVerb {
+  (url: string, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse<any>>
+  (url: string, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<any>
+}
+
+/**
+ * The shape shared by the `http` verb helpers with a body.
+ * @internal
+ */
+interface HttpBodyVerb {
+  (url: string, body: any, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse<any>>
+  (url: string, body: any, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<any>
+}
+
+/**
+ * Binds `graphql.execute`, `graphql.mutate` or `graphql.query` to a context,
+ * keeping their overloads.
+ * @internal
+ */
+function bindGraphQL(operation: typeof graphql.query, context: Context): BoundGraphQLOperation {
+  function bound<TResult = any, TVariables = any>(document: GraphQLDocument<TResult, TVariables>, variables: TVariables, options: GraphQLOptions & { errorPolicy: 'all' }): Promise<GraphQLResult<TResult>>
+  function bound<TResult = any, TVariables = any>(document: GraphQLDocument<TResult, TVariables>, variables?: TVariables, options?: GraphQLOptions): Promise<TResult>
+  function bound(document: GraphQLDocument, variables: any = {}, options?: GraphQLOptions): Promise<any> {
+    return operation(document, variables, context, options)
+  }
+
+  return bound
+}
+
+/**
+ * Binds an `http` verb helper without a body to a context, keeping its
+ * overloads.
+ * @internal
+ */
+function bindHttp(verb: HttpVerb, context: Context): BoundHttpHelper {
+  function bound<T = any>(url: string, headers: Record<string, string> | undefined, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+  function bound<T = any>(url: string, headers?: Record<string, string>, options?: HttpOptions): Promise<T>
+  function bound(url: string, headers: Record<string, string> = {}, options?: HttpOptions): Promise<any> {
+    return verb(url, headers, context, options)
+  }
+
+  return bound
+}
+
+/**
+ * Binds an `http` verb helper with a body to a context, keeping its overloads.
+ * @internal
+ */
+function bindHttpBody(verb: HttpBodyVerb, context: Context): BoundHttpBodyHelper {
+  function bound<T = any>(url: string, body: any, headers: Record<string, string> | undefined, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+  function bound<T = any>(url: string, body: any, headers?: Record<string, string>, options?: HttpOptions): Promise<T>
+  function bound(url: string, body: any, headers: Record<string, string> = {}, options?: HttpOptions): Promise<any> {
+    return verb(url, body, headers, context, options)
+  }
+
+  return bound
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+/**
+ * Creates a client whose modules are bound to the given context.
+ * This function is exposed as `simple.client`; `request.sdk` returns the client
+ * for the request's own context.
+ *
+ * @param context The execution context to bind.
+ * @returns A `SimpleClient`.
+ */
+export function client(context: Context): SimpleClient {
+  if (!context) {
+    throw new Error('context is required to create a client')
+  }
+
+  return {
+    ai: {
+      extract: (input, options) => ai.extract(input, options, context),
+      summarize: (input, options) => ai.summarize(input, options, context),
+      transcribe: (input, options) => ai.transcribe(input, options, context),
+    },
+    context,
+    crypto: {
+      randomBytes: size => crypto.randomBytes(size, context),
+      randomUUID: () => crypto.randomUUID(context),
+      sign: (key, data, options) => crypto.sign(key, data, context, options),
+      verify: (key, data, signature, options) => crypto.verify(key, data, signature, context, options),
+    },
+    graphql: {
+      execute: bindGraphQL(graphql.execute, context),
+      mutate: bindGraphQL(graphql.mutate, context),
+      query: bindGraphQL(graphql.query, context),
+    },
+    http: {
+      del: bindHttp(http.del, context),
+      fetch: request => http.fetch(request, context),
+      get: bindHttp(http.get, context),
+      head: bindHttp(http.head, context),
+      oauth2: options => http.oauth2(options, context),
+      options: bindHttp(http.options, context),
+      paginate: request => http.paginate(request, context),
+      patch: bindHttpBody(http.patch, context),
+      post: bindHttpBody(http.post, context),
+      put: bindHttpBody(http.put, context),
+      request: request => http.request(request, context),
+    },
+    log: log.logger(context),
+    settings: {
+      get: (appId, keys) => settings.get(appId, keys, context),
+    },
+    storage: {
+      uploadExternal: (source, target) => storage.uploadExternal(source, target, context),
+    },
+  }
+}
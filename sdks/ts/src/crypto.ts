@@ -0,0 +1,398 @@
+/**
+ * @file Simple Platform Crypto SDK
+ *
+ * This module provides the cryptographic primitives actions commonly need for
+ * webhooks and integrations: message digests, HMACs, random bytes and UUIDs,
+ * and signatures made with keys kept in application settings.
+ *
+ * Hashing and HMACs are implemented in pure JavaScript, so they are synchronous
+ * and produce identical results in every runtime. Random bytes come from
+ * `crypto.getRandomValues` where the runtime has it, and otherwise from an
+ * HMAC-DRBG seeded with entropy from the host. Signing and verification always
+ * run on the host, so private key material never enters the sandbox.
+ *
+ * @example
+ * ```typescript
+ * import { hmac, timingSafeEqual } from '@simpleplatform/sdk/crypto'
+ *
+ * const expected = hmac('sha256', secret, rawBody)
+ * if (!timingSafeEqual(expected, request.headers['x-signature'])) {
+ *   throw new Error('invalid signature')
+ * }
+ * ```
+ */
+import type { HashAlgorithm } from './internal/sha'
+import type { Context } from './types'
+
+import { failIfUnsupported } from './capabilities'
+import { SimpleActionError, UNSUPPORTED_BY_HOST } from './errors'
+import { execute as hostExecute } from './host'
+import { decodeBytes, encodeBytes } from './internal/base64'
+import { digest, hmacDigest } from './internal/sha'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { HashAlgorithm } from './internal/sha'
+
+/** Input accepted wherever the module hashes or signs data. Strings are encoded as UTF-8. */
+export type BinaryLike = ArrayBuffer | string | Uint8Array
+
+/** The text encodings a digest or signature can be returned in. */
+export type BinaryToTextEncoding = 'base64' | 'base64url' | 'hex'
+
+/** The signature schemes the host can sign and verify with. */
+export type SignatureAlgorithm = 'ecdsa-p256-sha256' | 'ed25519' | 'rsa-pkcs1-sha256' | 'rsa-pss-sha256'
+
+/**
+ * A reference to a signing key stored in application settings. Only the
+ * reference leaves the sandbox; the host resolves and uses the key itself.
+ */
+export interface SigningKey {
+  /** The signature scheme the key is used with. */
+  algorithm: SignatureAlgorithm
+
+  /** The application whose settings hold the key. */
+  appId: string
+
+  /** The settings key under which the key is stored. */
+  setting: string
+}
+
+/** Options for `sign` and `verify`. */
+export interface SignatureOptions {
+  /** The encoding of the signature. Defaults to `base64`. */
+  encoding?: BinaryToTextEncoding
+}
+
+// ============================================================================
+// Constants & Internal State
+// ============================================================================
+
+/** The host action that returns entropy for seeding the random generator. */
+export const RANDOM_ACTION = 'action:crypto/random'
+
+/** The host action that signs data with a key from settings. */
+export const SIGN_ACTION = 'action:crypto/sign'
+
+/** The host action that verifies a signature with a key from settings. */
+export const VERIFY_ACTION = 'action:crypto/verify'
+
+/** Bytes of host entropy used to seed the generator (a 256-bit key plus nonce). */
+const SEED_SIZE = 48
+
+/**
+ * The HMAC-DRBG (NIST SP 800-90A) state used when the runtime has no native
+ * random source. `null` until the generator is first seeded.
+ * @internal
+ */
+let drbg: { k: Uint8Array, v: Uint8Array } | null = null
+
+/** @internal */
+const encoder = new TextEncoder()
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/** @internal */
+function toBytes(data: BinaryLike): Uint8Array {
+  if (typeof data === 'string') {
+    return encoder.encode(data)
+  }
+
+  return data instanceof Uint8Array ? data : new Uint8Array(data)
+}
+
+/** @internal */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof value === 'object' && value !== null && 'then' in value && typeof value.then === 'function'
+}
+
+/** @internal */
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+
+  return result
+}
+
+/** @internal */
+function encode(bytes: Uint8Array, encoding: BinaryToTextEncoding): string {
+  if (encoding === 'hex') {
+    let hex = ''
+    for (const byte of bytes) {
+      hex += byte.toString(16).padStart(2, '0')
+    }
+    return hex
+  }
+
+  const base64 = encodeBytes(bytes)
+  return encoding === 'base64url' ? base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') : base64
+}
+
+/** @internal */
+function decode(text: string, encoding: BinaryToTextEncoding): Uint8Array {
+  if (encoding === 'hex') {
+    if (text.length % 2 !== 0 || /[^0-9a-f]/i.test(text)) {
+      throw new Error('invalid hex string')
+    }
+
+    const bytes = new Uint8Array(text.length / 2)
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Number.parseInt(text.slice(i * 2, i * 2 + 2), 16)
+    }
+    return bytes
+  }
+
+  return decodeBytes(encoding === 'base64url' ? text.replace(/-/g, '+').replace(/_/g, '/') : text)
+}
+
+/**
+ * The HMAC-DRBG update function, folding `data` into the state.
+ * @internal
+ */
+function drbgUpdate(state: { k: Uint8Array, v: Uint8Array }, data: Uint8Array): void {
+  state.k = hmacDigest('sha256', state.k, concat(state.v, new Uint8Array([0]), data))
+  state.v = hmacDigest('sha256', state.k, state.v)
+
+  if (data.length > 0) {
+    state.k = hmacDigest('sha256', state.k, concat(state.v, new Uint8Array([1]), data))
+    state.v = hmacDigest('sha256', state.k, state.v)
+  }
+}
+
+/**
+ * Seeds the generator with entropy from the host on first use. Seeding needs a
+ * synchronous host call, so it is only available where `execute` blocks (the
+ * WASM builds); script workers always have a native random source instead.
+ * @internal
+ */
+function seededDrbg(context?: Context): { k: Uint8Array, v: Uint8Array } {
+  if (drbg) {
+    return drbg
+  }
+
+  if (!context) {
+    throw new Error('this runtime has no native random source; pass the execution context so the host can seed one')
+  }
+
+  const response = hostExecute<{ bytes: string }>(RANDOM_ACTION, { size: SEED_SIZE }, context)
+
+  if (isPromiseLike(response)) {
+    throw new SimpleActionError(UNSUPPORTED_BY_HOST, 'this runtime has no native random source, and its host calls are asynchronous so the generator cannot be seeded', {
+      status: 501,
+    })
+  }
+
+  if (!response.ok || typeof response.data?.bytes !== 'string') {
+    throw SimpleActionError.fromResponse(response.error, 'Seeding the random generator failed')
+  }
+
+  const seed = decode(response.data.bytes, 'base64')
+  if (seed.length < SEED_SIZE) {
+    throw new Error(`host returned ${seed.length} bytes of entropy, expected ${SEED_SIZE}`)
+  }
+
+  const state = { k: new Uint8Array(32), v: new Uint8Array(32).fill(1) }
+  drbgUpdate(state, seed)
+
+  drbg = state
+  return state
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+/**
+ * Computes a message digest.
+ *
+ * @param algorithm The hash algorithm: `sha1`, `sha256`, `sha384` or `sha512`.
+ * @param data The data to hash. Strings are encoded as UTF-8.
+ * @param encoding The output encoding: `hex` (the default), `base64`,
+ * `base64url`, or `bytes` for the raw digest.
+ * @returns The digest.
+ */
+export function hash(algorithm: HashAlgorithm, data: BinaryLike, encoding?: BinaryToTextEncoding): string
+export function hash(algorithm: HashAlgorithm, data: BinaryLike, encoding: 'bytes'): Uint8Array
+export function hash(algorithm: HashAlgorithm, data: BinaryLike, encoding: 'bytes' | BinaryToTextEncoding = 'hex'): string | Uint8Array {
+  const bytes = digest(algorithm, toBytes(data))
+  return encoding === 'bytes' ? bytes : encode(bytes, encoding)
+}
+
+/**
+ * Computes an HMAC (RFC 2104), e.g. to sign or verify a webhook payload.
+ *
+ * @param algorithm The hash algorithm: `sha1`, `sha256`, `sha384` or `sha512`.
+ * @param key The secret key. Strings are encoded as UTF-8.
+ * @param data The data to authenticate. Strings are encoded as UTF-8.
+ * @param encoding The output encoding: `hex` (the default), `base64`,
+ * `base64url`, or `bytes` for the raw MAC.
+ * @returns The MAC.
+ */
+export function hmac(algorithm: HashAlgorithm, key: BinaryLike, data: BinaryLike, encoding?: BinaryToTextEncoding): string
+export function hmac(algorithm: HashAlgorithm, key: BinaryLike, data: BinaryLike, encoding: 'bytes'): Uint8Array
+export function hmac(algorithm: HashAlgorithm, key: BinaryLike, data: BinaryLike, encoding: 'bytes' | BinaryToTextEncoding = 'hex'): string | Uint8Array {
+  const bytes = hmacDigest(algorithm, toBytes(key), toBytes(data))
+  return encoding === 'bytes' ? bytes : encode(bytes, encoding)
+}
+
+/**
+ * Returns cryptographically secure random bytes.
+ *
+ * Uses `crypto.getRandomValues` when the runtime provides it. The QuickJS
+ * runtime does not, so there the bytes come from an HMAC-DRBG that is seeded
+ * once per execution with entropy from the host; that first call needs the
+ * execution context, which `request.sdk.crypto` supplies automatically.
+ *
+ * @param size The number of bytes.
+ * @param context The execution context, used to seed the generator when needed.
+ * @returns The random bytes.
+ * @throws Will throw an error if no random source is available.
+ */
+export function randomBytes(size: number, context?: Context): Uint8Array {
+  if (!Number.isInteger(size) || size < 0) {
+    throw new RangeError(`size must be a non-negative integer, got ${size}`)
+  }
+
+  const bytes = new Uint8Array(size)
+
+  // The lib typings declare Web Crypto everywhere, but QuickJS does not have it.
+  const native: Partial<Pick<Crypto, 'getRandomValues'>> | undefined = globalThis.crypto
+
+  if (typeof native?.getRandomValues === 'function') {
+    // `getRandomValues` fills at most 65536 bytes per call.
+    for (let offset = 0; offset < size; offset += 65536) {
+      native.getRandomValues(bytes.subarray(offset, offset + 65536))
+    }
+    return bytes
+  }
+
+  const state = seededDrbg(context)
+
+  for (let offset = 0; offset < size; offset += 32) {
+    state.v = hmacDigest('sha256', state.k, state.v)
+    bytes.set(state.v.subarray(0, size - offset), offset)
+  }
+
+  drbgUpdate(state, new Uint8Array(0))
+  return bytes
+}
+
+/**
+ * Returns a random (version 4) UUID.
+ *
+ * @param context The execution context, used to seed the generator when needed
+ * (see `randomBytes`).
+ * @returns The UUID, in lowercase hex.
+ */
+export function randomUUID(context?: Context): string {
+  const bytes = randomBytes(16, context)
+  bytes[6] = (bytes[6] & 0x0F) | 0x40
+  bytes[8] = (bytes[8] & 0x3F) | 0x80
+
+  const hex = encode(bytes, 'hex')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/**
+ * Signs data on the host with a key stored in application settings.
+ *
+ * @param key The signing key reference.
+ * @param data The data to sign. Strings are encoded as UTF-8.
+ * @param context The execution context.
+ * @param options The signature encoding.
+ * @returns A promise that resolves with the encoded signature.
+ * @throws Will throw an error if the host does not support signing or the request fails.
+ */
+export async function sign(key: SigningKey, data: BinaryLike, context: Context, options: SignatureOptions = {}): Promise<string> {
+  if (!key?.appId || !key.setting) {
+    throw new Error('key.appId and key.setting are required for signing')
+  }
+
+  failIfUnsupported(SIGN_ACTION, context)
+
+  const response = await hostExecute<{ signature: string }>(SIGN_ACTION, {
+    algorithm: key.algorithm,
+    app_id: key.appId,
+    data: encode(toBytes(data), 'base64'),
+    setting: key.setting,
+  }, context)
+
+  if (!response.ok || typeof response.data?.signature !== 'string') {
+    throw SimpleActionError.fromResponse(response.error, 'Signing failed')
+  }
+
+  const encoding = options.encoding ?? 'base64'
+  const signature = response.data.signature
+  return encoding === 'base64' ? signature : encode(decode(signature, 'base64'), encoding)
+}
+
+/**
+ * Compares two values in constant time, to check MACs and tokens without
+ * leaking how much of them matched. Strings are compared as UTF-8.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ * @returns `true` if the values are equal.
+ */
+export function timingSafeEqual(a: BinaryLike, b: BinaryLike): boolean {
+  const left = toBytes(a)
+  const right = toBytes(b)
+
+  // Only the length can leak; it is not secret for fixed-size MACs.
+  let difference = left.length ^ right.length
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i] ^ right[i % Math.max(right.length, 1)]
+  }
+
+  return difference === 0
+}
+
+/**
+ * Verifies a signature on the host with a key stored in application settings.
+ *
+ * @param key The verification key reference.
+ * @param data The signed data. Strings are encoded as UTF-8.
+ * @param signature The signature to check.
+ * @param context The execution context.
+ * @param options The signature encoding.
+ * @returns A promise that resolves with `true` if the signature is valid.
+ * @throws Will throw an error if the host does not support verification or the request fails.
+ */
+export async function verify(key: SigningKey, data: BinaryLike, signature: string, context: Context, options: SignatureOptions = {}): Promise<boolean> {
+  if (!key?.appId || !key.setting) {
+    throw new Error('key.appId and key.setting are required for verification')
+  }
+
+  let decoded: Uint8Array
+  try {
+    decoded = decode(signature, options.encoding ?? 'base64')
+  }
+  catch {
+    return false
+  }
+
+  failIfUnsupported(VERIFY_ACTION, context)
+
+  const response = await hostExecute<{ valid: boolean }>(VERIFY_ACTION, {
+    algorithm: key.algorithm,
+    app_id: key.appId,
+    data: encode(toBytes(data), 'base64'),
+    setting: key.setting,
+    signature: encode(decoded, 'base64'),
+  }, context)
+
+  if (!response.ok) {
+    throw SimpleActionError.fromResponse(response.error, 'Signature verification failed')
+  }
+
+  return response.data?.valid === true
+}
@@ -0,0 +1,180 @@
+/**
+ * @file Simple Platform Errors SDK
+ *
+ * This module defines `SimpleActionError`, the structured error type that
+ * actions throw to report failures. Unlike a bare `Error`, it carries a stable
+ * machine-readable `code`, a list of `reasons`, optional `details` and an
+ * HTTP-style `status`, all of which `simple.Handle` serializes into the
+ * action's `__done__` response. The same class is used to rehydrate failed
+ * host responses, so callers of `simple.Execute` and the SDK modules get the
+ * fields back intact.
+ */
+import type { SimpleError } from './types'
+
+// ============================================================================
+// Error Codes
+// ============================================================================
+
+/** The code assigned to any exception that is not a `SimpleActionError`. */
+export const INTERNAL_ERROR = 'INTERNAL_ERROR'
+
+/** The code assigned to host calls that were aborted through an `AbortSignal`. */
+export const ABORTED = 'ABORTED'
+
+/** The code assigned to requests rejected because their circuit breaker is open. */
+export const CIRCUIT_OPEN = 'CIRCUIT_OPEN'
+
+/** The code assigned to failures caused by missing or invalid configuration, such as an unset setting. */
+export const CONFIGURATION_ERROR = 'CONFIGURATION_ERROR'
+
+/** The code assigned to failed GraphQL operations that did not report a code of their own. */
+export const GRAPHQL_ERROR = 'GRAPHQL_ERROR'
+
+/** The code assigned to GraphQL documents that cannot be parsed. */
+export const GRAPHQL_SYNTAX_ERROR = 'GRAPHQL_SYNTAX_ERROR'
+
+/** The code assigned to host failures that did not report a code of their own. */
+export const HOST_ERROR = 'HOST_ERROR'
+
+/** The code assigned to HTTP responses whose status the caller does not accept. */
+export const HTTP_ERROR = 'HTTP_ERROR'
+
+/** The code assigned to inbound webhooks whose signature cannot be verified. */
+export const INVALID_SIGNATURE = 'INVALID_SIGNATURE'
+
+/** The code assigned to OAuth2 token requests rejected by the authorization server. */
+export const OAUTH2_ERROR = 'OAUTH2_ERROR'
+
+/** The code assigned to host calls that did not complete within their timeout. */
+export const TIMEOUT = 'TIMEOUT'
+
+/** The code assigned to actions or features the host does not support. */
+export const UNSUPPORTED_BY_HOST = 'UNSUPPORTED_BY_HOST'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Optional fields of a `SimpleActionError`.
+ */
+export interface SimpleActionErrorOptions {
+  /** The underlying error, if this error wraps another. */
+  cause?: unknown
+
+  /** Arbitrary, JSON-serializable diagnostic data. */
+  details?: Record<string, any>
+
+  /** Human-readable reasons that explain the failure in more detail. */
+  reasons?: string[]
+
+  /** An HTTP-style status code, e.g. 400 for bad input or 404 for not found. */
+  status?: number
+}
+
+// ============================================================================
+// Internal Implementation
+// ============================================================================
+
+/**
+ * Computes a short, stable FNV-1a digest of a string. It is used to group
+ * identical unexpected failures without shipping the full stack trace.
+ *
+ * @internal
+ */
+function digest(input: string): string {
+  let hash = 0x811C9DC5
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+// ============================================================================
+// Public SDK Classes
+// ============================================================================
+
+/**
+ * A structured, typed error for Simple Logic actions.
+ *
+ * @example
+ * ```typescript
+ * throw new SimpleActionError('ORDER_NOT_FOUND', 'Order does not exist', {
+ *   details: { orderId },
+ *   status: 404,
+ * })
+ * ```
+ */
+export class SimpleActionError extends Error {
+  public readonly cause?: unknown
+  public readonly code: string
+  public readonly details?: Record<string, any>
+  public readonly reasons: string[]
+  public readonly status?: number
+
+  constructor(code: string, message: string, options: SimpleActionErrorOptions = {}) {
+    super(message)
+    this.name = 'SimpleActionError'
+    this.code = code
+    this.details = options.details
+    this.reasons = options.reasons ?? []
+    this.status = options.status
+
+    if (options.cause !== undefined) {
+      this.cause = options.cause
+    }
+  }
+
+  /**
+   * Normalizes any thrown value into a `SimpleActionError`. Unknown exceptions
+   * get the generic `INTERNAL_ERROR` code plus a digest of their stack trace.
+   */
+  static from(error: unknown): SimpleActionError {
+    if (error instanceof SimpleActionError) {
+      return error
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    const stack = error instanceof Error ? error.stack ?? `${error.name}: ${error.message}` : message
+
+    return new SimpleActionError(INTERNAL_ERROR, message, {
+      cause: error,
+      details: {
+        digest: digest(stack),
+        name: error instanceof Error ? error.name : typeof error,
+      },
+    })
+  }
+
+  /**
+   * Rehydrates the error of a failed host response.
+   *
+   * @param error The `error` field of a `SimpleResponse`, or a bare message.
+   * @param fallbackMessage The message to use if the host did not provide one.
+   */
+  static fromResponse(error: SimpleError | string | undefined, fallbackMessage: string): SimpleActionError {
+    if (typeof error === 'string' || error === undefined) {
+      return new SimpleActionError(HOST_ERROR, error || fallbackMessage)
+    }
+
+    return new SimpleActionError(error.code ?? HOST_ERROR, error.message || fallbackMessage, {
+      details: error.details,
+      reasons: error.reasons,
+      status: error.status,
+    })
+  }
+
+  /** Serializes the error into the wire format used in host responses. */
+  toJSON(): SimpleError {
+    return {
+      code: this.code,
+      ...(this.details !== undefined && { details: this.details }),
+      message: this.message,
+      reasons: this.reasons,
+      ...(this.status !== undefined && { status: this.status }),
+    }
+  }
+}
@@ -26,7 +26,18 @@ declare const __wasm: {
   dealloc: (ptr: number, size: number) => void
   get_response_len: () => number
   get_response_ptr: () => number
+
+  /**
+   * Returns the raw bytes at `ptr`, ideally as a view over linear memory rather
+   * than a copy. Optional: only provided by hosts with binary-safe transport.
+   */
+  read_bytes?: (ptr: number, len: number) => Uint8Array
+
   read_string: (ptr: number, len: number) => string
+
+  /** Copies raw bytes into linear memory at `ptr`. Optional, like `read_bytes`. */
+  write_bytes?: (ptr: number, data: Uint8Array) => void
+
   write_string: (ptr: number, data: string) => void
 }
 
@@ -43,6 +54,23 @@ declare const __host: {
     contextLen: number,
   ) => void
 
+  /**
+   * Like `call`, but with a raw binary body alongside the JSON params. The
+   * result is a binary envelope: a little-endian u32 length of the JSON
+   * response, the JSON response itself, then the raw response body.
+   * Optional: only provided by hosts with binary-safe transport.
+   */
+  callBinary?: (
+    namePtr: number,
+    nameLen: number,
+    paramsPtr: number,
+    paramsLen: number,
+    bodyPtr: number,
+    bodyLen: number,
+    contextPtr: number,
+    contextLen: number,
+  ) => void
+
   cast: (
     namePtr: number,
     nameLen: number,
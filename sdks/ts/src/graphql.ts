@@ -1,68 +1,396 @@
-import type { Context } from './types'
+/**
+ * @file Simple Platform GraphQL SDK
+ *
+ * This module runs GraphQL operations against the host's database action.
+ * Documents are parsed before they are sent, so syntax errors are reported
+ * with their line and column without a host round trip, and the operation to
+ * run is resolved from the document: `operationName` picks one operation out
+ * of a document that defines several, and subscriptions are rejected, as the
+ * host does not support them.
+ *
+ * Failed operations throw a `GraphQLRequestError` that carries the GraphQL
+ * `errors` array and any partial `data`. With `errorPolicy: 'all'`, they
+ * resolve with `{ data, errors }` instead.
+ *
+ * Besides source text, the operation functions accept document ASTs, such as
+ * those built with the `gql` tag or emitted by GraphQL codegen tools. Typed
+ * documents (`TypedDocumentNode`) carry their result and variable types, so
+ * `query(document, variables, context)` infers both.
+ */
+import type { DocumentNode, OperationDefinitionNode, OperationTypeNode } from './internal/graphql-parser'
+import type { Context, ExecuteOptions, SimpleError, SimpleResponse } from './types'
 
+import { failIfUnsupported } from './capabilities'
+import { GRAPHQL_ERROR, SimpleActionError } from './errors'
 import { execute as hostExecute } from './host'
+import { parse, print } from './internal/graphql-parser'
+import * as log from './log'
+
+export type { DocumentNode } from './internal/graphql-parser'
+export { GraphQLSyntaxError } from './internal/graphql-parser'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Carries the result and variable types of a GraphQL document. It matches
+ * `DocumentTypeDecoration` from `@graphql-typed-document-node/core`, which
+ * GraphQL codegen tools emit, including on string documents.
+ */
+export interface DocumentTypeDecoration<TResult = { [key: string]: any }, TVariables = { [key: string]: any }> {
+  /** A type-only marker; it is never set at runtime. */
+  __apiType?: (variables: TVariables) => TResult
+}
+
+/**
+ * A GraphQL document accepted by the operation functions: source text, a
+ * document AST, or a typed document.
+ */
+export type GraphQLDocument<TResult = any, TVariables = any> = DocumentNode | DocumentTypeDecoration<TResult, TVariables> | string
+
+/**
+ * An error reported by a GraphQL operation, as in the `errors` array of a
+ * GraphQL response.
+ */
+export interface GraphQLError {
+  /** Additional information; `code` identifies the kind of error. */
+  extensions?: { [key: string]: any, code?: string }
+
+  /** The locations in the document the error refers to. */
+  locations?: GraphQLErrorLocation[]
+
+  message: string
+
+  /** The path of the response field that failed, e.g. `['users', 0, 'email']`. */
+  path?: Array<number | string>
+}
+
+/** A 1-based location in a GraphQL document. */
+export interface GraphQLErrorLocation {
+  column: number
+  line: number
+}
+
+/**
+ * How operation errors are surfaced: `none` (the default) throws a
+ * `GraphQLRequestError`, `all` resolves with the data and the errors.
+ */
+export type GraphQLErrorPolicy = 'all' | 'none'
+
+/**
+ * Per-request options for GraphQL operations.
+ */
+export interface GraphQLOptions extends ExecuteOptions {
+  /** How operation errors are surfaced. Defaults to `none`. */
+  errorPolicy?: GraphQLErrorPolicy
+
+  /**
+   * The name of the operation to run, for documents that define more than
+   * one. It may be omitted when the document defines a single operation.
+   */
+  operationName?: string
+}
+
+/**
+ * A document AST that carries its result and variable types. It is compatible
+ * with `TypedDocumentNode` from `@graphql-typed-document-node/core`.
+ */
+export interface TypedDocumentNode<TResult = { [key: string]: any }, TVariables = { [key: string]: any }>
+  extends DocumentNode, DocumentTypeDecoration<TResult, TVariables> {}
+
+/**
+ * The result of an operation run with `errorPolicy: 'all'`.
+ */
+export interface GraphQLResult<T = any> {
+  /** The result data; partial, or `null`, if the operation failed. */
+  data?: T | null
+
+  /** The errors of a failed operation. Absent if the operation succeeded. */
+  errors?: GraphQLError[]
+}
+
+// ============================================================================
+// Public SDK Classes
+// ============================================================================
+
+/**
+ * A failed GraphQL operation. It exposes the GraphQL `errors` array and any
+ * partial `data` the host returned alongside the errors.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await graphql.query(GET_USERS, {}, request.context)
+ * }
+ * catch (error) {
+ *   if (error instanceof graphql.GraphQLRequestError) {
+ *     log.warn('partial result', { data: error.data, paths: error.errors.map(e => e.path) }, request.context)
+ *   }
+ * }
+ * ```
+ */
+export class GraphQLRequestError extends SimpleActionError {
+  public readonly data?: any
+  public readonly errors: GraphQLError[]
+
+  constructor(error: SimpleError | string | undefined, data?: any) {
+    const errors = errorsOf(error)
+    const host = typeof error === 'string' ? undefined : error
+
+    super(host?.code ?? errors[0].extensions?.code ?? GRAPHQL_ERROR, (typeof error === 'string' ? error : error?.message) || errors[0].message, {
+      details: host?.details,
+      reasons: host?.reasons ?? errors.map(entry => entry.message),
+      status: host?.status,
+    })
+    this.name = 'GraphQLRequestError'
+    this.data = data ?? undefined
+    this.errors = errors
+  }
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/**
+ * Reads the GraphQL errors of a failed host response. The host reports them in
+ * `details.errors`; a failure without them becomes a single error.
+ * @internal
+ */
+function errorsOf(error: SimpleError | string | undefined): GraphQLError[] {
+  const fallback = 'GraphQL query failed'
+
+  if (typeof error === 'string' || error === undefined) {
+    return [{ message: error || fallback }]
+  }
+
+  const reported = error.details?.errors
+  if (!Array.isArray(reported) || reported.length === 0) {
+    return [{ message: error.message || fallback, ...(error.code !== undefined && { extensions: { code: error.code } }) }]
+  }
+
+  return reported.map((entry: any): GraphQLError => ({
+    ...(entry?.extensions && typeof entry.extensions === 'object' && { extensions: entry.extensions }),
+    ...(Array.isArray(entry?.locations) && { locations: entry.locations }),
+    message: typeof entry?.message === 'string' ? entry.message : String(entry?.message ?? fallback),
+    ...(Array.isArray(entry?.path) && { path: entry.path }),
+  }))
+}
+
+/**
+ * Reads a document into its AST and its source text. String documents
+ * (including codegen's `String` subclasses) are parsed; ASTs are printed,
+ * unless they still carry the source they were parsed from.
+ *
+ * @throws {GraphQLSyntaxError} If the document cannot be parsed.
+ * @internal
+ */
+function toDocument(document: GraphQLDocument): { ast: DocumentNode, source: string } {
+  if (typeof document === 'string' || Object.prototype.toString.call(document) === '[object String]') {
+    const source = document.toString()
+    return { ast: parse(source), source }
+  }
+
+  if ((document as DocumentNode)?.kind !== 'Document') {
+    throw new Error('A GraphQL document must be a string or a document AST.')
+  }
+
+  const ast = document as DocumentNode
+  return { ast, source: ast.loc?.source?.body ?? print(ast) }
+}
+
+/**
+ * Resolves the operation to run from a document.
+ *
+ * @throws Will throw an error if the operation cannot be resolved or is a subscription.
+ * @internal
+ */
+function resolveOperation(document: DocumentNode, operationName: string | undefined): OperationDefinitionNode {
+  const operations = document.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === 'OperationDefinition',
+  )
+
+  let operation: OperationDefinitionNode | undefined
+  if (operationName !== undefined) {
+    operation = operations.find(candidate => candidate.name?.value === operationName)
+    if (!operation) {
+      throw new Error(`Unknown operation named "${operationName}".`)
+    }
+  }
+  else if (operations.length === 1) {
+    operation = operations[0]
+  }
+  else {
+    throw new Error(operations.length === 0
+      ? 'The document does not contain an operation.'
+      : 'The document contains several operations; pass `operationName` to choose one.')
+  }
+
+  if (operation.operation === 'subscription') {
+    throw new Error('GraphQL subscriptions are not supported.')
+  }
+
+  return operation
+}
+
+/**
+ * Sends an operation to the host and returns its response, failed or not. The
+ * script worker rejects failed host calls instead of returning them, with the
+ * response attached, so a rejection is turned back into that response and both
+ * builds report errors and partial data the same way.
+ * @internal
+ */
+async function executeOperation(payload: Record<string, any>, context: Context, options: ExecuteOptions): Promise<SimpleResponse> {
+  try {
+    return await hostExecute('action:db/execute', payload, context, options)
+  }
+  catch (error) {
+    const response = (error as { response?: SimpleResponse }).response
+    return response && !response.ok ? response : { error: SimpleActionError.from(error).toJSON(), ok: false }
+  }
+}
+
+/** @internal */
+async function run(document: GraphQLDocument, variables: any, context: Context, options: GraphQLOptions, expected?: OperationTypeNode): Promise<any> {
+  if (!document) {
+    throw new Error('query is required for GraphQL execution')
+  }
+
+  const { errorPolicy = 'none', operationName, ...executeOptions } = options
+  const { ast, source } = toDocument(document)
+  const operation = resolveOperation(ast, operationName)
+
+  if (expected === 'mutation' && operation.operation !== 'mutation') {
+    throw new Error('A query was passed to the `mutate` method. Use the `query` method instead.')
+  }
+  if (expected === 'query' && operation.operation !== 'query') {
+    throw new Error('A mutation was passed to the `query` method. Use the `mutate` method instead.')
+  }
+
+  failIfUnsupported('action:db/execute', context)
+
+  const payload = { ...(operationName !== undefined && { operation_name: operationName }), query: source, variables }
+  const response = await executeOperation(payload, context, executeOptions)
+
+  if (errorPolicy === 'all') {
+    return response.ok ? { data: response.data } : { data: response.data ?? null, errors: errorsOf(response.error) }
+  }
+
+  if (!response.ok) {
+    const error = new GraphQLRequestError(response.error, response.data)
+    log.error('GraphQL request failed', { data: response.data, errors: error.errors }, context)
+
+    throw error
+  }
+
+  return response.data
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
 
 /**
  * Executes a GraphQL query with variables and returns the data directly.
  * This function communicates with the host system's database action and handles
  * JSON marshaling, response processing, and error handling internally.
  *
- * @param query The GraphQL query string to execute.
+ * @param query The GraphQL document to execute: source text, a document AST or a typed document.
  * @param variables Query variables as a map or object.
  * @param context The execution context for the query.
+ * @param options Optional timeout, abort signal, operation name and error policy for the request.
  * @returns A promise that resolves with the GraphQL query result data.
- * @throws Will throw an error if the query fails or the host returns an error.
+ * @throws {GraphQLSyntaxError} If the document cannot be parsed; the host is not called.
+ * @throws {GraphQLRequestError} If the operation fails, unless `errorPolicy` is `all`.
  */
-export async function execute<T = any>(query: string, variables: any, context: Context): Promise<T> {
-  if (!query) {
-    throw new Error('query is required for GraphQL execution')
-  }
+export async function execute<TResult = any, TVariables = any>(query: GraphQLDocument<TResult, TVariables>, variables: TVariables, context: Context, options: GraphQLOptions & { errorPolicy: 'all' }): Promise<GraphQLResult<TResult>>
+export async function execute<TResult = any, TVariables = any>(query: GraphQLDocument<TResult, TVariables>, variables: TVariables, context: Context, options?: GraphQLOptions): Promise<TResult>
+export async function execute(query: GraphQLDocument, variables: any, context: Context, options: GraphQLOptions = {}): Promise<any> {
+  return run(query, variables, context, options)
+}
 
-  const response = await hostExecute('action:db/execute', { query, variables }, context)
+/**
+ * Parses a GraphQL document from a template literal. Interpolated documents,
+ * typically fragments, are inserted as source text, and fragments that end up
+ * defined more than once are kept once. Type the result to get typed
+ * operations.
+ *
+ * @param strings The literal parts of the template.
+ * @param values The interpolated documents or source strings.
+ * @returns The parsed document.
+ * @throws {GraphQLSyntaxError} If the document cannot be parsed.
+ *
+ * @example
+ * ```typescript
+ * const USER_FIELDS = gql`fragment UserFields on users { id name }`
+ *
+ * const GET_USER = gql<{ user: { id: string, name: string } }, { id: string }>`
+ *   query GetUser($id: ID!) { user(id: $id) { ...UserFields } }
+ *   ${USER_FIELDS}
+ * `
+ *
+ * const { user } = await query(GET_USER, { id: '42' }, request.context)
+ * ```
+ */
+export function gql<TResult = any, TVariables = any>(strings: TemplateStringsArray, ...values: Array<DocumentNode | string>): TypedDocumentNode<TResult, TVariables> {
+  let source = strings[0]
+  values.forEach((value, i) => {
+    source += (typeof value === 'string' ? value : toDocument(value).source) + strings[i + 1]
+  })
 
-  if (!response.ok) {
-    // eslint-disable-next-line no-console
-    console.log('[GraphQL] response.error:', JSON.stringify(response.error, null, 2))
+  const ast = parse(source)
+  const fragments = new Map<string, string>()
+  const definitions = ast.definitions.filter((definition) => {
+    if (definition.kind !== 'FragmentDefinition') {
+      return true
+    }
 
-    // eslint-disable-next-line no-console
-    console.log('[GraphQL] response.data:', JSON.stringify(response.data, null, 2))
+    const printed = print({ definitions: [definition], kind: 'Document' })
+    const previous = fragments.get(definition.name.value)
+    if (previous === undefined) {
+      fragments.set(definition.name.value, printed)
+      return true
+    }
 
-    throw new Error(response.error?.message ?? 'GraphQL query failed')
-  }
+    if (previous !== printed) {
+      throw new Error(`Fragment "${definition.name.value}" is defined more than once with different selections.`)
+    }
+    return false
+  })
 
-  return response.data as T
+  // Without its duplicates, the document no longer matches its source.
+  return definitions.length === ast.definitions.length ? ast : { definitions, kind: 'Document' }
 }
 
 /**
  * Executes a GraphQL mutation operation.
- * It will throw an error if a query operation is passed.
+ * It will throw an error if the resolved operation is not a mutation.
  *
- * @param mutation The GraphQL mutation string.
+ * @param mutation The GraphQL mutation, as source text, a document AST or a typed document.
  * @param variables The variables for the mutation.
  * @param context The execution context.
+ * @param options Optional timeout, abort signal, operation name and error policy for the request.
  * @returns A promise that resolves with the mutation result.
  */
-export async function mutate<T = any>(mutation: string, variables: any, context: Context): Promise<T> {
-  if (!mutation.trim().startsWith('mutation')) {
-    throw new Error('A query was passed to the `mutate` method. Use the `query` method instead.')
-  }
-
-  return execute<T>(mutation, variables, context)
+export async function mutate<TResult = any, TVariables = any>(mutation: GraphQLDocument<TResult, TVariables>, variables: TVariables, context: Context, options: GraphQLOptions & { errorPolicy: 'all' }): Promise<GraphQLResult<TResult>>
+export async function mutate<TResult = any, TVariables = any>(mutation: GraphQLDocument<TResult, TVariables>, variables: TVariables, context: Context, options?: GraphQLOptions): Promise<TResult>
+export async function mutate(mutation: GraphQLDocument, variables: any, context: Context, options: GraphQLOptions = {}): Promise<any> {
+  return run(mutation, variables, context, options, 'mutation')
 }
 
 /**
  * Executes a GraphQL query operation.
- * It will throw an error if a mutation operation is passed.
+ * It will throw an error if the resolved operation is not a query.
  *
- * @param query The GraphQL query string.
+ * @param query The GraphQL query, as source text, a document AST or a typed document.
  * @param variables The variables for the query.
  * @param context The execution context.
+ * @param options Optional timeout, abort signal, operation name and error policy for the request.
  * @returns A promise that resolves with the query result.
  */
-export async function query<T = any>(query: string, variables: any, context: Context): Promise<T> {
-  if (query.trim().startsWith('mutation')) {
-    throw new Error('A mutation was passed to the `query` method. Use the `mutate` method instead.')
-  }
-
-  return execute<T>(query, variables, context)
+export async function query<TResult = any, TVariables = any>(query: GraphQLDocument<TResult, TVariables>, variables: TVariables, context: Context, options: GraphQLOptions & { errorPolicy: 'all' }): Promise<GraphQLResult<TResult>>
+export async function query<TResult = any, TVariables = any>(query: GraphQLDocument<TResult, TVariables>, variables: TVariables, context: Context, options?: GraphQLOptions): Promise<TResult>
+export async function query(query: GraphQLDocument, variables: any, context: Context, options: GraphQLOptions = {}): Promise<any> {
+  return run(query, variables, context, options, 'query')
 }
@@ -1,39 +1,70 @@
-import type { Context, SimpleResponse } from './types'
+import type { BatchCall, BatchingOptions, BinaryResponse, Context, ExecuteOptions, SimpleResponse } from './types'
 
-import { allocate, deallocate, decoder, readBufferSlice, stringToPtr } from './internal/memory'
+import { ABORTED, TIMEOUT, UNSUPPORTED_BY_HOST } from './errors'
+import { decodeEnvelope } from './internal/envelope'
+import { allocate, bytesToPtr, deallocate, readBufferSlice, readJSON, stringToPtr, withArena } from './internal/memory'
+
+/** The host action that executes several operations in one round trip. */
+export const BATCH_ACTION = 'runtime/batch:execute'
 
 // This is a "magic" constant that will be replaced by `true` or `false`
 // by the esbuild --define flag during the build process.
 declare const __ASYNC_BUILD__: boolean
 
+/** @internal */
+function aborted(actionName: string): SimpleResponse<never> {
+  return { error: { code: ABORTED, message: `host call "${actionName}" was aborted` }, ok: false }
+}
+
+/**
+ * Applies `options.signal` and `options.timeout` to a call that has returned.
+ * A blocking call cannot be interrupted, so one that was aborted while it ran,
+ * or that took longer than its timeout, fails once it returns, discarding its
+ * result. The host may still have completed the work.
+ * @internal
+ */
+function lateFailure(actionName: string, started: number, options: ExecuteOptions): SimpleResponse<never> | undefined {
+  if (options.signal?.aborted) {
+    return aborted(actionName)
+  }
+
+  const { timeout = 0 } = options
+  if (timeout > 0 && Date.now() - started > timeout) {
+    return { error: { code: TIMEOUT, message: `host call "${actionName}" timed out after ${timeout}ms`, status: 504 }, ok: false }
+  }
+
+  return undefined
+}
+
 /**
  * Executes an action synchronously on the host system and returns the response.
  *
- * NOTE: The memory model for this execution is that the entire WASM instance is
- * ephemeral. Memory is allocated for this single execution and then discarded
- * when the instance is terminated. Therefore, a manual memory reset is not required.
+ * NOTE: The WASM instance is ephemeral, but long chains of nested host calls can
+ * still grow linear memory, so every buffer allocated for a call is freed as
+ * soon as the call completes (see `withArena` in `internal/memory`).
  *
  * This function has two internal implementations selected at build time:
  * 1. ASYNC_BUILD = true: For browsers, uses Asyncify to pause/resume execution.
  * 2. ASYNC_BUILD = false: For Elixir, uses a synchronous call-and-get-result pattern.
+ *
+ * Host calls in this module block until the host replies, so `options.signal` and
+ * `options.timeout` are checked before the call starts and again once it
+ * returns (see `lateFailure`). The script worker implementation
+ * (`worker-override.js`) rejects the call as soon as either fires.
  */
-export function execute<T = any>(actionName: string, params: any, context: Context): SimpleResponse<T> {
-  // We must track the pointers for the parameters so we can free them after the call.
-  // They are declared here to be accessible in the `finally` block.
-  let actionNamePtr = 0
-  let actionNameLen = 0
-  let paramsPtr = 0
-  let paramsLen = 0
-  let contextPtr = 0
-  let contextLen = 0
-
-  try {
-    const paramsJSON = JSON.stringify(params ?? null)
-    const contextJSON = JSON.stringify(context)
-
-    ;[actionNamePtr, actionNameLen] = stringToPtr(actionName)
-    ;[paramsPtr, paramsLen] = stringToPtr(paramsJSON)
-    ;[contextPtr, contextLen] = stringToPtr(contextJSON)
+export function execute<T = any>(actionName: string, params: any, context: Context, options: ExecuteOptions = {}): SimpleResponse<T> {
+  if (options.signal?.aborted) {
+    return aborted(actionName)
+  }
+
+  const started = Date.now()
+
+  // Every buffer allocated for this call, including the parameters and (on the
+  // synchronous path) the result buffer, is freed when the arena scope exits.
+  const response = withArena((): SimpleResponse<T> => {
+    const [actionNamePtr, actionNameLen] = stringToPtr(actionName)
+    const [paramsPtr, paramsLen] = stringToPtr(JSON.stringify(params ?? null))
+    const [contextPtr, contextLen] = stringToPtr(JSON.stringify(context))
 
     if (__ASYNC_BUILD__) {
       // --- ASYNCIFY-AWARE PATH (FOR BROWSER) ---
@@ -61,17 +92,16 @@ export function execute<T = any>(actionName: string, params: any, context: Conte
         responsePtr = __wasm.get_response_ptr()
         responseLen = __wasm.get_response_len()
 
-        const resultBytes = readBufferSlice(responsePtr, responseLen)
-        const resultJSON = decoder.decode(resultBytes)
+        const result = readJSON<SimpleResponse<T>>(responsePtr, responseLen)
 
         // Immediately clear the response buffer pointers in the Javy plugin to
         // prevent reading stale data on subsequent nested calls.
         __wasm.clear_response_buffer()
 
-        return JSON.parse(resultJSON) as SimpleResponse<T>
+        return result
       }
       finally {
-        // 1. Free the result buffer allocated by the host.
+        // The result buffer was allocated by the host, not inside our arena.
         if (responsePtr > 0) {
           deallocate(responsePtr, responseLen)
         }
@@ -79,55 +109,123 @@ export function execute<T = any>(actionName: string, params: any, context: Conte
     }
     else {
       // --- SYNCHRONOUS PATH (FOR ELIXIR BACKEND) ---
-      let resultPtr = 0
-      let resultLen = 0
 
-      try {
-        // 1. Make the synchronous call. The host now holds the result.
-        __host.call(actionNamePtr, actionNameLen, paramsPtr, paramsLen, contextPtr, contextLen)
-
-        // 2. Ask the host for the size of the result.
-        resultLen = __host.getExecutionResultSize()
-        if (resultLen === 0) {
-          return { error: { message: 'Host returned an empty result.' }, ok: false }
-        }
+      // 1. Make the synchronous call. The host now holds the result.
+      __host.call(actionNamePtr, actionNameLen, paramsPtr, paramsLen, contextPtr, contextLen)
 
-        // 3. Allocate memory inside WASM for the result.
-        resultPtr = allocate(resultLen)
+      // 2. Ask the host for the size of the result.
+      const resultLen = __host.getExecutionResultSize()
+      if (resultLen === 0) {
+        return { error: { message: 'Host returned an empty result.' }, ok: false }
+      }
 
-        // 4. Ask the host to write the result into our buffer.
-        __host.getExecutionResult(resultPtr)
+      // 3. Allocate memory inside WASM for the result.
+      const resultPtr = allocate(resultLen)
 
-        // 5. Read the result from our buffer and return it.
-        const resultBytes = readBufferSlice(resultPtr, resultLen)
-        const resultJSON = decoder.decode(resultBytes)
+      // 4. Ask the host to write the result into our buffer.
+      __host.getExecutionResult(resultPtr)
 
-        return JSON.parse(resultJSON) as SimpleResponse<T>
-      }
-      finally {
-        // Free the result buffer allocated by us.
-        if (resultPtr > 0) {
-          deallocate(resultPtr, resultLen)
-        }
-      }
+      // 5. Parse the result straight out of our buffer and return it.
+      return readJSON<SimpleResponse<T>>(resultPtr, resultLen)
     }
+  })
+
+  return lateFailure(actionName, started, options) ?? response
+}
+
+/**
+ * Executes an action that carries raw binary content, such as file bytes, in
+ * both directions. The body crosses the boundary as raw bytes (no JSON or
+ * base64 encoding), and the host replies with a binary envelope holding the
+ * JSON response and a raw response body.
+ *
+ * Requires a host that provides `__host.callBinary`; otherwise the response
+ * fails with `UNSUPPORTED_BY_HOST`. Like `execute`, the call blocks until the
+ * host replies, so `options.signal` and `options.timeout` are checked before it
+ * starts and once it returns.
+ *
+ * @param actionName The host action to execute.
+ * @param params The JSON parameters of the action.
+ * @param body The raw request body.
+ * @param context The execution context.
+ * @param options Per-call options.
+ * @returns The JSON response and the raw response body.
+ */
+export function executeBinary<T = any>(actionName: string, params: any, body: Uint8Array, context: Context, options: ExecuteOptions = {}): BinaryResponse<T> {
+  const empty = new Uint8Array(0)
+
+  if (options.signal?.aborted) {
+    return { body: empty, response: aborted(actionName) }
   }
-  finally {
-    // 2. Free the parameter buffers we allocated before the host call.
-    if (actionNamePtr > 0) {
-      deallocate(actionNamePtr, actionNameLen)
-    }
 
-    if (paramsPtr > 0) {
-      deallocate(paramsPtr, paramsLen)
-    }
+  if (__ASYNC_BUILD__ || typeof __host.callBinary !== 'function') {
+    return { body: empty, response: { error: { code: UNSUPPORTED_BY_HOST, message: 'binary host calls are unsupported by this host' }, ok: false } }
+  }
+
+  const started = Date.now()
+
+  const result = withArena((): BinaryResponse<T> => {
+    const [actionNamePtr, actionNameLen] = stringToPtr(actionName)
+    const [paramsPtr, paramsLen] = stringToPtr(JSON.stringify(params ?? null))
+    const [bodyPtr, bodyLen] = bytesToPtr(body)
+    const [contextPtr, contextLen] = stringToPtr(JSON.stringify(context))
 
-    if (contextPtr > 0) {
-      deallocate(contextPtr, contextLen)
+    __host.callBinary!(actionNamePtr, actionNameLen, paramsPtr, paramsLen, bodyPtr, bodyLen, contextPtr, contextLen)
+
+    const resultLen = __host.getExecutionResultSize()
+    if (resultLen === 0) {
+      return { body: empty, response: { error: { message: 'Host returned an empty result.' }, ok: false } }
     }
+
+    const resultPtr = allocate(resultLen)
+    __host.getExecutionResult(resultPtr)
+
+    // Copy out of linear memory: the body must outlive the result buffer.
+    return decodeEnvelope<T>(readBufferSlice(resultPtr, resultLen))
+  })
+
+  const failure = lateFailure(actionName, started, options)
+  return failure ? { body: empty, response: failure } : result
+}
+
+/**
+ * Executes several actions on the host in a single ABI crossing.
+ *
+ * The operations are sent as one combined payload to the batch action, and the
+ * host replies with one `SimpleResponse` per operation, in order. If the batch
+ * itself fails, every operation reports that failure.
+ *
+ * @param calls The operations to execute.
+ * @param context The execution context shared by all operations.
+ * @param options Options applied to the combined call.
+ * @returns One response per operation, in the order given.
+ */
+export function executeBatch(calls: BatchCall[], context: Context, options: ExecuteOptions = {}): SimpleResponse[] {
+  if (calls.length === 0) {
+    return []
   }
+
+  const payload = { calls: calls.map(call => ({ name: call.action, params: call.params ?? null })) }
+  const response = execute<SimpleResponse[]>(BATCH_ACTION, payload, context, options)
+
+  if (!response.ok || !Array.isArray(response.data)) {
+    const error = response.error ?? { message: 'Host returned an invalid batch response.' }
+    return calls.map(() => ({ error, ok: false }))
+  }
+
+  return response.data
 }
 
+/**
+ * Configures automatic coalescing of concurrent host calls.
+ *
+ * Every call in this implementation returns synchronously, so there is never
+ * more than one call in flight to coalesce. This is a no-op kept for API parity
+ * with the script worker, where concurrent calls (e.g. under `Promise.all`) are
+ * coalesced into batches.
+ */
+export function configureBatching(_options: BatchingOptions): void {}
+
 /**
  * Executes an action asynchronously on the host system (fire-and-forget).
  */
@@ -135,12 +233,15 @@ export function executeAsync(actionName: string, params: any, context: Context):
   const paramsJSON = JSON.stringify(params ?? null)
   const contextJSON = JSON.stringify(context)
 
-  const [actionNamePtr, actionNameLen] = stringToPtr(actionName)
-  const [paramsPtr, paramsLen] = stringToPtr(paramsJSON)
-  const [contextPtr, contextLen] = stringToPtr(contextJSON)
+  // The host copies the buffers during the cast, so they can be freed right after.
+  withArena(() => {
+    const [actionNamePtr, actionNameLen] = stringToPtr(actionName)
+    const [paramsPtr, paramsLen] = stringToPtr(paramsJSON)
+    const [contextPtr, contextLen] = stringToPtr(contextJSON)
 
-  // Make the asynchronous (fire-and-forget) call to the host.
-  __host.cast(actionNamePtr, actionNameLen, paramsPtr, paramsLen, contextPtr, contextLen)
+    // Make the asynchronous (fire-and-forget) call to the host.
+    __host.cast(actionNamePtr, actionNameLen, paramsPtr, paramsLen, contextPtr, contextLen)
+  })
 }
 
 /**
@@ -160,21 +261,14 @@ export function getContext(): Uint8Array {
     return new Uint8Array(0)
   }
 
-  // Allocate memory for the data inside the WASM module's buffer.
-  const ptr = allocate(size)
-  let buffer: Uint8Array
+  return withArena(() => {
+    // Allocate memory for the data inside the WASM module's buffer.
+    const ptr = allocate(size)
 
-  try {
     // Ask the host to write the data into the allocated memory region.
     __host.getContext(ptr)
 
-    // Now that the data is in our memory, create a slice to read it.
-    buffer = readBufferSlice(ptr, size)
-  }
-  finally {
-    // Free the memory we allocated now that the data is in a JS-owned buffer.
-    deallocate(ptr, size)
-  }
-
-  return buffer
+    // Copy the data into a JS-owned buffer before the arena frees the memory.
+    return readBufferSlice(ptr, size)
+  })
 }
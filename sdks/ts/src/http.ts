@@ -1,19 +1,1162 @@
-import type { Context } from './types'
+/**
+ * @file Simple Platform HTTP SDK
+ *
+ * This module makes outbound HTTP requests through the host. `fetch` and the
+ * verb helpers return the response data directly, leaving non-success handling
+ * to the host. `request` returns the full response instead, with its status,
+ * headers and body, and throws an `HttpError` for statuses the caller does not
+ * accept; the verb helpers opt into it with `{ response: true }`.
+ *
+ * Request bodies are encoded according to their kind: objects as JSON, strings
+ * as text, byte arrays as binary, `URLSearchParams` as a form, with a matching
+ * `Content-Type` unless the caller sets one. `bodyType` overrides the choice,
+ * e.g. to send an object as a form or as `multipart/form-data`.
+ *
+ * A request with a `retry` policy is retried on transient failures with
+ * exponential backoff, and a per-host circuit breaker stops calling a host
+ * that keeps failing for the rest of the execution.
+ *
+ * `paginate` iterates over the items of a paginated API, following `Link`
+ * headers, cursors, offsets or page numbers.
+ *
+ * `oauth2` returns a variant of the module that authenticates every request
+ * with an OAuth2 access token, obtained with credentials from app settings and
+ * cached across executions.
+ */
+import type { BoundHttp, BoundHttpBodyHelper, BoundHttpHelper } from './client'
+import type { Context, DocumentHandle } from './types'
 
+import { failIfUnsupported } from './capabilities'
+import { hash } from './crypto'
+import { ABORTED, CIRCUIT_OPEN, HTTP_ERROR, OAUTH2_ERROR, SimpleActionError, TIMEOUT, UNSUPPORTED_BY_HOST } from './errors'
 import { execute as hostExecute } from './host'
+import { btoa, encodeBytes } from './internal/base64'
+import { hasPollingTimers } from './internal/global'
+import * as log from './log'
+import * as settings from './settings'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Stops sending requests to a host after repeated transient failures within an
+ * execution, failing them fast with a `CIRCUIT_OPEN` error instead.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * How long in milliseconds the circuit stays open before a single trial
+   * request is let through. Defaults to 30 seconds.
+   */
+  cooldown?: number
+
+  /** The number of consecutive transient failures that opens the circuit. Defaults to 5. */
+  threshold?: number
+}
+
+/**
+ * How a request body is encoded:
+ * - `bytes`: a `Uint8Array` or `ArrayBuffer`, sent as is, or a string, sent as UTF-8 (`application/octet-stream`).
+ * - `form`: an object or `URLSearchParams`, or an already encoded string, sent as `application/x-www-form-urlencoded`.
+ * - `json`: any JSON-serializable value (`application/json`).
+ * - `multipart`: an object of `MultipartValue`s, sent as `multipart/form-data`.
+ * - `text`: a string, sent as is (`text/plain;charset=UTF-8`).
+ */
+export type HttpBodyType = 'bytes' | 'form' | 'json' | 'multipart' | 'text'
+
+/** The HTTP methods supported by the host. */
+export type HttpMethod = 'DELETE' | 'GET' | 'HEAD' | 'OPTIONS' | 'PATCH' | 'POST' | 'PUT'
+
+/**
+ * Query-string parameters. Arrays repeat the parameter; `null` and `undefined`
+ * values are omitted.
+ */
+export type HttpQuery = Record<string, HttpQueryValue | HttpQueryValue[]>
+
+/** A single query-string or form value. */
+export type HttpQueryValue = boolean | null | number | string | undefined
 
 /**
  * Represents the configuration for an HTTP request.
  */
 export interface HttpRequest {
+  /** The request body, encoded according to its kind or `bodyType`. */
   body?: any
+
+  /** Overrides how the body is encoded. By default it is inferred from the body. */
+  bodyType?: HttpBodyType
+
   headers?: Record<string, string>
-  method?: 'DELETE' | 'GET' | 'PATCH' | 'POST' | 'PUT'
+  method?: HttpMethod
+
+  /** Query-string parameters, appended to the URL. */
+  query?: HttpQuery
+
+  /**
+   * Retries transient failures: `true` uses the default `RetryPolicy`, and a
+   * number sets its `attempts`. `timeout` applies to each attempt.
+   */
+  retry?: boolean | number | RetryPolicy
+
+  /** Aborts the request. */
+  signal?: AbortSignal
+
+  /** The maximum time in milliseconds to wait for the response. */
+  timeout?: number
+
+  url: string
+
+  /**
+   * Decides which statuses `request` accepts; any other status throws an
+   * `HttpError`. Defaults to accepting 2xx. Pass `() => true` to never throw.
+   * Ignored by `fetch`, which leaves status handling to the host.
+   */
+  validateStatus?: (status: number) => boolean
+}
+
+/**
+ * Options for the verb helpers. With `response: true`, a helper returns the
+ * full `HttpResponse`, as `request` does, instead of the response data.
+ */
+export interface HttpOptions extends Pick<HttpRequest, 'bodyType' | 'query' | 'retry' | 'signal' | 'timeout' | 'validateStatus'> {
+  response?: boolean
+}
+
+/**
+ * A complete HTTP response, as returned by `request`.
+ */
+export interface HttpResponse<T = any> {
+  /** The response body as text. */
+  body: string
+
+  /** The response headers, with lowercase names. Repeated headers are joined with `, `. */
+  headers: Record<string, string>
+
+  /** Parses the body as JSON. */
+  json: <R = T>() => R
+
+  /** Whether the status is in the 2xx range. */
+  ok: boolean
+
+  /** Whether the request was redirected. */
+  redirected: boolean
+
+  /** The HTTP status code. */
+  status: number
+
+  /** The HTTP status text, e.g. `Not Found`. */
+  statusText: string
+
+  /** Returns the body as text. */
+  text: () => string
+
+  /** The final URL of the response, after any redirects. */
   url: string
 }
 
-export async function del<T = any>(url: string, headers: Record<string, string>, context: Context): Promise<T> {
-  return fetch({ headers, method: 'DELETE', url }, context)
+/**
+ * A file part of a `multipart/form-data` body, given by its content.
+ */
+export interface MultipartFile {
+  /** The file content. Strings are encoded as UTF-8. */
+  content: string | Uint8Array
+
+  /** The part's `Content-Type`. Defaults to `application/octet-stream`. */
+  contentType?: string
+
+  /** The file name reported for the part. */
+  filename?: string
+}
+
+/**
+ * A value of a `multipart/form-data` body: a plain field, a file given by its
+ * content, or a file stored in the platform, which the host streams from
+ * storage. Arrays repeat the field.
+ */
+export type MultipartValue = boolean | DocumentHandle | MultipartFile | number | string
+
+/**
+ * The `http` module, bound to an execution context, with every request
+ * authenticated by an OAuth2 access token. A request that is rejected with 401
+ * is retried once with a newly obtained token.
+ *
+ * To see the 401 on every host, the client always asks for the full response.
+ * `fetch` and the verb helpers without `{ response: true }` therefore resolve
+ * with the parsed body (JSON when the `Content-Type` says so, text otherwise)
+ * and throw an `HttpError` for statuses that `validateStatus` rejects.
+ */
+export interface OAuth2Client extends Omit<BoundHttp, 'oauth2'> {
+  /** Discards the cached token, so the next request obtains a new one. */
+  invalidate: () => Promise<void>
+
+  /** Returns a valid access token, obtaining or refreshing one if needed. */
+  token: () => Promise<string>
+}
+
+/**
+ * Configuration for `oauth2`. The client credentials, and the refresh token for
+ * the refresh-token flow, are read from the settings of `appId`.
+ */
+export interface OAuth2Options {
+  /** The application whose settings hold the credentials. */
+  appId: string
+
+  /** The `audience` parameter some providers require. */
+  audience?: string
+
+  /**
+   * How the client authenticates to the token endpoint: HTTP Basic
+   * (`client_secret_basic`, the default) or form fields (`client_secret_post`).
+   */
+  authMethod?: 'basic' | 'body'
+
+  /** The settings key of the client ID. Defaults to `oauth_client_id`. */
+  clientIdSetting?: string
+
+  /** The settings key of the client secret. Defaults to `oauth_client_secret`. */
+  clientSecretSetting?: string
+
+  /**
+   * The settings key of a refresh token. When set, tokens are obtained with the
+   * refresh-token grant instead of client credentials. A rotated refresh token
+   * returned by the server is cached and used for the next refresh. Without
+   * it, a refresh token in a client-credentials response is ignored.
+   */
+  refreshTokenSetting?: string
+
+  /** How long in milliseconds before expiry a token is renewed. Defaults to 60 seconds. */
+  refreshWindow?: number
+
+  /** The requested scopes. */
+  scope?: string | string[]
+
+  /** The token endpoint URL. */
+  tokenUrl: string
+}
+
+/**
+ * A request whose responses are pages of items, for `paginate`.
+ */
+export interface PaginatedRequest<T = any> extends HttpRequest {
+  /** Milliseconds to wait between page requests, e.g. to stay under rate limits. */
+  delay?: number
+
+  /**
+   * Where the items are in each page's JSON body: a dot-separated path such as
+   * `data.items`, or a function. Defaults to the body itself, which must then be
+   * an array.
+   */
+  items?: ((body: any, response: HttpResponse) => T[]) | string
+
+  /** Stops after this many items. */
+  maxItems?: number
+
+  /** Stops after this many pages. Defaults to 100, as a guard against endless pagination. */
+  maxPages?: number
+
+  /** How to find the next page. */
+  strategy: PaginationStrategy
+}
+
+/**
+ * How `paginate` finds the next page:
+ * - `link`: follows the `rel="next"` URL of the `Link` header (RFC 8288).
+ * - `cursor`: sends the cursor found at `next` (a path or a function over the
+ *   body) as the `param` query parameter, until the cursor is empty.
+ * - `offset`: advances the `offsetParam` query parameter by `limit`, sent as
+ *   `limitParam`, until a page has fewer than `limit` items.
+ * - `page`: increments the `param` query parameter from `start` (default 1),
+ *   until a page is empty or has fewer than `size` items.
+ */
+export type PaginationStrategy
+  = | { limit: number, limitParam?: string, offsetParam?: string, type: 'offset' }
+    | { next: ((body: any, response: HttpResponse) => null | string | undefined) | string, param: string, type: 'cursor' }
+    | { param?: string, size?: number, sizeParam?: string, start?: number, type: 'page' }
+    | { type: 'link' }
+
+/**
+ * When and how a request is retried. A failure is transient when the response
+ * status is in `statuses` or the attempt timed out.
+ *
+ * Only idempotent requests are retried: those whose method is in `methods`, or
+ * that carry an `Idempotency-Key` header. Transient failures of any request
+ * still count towards the circuit breaker.
+ */
+export interface RetryPolicy {
+  /** The maximum number of attempts, including the first. Defaults to 3. */
+  attempts?: number
+
+  /** The per-host circuit breaker, or `false` to disable it. Enabled by default. */
+  circuitBreaker?: CircuitBreakerOptions | false
+
+  /**
+   * The base delay in milliseconds. The delay before retry `n` is a random
+   * duration up to `initialDelay * 2 ** (n - 1)` ("full jitter"). Defaults to 250.
+   */
+  initialDelay?: number
+
+  /**
+   * The longest delay in milliseconds. A `Retry-After` asking for a longer wait
+   * ends the retries instead. Defaults to 10 seconds. In the synchronous
+   * runtime, whose polyfilled timers keep the CPU busy while they wait, it is
+   * capped at 1 second.
+   */
+  maxDelay?: number
+
+  /** The methods considered idempotent. Defaults to `DELETE`, `GET`, `HEAD`, `OPTIONS` and `PUT`. */
+  methods?: HttpMethod[]
+
+  /** Whether to wait as long as the response's `Retry-After` header asks. Defaults to `true`. */
+  respectRetryAfter?: boolean
+
+  /** The statuses that are retried. Defaults to 408, 425, 429, 500, 502, 503 and 504. */
+  statuses?: number[]
+}
+
+/**
+ * A cached OAuth2 token.
+ * @internal
+ */
+interface OAuth2Token {
+  access_token: string
+  expires_at: null | number
+  refresh_token?: string
+  token_type: string
+}
+
+/**
+ * The wire format of a full response, as returned by the host when the request
+ * sets `full_response`.
+ * @internal
+ */
+interface HostHttpResponse {
+  body?: null | string
+  headers?: Record<string, string | string[]>
+  redirected?: boolean
+  status: number
+  status_text?: string
+  url?: string
+}
+
+// ============================================================================
+// Constants & Internal State
+// ============================================================================
+
+/** The number of body characters kept in an `HttpError`'s serialized details. */
+const ERROR_BODY_LIMIT = 1000
+
+/** The defaults of `RetryPolicy` and `CircuitBreakerOptions`. */
+const RETRY_DEFAULTS = {
+  attempts: 3,
+  cooldown: 30_000,
+  initialDelay: 250,
+  maxDelay: 10_000,
+  methods: ['DELETE', 'GET', 'HEAD', 'OPTIONS', 'PUT'] as HttpMethod[],
+  statuses: [408, 425, 429, 500, 502, 503, 504],
+  threshold: 5,
+}
+
+/**
+ * The longest retry delay, in milliseconds, where timers are the polling
+ * polyfill: every millisecond of backoff there is a millisecond of busy CPU.
+ */
+const POLLING_MAX_DELAY = 1000
+
+/** The host actions backing the OAuth2 token cache. */
+const CACHE_GET_ACTION = 'action:cache/get'
+const CACHE_SET_ACTION = 'action:cache/set'
+const CACHE_DELETE_ACTION = 'action:cache/delete'
+
+/**
+ * The longest a token stays in the host cache, in milliseconds. Tokens that
+ * carry a refresh token, or that do not expire, are kept this long.
+ */
+const TOKEN_CACHE_TTL = 24 * 60 * 60 * 1000
+
+/**
+ * OAuth2 tokens (or in-flight token requests), keyed by their cache key.
+ * They front the host cache, which shares tokens across executions.
+ * @internal
+ */
+const _tokens = new Map<string, Promise<OAuth2Token>>()
+
+/**
+ * Circuit breaker state, keyed by execution ID and then by host.
+ * @internal
+ */
+const _circuits = new Map<string, Map<string, { failures: number, openedAt?: number }>>()
+
+// ============================================================================
+// Public SDK Classes
+// ============================================================================
+
+/**
+ * Thrown by `request` when the response status is not accepted by the
+ * request's `validateStatus`. It carries the status, the body and the complete
+ * response; if the action does not catch it, the status and (truncated) body
+ * are reported in the action's error details.
+ */
+export class HttpError extends SimpleActionError {
+  public readonly body: string
+  public readonly response: HttpResponse
+  declare public readonly status: number
+
+  constructor(method: string, response: HttpResponse) {
+    super(HTTP_ERROR, `${method} ${response.url} failed with status ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`, {
+      details: {
+        body: response.body.length > ERROR_BODY_LIMIT ? `${response.body.slice(0, ERROR_BODY_LIMIT)}…` : response.body,
+        method,
+        url: response.url,
+      },
+      status: response.status,
+    })
+    this.name = 'HttpError'
+    this.body = response.body
+    this.response = response
+  }
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/** @internal */
+function isSuccess(status: number): boolean {
+  return status >= 200 && status < 300
+}
+
+/** @internal */
+function toResponse<T>(data: HostHttpResponse, requestUrl: string): HttpResponse<T> {
+  const body = data.body ?? ''
+  const headers: Record<string, string> = {}
+
+  for (const [name, value] of Object.entries(data.headers ?? {})) {
+    headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value)
+  }
+
+  return {
+    body,
+    headers,
+    json: <R = T>() => JSON.parse(body) as R,
+    ok: isSuccess(data.status),
+    redirected: data.redirected ?? false,
+    status: data.status,
+    statusText: data.status_text ?? '',
+    text: () => body,
+    url: data.url ?? requestUrl,
+  }
+}
+
+/**
+ * Serializes name/value pairs with the `application/x-www-form-urlencoded`
+ * serializer, as `URLSearchParams` does.
+ * @internal
+ */
+function encodeForm(entries: Array<[string, HttpQueryValue]>): string {
+  return entries
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([name, value]) => `${encodeFormComponent(name)}=${encodeFormComponent(String(value))}`)
+    .join('&')
+}
+
+/** @internal */
+function encodeFormComponent(value: string): string {
+  return encodeURIComponent(value)
+    .replace(/[!'()~]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+    .replace(/%20/g, '+')
+}
+
+/** @internal */
+function entriesOf(values: any): Array<[string, any]> {
+  if (typeof URLSearchParams !== 'undefined' && values instanceof URLSearchParams) {
+    return [...values.entries()]
+  }
+
+  return Object.entries(values ?? {}).flatMap(([name, value]) =>
+    Array.isArray(value) ? value.map(item => [name, item] as [string, any]) : [[name, value] as [string, any]])
+}
+
+/** @internal */
+function isDocumentHandle(value: any): value is DocumentHandle {
+  return typeof value === 'object' && value !== null && typeof value.file_hash === 'string' && typeof value.storage_path === 'string'
+}
+
+/** @internal */
+function inferBodyType(body: any): HttpBodyType {
+  if (typeof body === 'string') {
+    return 'text'
+  }
+
+  if (body instanceof Uint8Array || body instanceof ArrayBuffer) {
+    return 'bytes'
+  }
+
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+    return 'form'
+  }
+
+  return 'json'
+}
+
+/**
+ * Converts the fields of a multipart body into the parts the host assembles
+ * into the `multipart/form-data` payload.
+ * @internal
+ */
+function toMultipart(body: Record<string, MultipartValue | MultipartValue[]>): Array<Record<string, any>> {
+  return entriesOf(body).flatMap(([name, value]: [string, MultipartValue]): Array<Record<string, any>> => {
+    if (value === null || value === undefined) {
+      return []
+    }
+
+    if (isDocumentHandle(value)) {
+      return [{ document: value, name }]
+    }
+
+    if (typeof value === 'object') {
+      const content = typeof value.content === 'string' ? new TextEncoder().encode(value.content) : value.content
+      return [{
+        content: encodeBytes(content),
+        content_type: value.contentType ?? 'application/octet-stream',
+        filename: value.filename,
+        name,
+      }]
+    }
+
+    return [{ name, value: String(value) }]
+  })
+}
+
+/** @internal */
+function withQuery(url: string, query?: HttpQuery): string {
+  const search = query ? encodeForm(entriesOf(query)) : ''
+  if (!search) {
+    return url
+  }
+
+  const hashIndex = url.indexOf('#')
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex)
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex)
+  const separator = !base.includes('?') ? '?' : /[?&]$/.test(base) ? '' : '&'
+
+  return `${base}${separator}${search}${hash}`
+}
+
+/**
+ * Builds the host request, encoding the body and setting the `Content-Type`
+ * that matches its kind unless the caller already set one.
+ * @internal
+ */
+function toHostRequest(request: HttpRequest): Record<string, any> {
+  const headers = { ...request.headers }
+  const hostRequest: Record<string, any> = {
+    headers,
+    method: request.method ?? 'GET',
+    url: withQuery(request.url, request.query),
+  }
+
+  if (request.body === undefined || request.body === null) {
+    return hostRequest
+  }
+
+  const bodyType = request.bodyType ?? inferBodyType(request.body)
+  let contentType: string | undefined
+
+  switch (bodyType) {
+    case 'bytes':
+      hostRequest.body = encodeBytes(typeof request.body === 'string'
+        ? new TextEncoder().encode(request.body)
+        : request.body instanceof Uint8Array ? request.body : new Uint8Array(request.body))
+      hostRequest.body_encoding = 'base64'
+      contentType = 'application/octet-stream'
+      break
+    case 'form':
+      hostRequest.body = typeof request.body === 'string' ? request.body : encodeForm(entriesOf(request.body))
+      contentType = 'application/x-www-form-urlencoded;charset=UTF-8'
+      break
+    case 'multipart':
+      // The host picks the boundary, so it also sets the Content-Type header.
+      hostRequest.multipart = toMultipart(request.body)
+      break
+    case 'text':
+      hostRequest.body = String(request.body)
+      contentType = 'text/plain;charset=UTF-8'
+      break
+    default:
+      hostRequest.body = JSON.stringify(request.body)
+      contentType = 'application/json'
+  }
+
+  if (contentType && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = contentType
+  }
+
+  return hostRequest
+}
+
+/**
+ * Sends a verb helper's request through `fetch` or, when the caller opted into
+ * the full response, through `request`.
+ * @internal
+ */
+async function send(config: HttpRequest, context: Context, options: HttpOptions): Promise<any> {
+  const { response, ...rest } = options
+  return response ? request({ ...config, ...rest }, context) : fetch({ ...config, ...rest }, context)
+}
+
+// ============================================================================
+// Retry & Circuit Breaking
+// ============================================================================
+
+/** @internal */
+function circuitFor(url: string, context: Context): { failures: number, openedAt?: number } {
+  const executionId = context.logic?.execution_id ?? 'unknown'
+  const host = (/^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?([^/?#]*)/i.exec(url)?.[1] ?? url).toLowerCase()
+
+  let circuits = _circuits.get(executionId)
+  if (!circuits) {
+    circuits = new Map()
+    _circuits.set(executionId, circuits)
+  }
+
+  let circuit = circuits.get(host)
+  if (!circuit) {
+    circuit = { failures: 0 }
+    circuits.set(host, circuit)
+  }
+
+  return circuit
+}
+
+/**
+ * Returns how long a `Retry-After` header asks to wait, in milliseconds.
+ * @internal
+ */
+function retryAfterOf(response: HttpResponse | undefined): number | undefined {
+  const value = response?.headers['retry-after']?.trim()
+  if (!value) {
+    return undefined
+  }
+
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value) - Date.now()
+  return Number.isNaN(ms) ? undefined : Math.max(0, ms)
+}
+
+/** @internal */
+function isHttpResponse(value: unknown): value is HttpResponse {
+  return typeof value === 'object' && value !== null && 'headers' in value && 'status' in value
+}
+
+/** @internal */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const aborted = (): SimpleActionError => new SimpleActionError(ABORTED, 'HTTP request was aborted')
+
+    if (signal?.aborted) {
+      reject(aborted())
+      return
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      reject(aborted())
+    }
+
+    timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Runs `attempt` under the request's retry policy and circuit breaker,
+ * reporting the outcome of every attempt to the SDK logger. A result whose
+ * `statusOf` is a retried status counts as a failed attempt; once the attempts
+ * run out, the last result is returned (or the last error thrown).
+ * @internal
+ */
+async function withRetry<T>(request: HttpRequest, context: Context, attempt: () => Promise<T>, statusOf?: (result: T) => number): Promise<T> {
+  if (request.retry === undefined || request.retry === false) {
+    return attempt()
+  }
+
+  const options = typeof request.retry === 'object' ? request.retry : typeof request.retry === 'number' ? { attempts: request.retry } : {}
+  const policy = { ...RETRY_DEFAULTS, respectRetryAfter: true, ...options }
+  const breaker = policy.circuitBreaker === false ? null : { ...RETRY_DEFAULTS, ...policy.circuitBreaker }
+
+  const method = request.method ?? 'GET'
+  const idempotent = policy.methods.includes(method)
+    || Object.keys(request.headers ?? {}).some(name => name.toLowerCase() === 'idempotency-key')
+  const circuit = circuitFor(request.url, context)
+
+  for (let n = 1; ; n++) {
+    const fields: Record<string, any> = { attempt: n, attempts: policy.attempts, method, url: request.url }
+
+    if (breaker && circuit.openedAt !== undefined && Date.now() - circuit.openedAt < breaker.cooldown) {
+      log.warn(`HTTP ${method} rejected: circuit open`, fields, context)
+      throw new SimpleActionError(CIRCUIT_OPEN, `Circuit open for ${request.url} after ${circuit.failures} consecutive failures`, {
+        details: { failures: circuit.failures, url: request.url },
+        status: 503,
+      })
+    }
+
+    let result: T | undefined
+    let error: unknown
+    try {
+      result = await attempt()
+    }
+    catch (e) {
+      error = e
+    }
+
+    const failed = error === undefined ? undefined : error as SimpleActionError
+    const status = failed ? failed.status : statusOf?.(result as T)
+    const transient = failed
+      ? failed.code === TIMEOUT || (failed.code !== ABORTED && status !== undefined && policy.statuses.includes(status))
+      : status !== undefined && policy.statuses.includes(status)
+
+    Object.assign(fields, { status, ...(failed && { error: failed.message }) })
+
+    if (!transient) {
+      circuit.failures = 0
+      circuit.openedAt = undefined
+
+      if (failed) {
+        log.debug(`HTTP ${method} attempt ${n} failed permanently`, fields, context)
+        throw error
+      }
+
+      log.debug(`HTTP ${method} attempt ${n} succeeded`, fields, context)
+      return result as T
+    }
+
+    circuit.failures++
+    if (breaker && circuit.failures >= breaker.threshold) {
+      circuit.openedAt = Date.now()
+    }
+
+    const maxDelay = hasPollingTimers() ? Math.min(policy.maxDelay, POLLING_MAX_DELAY) : policy.maxDelay
+    const response = failed instanceof HttpError ? failed.response : isHttpResponse(result) ? result : undefined
+    const retryAfter = policy.respectRetryAfter ? retryAfterOf(response) : undefined
+    const delay = retryAfter ?? Math.random() * Math.min(maxDelay, policy.initialDelay * 2 ** (n - 1))
+    const reason = !idempotent
+      ? 'not idempotent'
+      : n >= policy.attempts
+        ? 'attempts exhausted'
+        : delay > maxDelay
+          ? 'Retry-After exceeds maxDelay'
+          : circuit.openedAt !== undefined && breaker
+            ? 'circuit open'
+            : undefined
+
+    if (reason) {
+      log.error(`HTTP ${method} attempt ${n} failed; giving up (${reason})`, fields, context)
+      if (failed) {
+        throw error
+      }
+      return result as T
+    }
+
+    log.warn(`HTTP ${method} attempt ${n} failed; retrying in ${Math.round(delay)}ms`, fields, context)
+    await sleep(delay, request.signal)
+  }
+}
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Reads a dot-separated path from a value, e.g. `meta.next_cursor`.
+ * @internal
+ */
+function pathOf(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], value)
+}
+
+/**
+ * Returns the `rel="next"` target of a `Link` header, resolved against the
+ * URL of the response.
+ * @internal
+ */
+function nextLink(response: HttpResponse): string | undefined {
+  for (const link of (response.headers.link ?? '').split(/,(?=\s*<)/)) {
+    const match = /^\s*<([^>]*)>(.*)$/.exec(link)
+    const rel = match && /;\s*rel\s*=\s*"?([^";]*)"?/i.exec(match[2])?.[1]
+
+    if (match && rel?.toLowerCase().split(/\s+/).includes('next')) {
+      try {
+        return new URL(match[1], response.url).toString()
+      }
+      catch {
+        return match[1]
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Iterates over the items of a paginated API, sending each page through
+ * `sendPage`.
+ * @internal
+ */
+async function* paginateWith<T>(config: PaginatedRequest<T>, sendPage: (config: HttpRequest) => Promise<HttpResponse>): AsyncGenerator<T, void, undefined> {
+  const { delay, items, maxItems = Infinity, maxPages = 100, strategy, ...base } = config
+  const extract = typeof items === 'function'
+    ? items
+    : (body: any): T[] => items ? pathOf(body, items) : body
+
+  let page: HttpRequest = { ...base }
+  let pageNumber = strategy.type === 'page' ? strategy.start ?? 1 : 0
+  let offset = 0
+  let yielded = 0
+
+  for (let pages = 1; ; pages++) {
+    if (strategy.type === 'offset') {
+      page.query = { ...page.query, [strategy.limitParam ?? 'limit']: strategy.limit, [strategy.offsetParam ?? 'offset']: offset }
+    }
+    else if (strategy.type === 'page') {
+      page.query = {
+        ...page.query,
+        [strategy.param ?? 'page']: pageNumber,
+        ...(strategy.size !== undefined && { [strategy.sizeParam ?? 'per_page']: strategy.size }),
+      }
+    }
+
+    const response = await sendPage(page)
+    const body = response.status === 204 || !response.body ? null : response.json()
+    const found = body === null ? [] : extract(body, response)
+
+    if (!Array.isArray(found)) {
+      throw new TypeError(`paginate expected an array of items${typeof items === 'string' ? ` at "${items}"` : ''}, got ${typeof found}`)
+    }
+
+    for (const item of found) {
+      if (yielded >= maxItems) {
+        return
+      }
+      yield item
+      yielded++
+    }
+
+    if (yielded >= maxItems || pages >= maxPages || found.length === 0) {
+      return
+    }
+
+    switch (strategy.type) {
+      case 'cursor': {
+        const cursor = typeof strategy.next === 'function' ? strategy.next(body, response) : pathOf(body, strategy.next)
+        if (cursor === null || cursor === undefined || cursor === '') {
+          return
+        }
+        page.query = { ...page.query, [strategy.param]: String(cursor) }
+        break
+      }
+      case 'link': {
+        const next = nextLink(response)
+        if (!next) {
+          return
+        }
+        // The next link carries the full query string.
+        page = { ...page, query: undefined, url: next }
+        break
+      }
+      case 'offset':
+        if (found.length < strategy.limit) {
+          return
+        }
+        offset += found.length
+        break
+      case 'page':
+        if (strategy.size !== undefined && found.length < strategy.size) {
+          return
+        }
+        pageNumber++
+        break
+    }
+
+    if (delay) {
+      await sleep(delay, base.signal)
+    }
+  }
+}
+
+// ============================================================================
+// OAuth2
+// ============================================================================
+
+/**
+ * Parses a response body for the helpers that resolve with the data: as JSON
+ * when the `Content-Type` says so, as text otherwise.
+ * @internal
+ */
+function bodyOf(response: HttpResponse): any {
+  return /\bjson\b/i.test(response.headers['content-type'] ?? '') ? response.json() : response.body
+}
+
+/** @internal */
+function hasHeader(headers: Record<string, string> | undefined, name: string): boolean {
+  return Object.keys(headers ?? {}).some(key => key.toLowerCase() === name)
+}
+
+/**
+ * Reads a token from the host cache. Hosts without a cache, or failing cache
+ * calls, simply miss: the callers ignore the errors of both cache helpers.
+ * @internal
+ */
+async function readCachedToken(key: string, context: Context): Promise<OAuth2Token | null> {
+  failIfUnsupported(CACHE_GET_ACTION, context)
+
+  const response = await hostExecute(CACHE_GET_ACTION, { key }, context)
+  const token = response.ok ? response.data?.value : null
+
+  return token && typeof token.access_token === 'string' ? token : null
+}
+
+/** @internal */
+async function writeCachedToken(key: string, token: OAuth2Token | null, context: Context): Promise<void> {
+  const action = token ? CACHE_SET_ACTION : CACHE_DELETE_ACTION
+  failIfUnsupported(action, context)
+
+  // Keep a token with a refresh token past its expiry, so that a rotated
+  // refresh token is still there for the next renewal.
+  const ttl = token?.expires_at && !token.refresh_token
+    ? Math.min(Math.max(0, token.expires_at - Date.now()), TOKEN_CACHE_TTL)
+    : TOKEN_CACHE_TTL
+  await hostExecute(action, token ? { key, ttl, value: token } : { key }, context)
+}
+
+/**
+ * Requests a new token from the token endpoint.
+ * @internal
+ */
+async function requestToken(options: OAuth2Options, refreshToken: string | undefined, context: Context): Promise<OAuth2Token> {
+  const clientIdSetting = options.clientIdSetting ?? 'oauth_client_id'
+  const clientSecretSetting = options.clientSecretSetting ?? 'oauth_client_secret'
+  const keys = [clientIdSetting, clientSecretSetting, ...(options.refreshTokenSetting && !refreshToken ? [options.refreshTokenSetting] : [])]
+  const values = await settings.get(options.appId, keys, context)
+
+  const clientId = values[clientIdSetting]
+  const clientSecret = values[clientSecretSetting]
+  refreshToken = options.refreshTokenSetting ? refreshToken ?? values[options.refreshTokenSetting] : undefined
+
+  if (!clientId || (options.refreshTokenSetting && !refreshToken)) {
+    throw new SimpleActionError(OAUTH2_ERROR, `OAuth2 credentials are missing from the settings of ${options.appId}`, {
+      details: { appId: options.appId, keys },
+    })
+  }
+
+  const form: Record<string, string | undefined> = refreshToken
+    ? { grant_type: 'refresh_token', refresh_token: refreshToken }
+    : { grant_type: 'client_credentials' }
+  const headers: Record<string, string> = { Accept: 'application/json' }
+
+  form.audience = options.audience
+  form.scope = Array.isArray(options.scope) ? options.scope.join(' ') : options.scope
+
+  if (options.authMethod === 'body') {
+    form.client_id = clientId
+    form.client_secret = clientSecret
+  }
+  else {
+    headers.Authorization = `Basic ${btoa(`${encodeFormComponent(clientId)}:${encodeFormComponent(clientSecret ?? '')}`)}`
+  }
+
+  const response = await request({
+    body: form,
+    bodyType: 'form',
+    headers,
+    method: 'POST',
+    retry: { methods: ['POST'] },
+    url: options.tokenUrl,
+    validateStatus: () => true,
+  }, context)
+
+  let body: Record<string, any> = {}
+  try {
+    body = response.json()
+  }
+  catch {
+    // Reported below as a missing access token.
+  }
+
+  if (!response.ok || typeof body.access_token !== 'string') {
+    throw new SimpleActionError(OAUTH2_ERROR, `OAuth2 token request failed: ${body.error_description ?? body.error ?? `status ${response.status}`}`, {
+      details: { error: body.error, error_description: body.error_description, tokenUrl: options.tokenUrl },
+      status: response.status >= 400 ? response.status : 502,
+    })
+  }
+
+  return {
+    access_token: body.access_token,
+    expires_at: typeof body.expires_in === 'number' ? Date.now() + body.expires_in * 1000 : null,
+    refresh_token: options.refreshTokenSetting ? body.refresh_token ?? refreshToken : undefined,
+    token_type: body.token_type ?? 'Bearer',
+  }
+}
+
+/**
+ * Returns an `http` client bound to `context` that authenticates every request
+ * with an OAuth2 access token, using the client-credentials grant or, with
+ * `refreshTokenSetting`, the refresh-token grant.
+ *
+ * Tokens are cached in the host cache under a key that includes the tenant,
+ * so executions of the same tenant share them until they are about to expire.
+ * Hosts without a cache fall back to caching within the runtime.
+ *
+ * @param options The token endpoint and where the credentials are stored.
+ * @param context The execution context.
+ * @returns A client whose requests carry an `Authorization` header.
+ *
+ * @example
+ * ```typescript
+ * const api = http.oauth2({ appId: 'dev.simple.crm', tokenUrl: 'https://auth.example.com/token' }, request.context)
+ * const contacts = await api.get('https://api.example.com/contacts')
+ * ```
+ */
+export function oauth2(options: OAuth2Options, context: Context): OAuth2Client {
+  if (!options?.appId || !options.tokenUrl) {
+    throw new Error('appId and tokenUrl are required for OAuth2')
+  }
+
+  const scope = Array.isArray(options.scope) ? options.scope.join(' ') : options.scope ?? ''
+  const tenant = context.tenant?.id ?? context.tenant?.name ?? ''
+  const cacheKey = `oauth2:${hash('sha256', JSON.stringify([tenant, options.appId, options.tokenUrl, options.audience ?? '', scope, options.clientIdSetting ?? '', options.refreshTokenSetting ?? '']))}`
+  const refreshWindow = options.refreshWindow ?? 60_000
+
+  const isFresh = (token: OAuth2Token): boolean => token.expires_at === null || token.expires_at - refreshWindow > Date.now()
+
+  /** Obtains a token from the host cache or, failing that, from the token endpoint. */
+  const obtain = async (previous: OAuth2Token | null, force: boolean): Promise<OAuth2Token> => {
+    if (!force) {
+      const cached = await readCachedToken(cacheKey, context).catch(() => null)
+      if (cached && isFresh(cached)) {
+        return cached
+      }
+      previous = cached ?? previous
+    }
+
+    const token = await requestToken(options, previous?.refresh_token, context)
+    await writeCachedToken(cacheKey, token, context).catch(() => {})
+    return token
+  }
+
+  /** Starts obtaining a token, sharing the request with concurrent callers. */
+  const renew = (previous: OAuth2Token | null, force: boolean): Promise<OAuth2Token> => {
+    const renewal = obtain(previous, force)
+    _tokens.set(cacheKey, renewal)
+    renewal.catch(() => _tokens.get(cacheKey) === renewal && _tokens.delete(cacheKey))
+    return renewal
+  }
+
+  const current = async (): Promise<OAuth2Token> => {
+    const pending = _tokens.get(cacheKey)
+    const token = pending ? await pending.catch(() => null) : null
+
+    if (token && isFresh(token)) {
+      return token
+    }
+
+    // Another caller may have started a renewal while this one waited.
+    const latest = _tokens.get(cacheKey)
+    return latest !== pending && latest ? latest : renew(token, false)
+  }
+
+  const invalidate = async (): Promise<void> => {
+    _tokens.delete(cacheKey)
+    await writeCachedToken(cacheKey, null, context).catch(() => {})
+  }
+
+  /**
+   * Sends a request with the token and returns the full response, retrying
+   * once with a new token on 401. The status is checked here rather than by
+   * `request`, so that the 401 is seen before `validateStatus` applies.
+   */
+  const authorized = async (config: HttpRequest): Promise<HttpResponse> => {
+    if (hasHeader(config.headers, 'authorization')) {
+      return request(config, context)
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const token = await current()
+      const response = await request({
+        ...config,
+        headers: { ...config.headers, Authorization: `${token.token_type} ${token.access_token}` },
+        validateStatus: () => true,
+      }, context)
+
+      if (response.status === 401 && attempt === 1) {
+        // The server rejected the token: obtain a new one, keeping the refresh token.
+        await renew(token, true)
+        continue
+      }
+
+      if (!(config.validateStatus ?? isSuccess)(response.status)) {
+        throw new HttpError(config.method ?? 'GET', response)
+      }
+
+      return response
+    }
+  }
+
+  /** Sends a request like `send`, resolving with the full response or its parsed body. */
+  const sendAuthorized = async (config: HttpRequest, options: HttpOptions): Promise<any> => {
+    const { response, ...rest } = options
+    const result = await authorized({ ...config, ...rest })
+
+    return response ? result : bodyOf(result)
+  }
+
+  const verb = (method: HttpMethod): BoundHttpHelper => {
+    function bound<T = any>(url: string, headers: Record<string, string> | undefined, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+    function bound<T = any>(url: string, headers?: Record<string, string>, options?: HttpOptions): Promise<T>
+    function bound(url: string, headers: Record<string, string> = {}, requestOptions: HttpOptions = {}): Promise<any> {
+      return sendAuthorized({ headers, method, url }, requestOptions)
+    }
+
+    return bound
+  }
+
+  const bodyVerb = (method: HttpMethod): BoundHttpBodyHelper => {
+    function bound<T = any>(url: string, body: any, headers: Record<string, string> | undefined, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+    function bound<T = any>(url: string, body: any, headers?: Record<string, string>, options?: HttpOptions): Promise<T>
+    function bound(url: string, body: any, headers: Record<string, string> = {}, requestOptions: HttpOptions = {}): Promise<any> {
+      return sendAuthorized({ body, headers, method, url }, requestOptions)
+    }
+
+    return bound
+  }
+
+  return {
+    del: verb('DELETE'),
+    fetch: config => sendAuthorized(config, {}),
+    get: verb('GET'),
+    head: verb('HEAD'),
+    invalidate,
+    options: verb('OPTIONS'),
+    paginate: config => paginateWith(config, authorized),
+    patch: bodyVerb('PATCH'),
+    post: bodyVerb('POST'),
+    put: bodyVerb('PUT'),
+    request: config => authorized(config),
+    token: async () => (await current()).access_token,
+  }
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+export async function del<T = any>(url: string, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+export async function del<T = any>(url: string, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<T>
+export async function del(url: string, headers: Record<string, string>, context: Context, options: HttpOptions = {}): Promise<any> {
+  return send({ headers, method: 'DELETE', url }, context, options)
 }
 
 /**
@@ -31,34 +1174,128 @@ export async function fetch<T = any>(request: HttpRequest, context: Context): Pr
     throw new Error('URL is required for HTTP request')
   }
 
-  const hostRequest = {
-    body: request.body ? JSON.stringify(request.body) : undefined,
-    headers: request.headers,
-    method: request.method ?? 'GET',
-    url: request.url,
-  }
+  failIfUnsupported('action:http/fetch', context)
+
+  const hostRequest = toHostRequest(request)
+
+  return withRetry(request, context, async () => {
+    const response = await hostExecute('action:http/fetch', hostRequest, context, {
+      signal: request.signal,
+      timeout: request.timeout,
+    })
+
+    if (!response.ok) {
+      throw SimpleActionError.fromResponse(response.error, 'HTTP request failed')
+    }
+
+    return response.data as T
+  })
+}
 
-  const response = await hostExecute('action:http/fetch', hostRequest, context)
+export async function get<T = any>(url: string, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+export async function get<T = any>(url: string, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<T>
+export async function get(url: string, headers: Record<string, string>, context: Context, options: HttpOptions = {}): Promise<any> {
+  return send({ headers, method: 'GET', url }, context, options)
+}
+
+export async function head(url: string, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse>
+export async function head(url: string, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<any>
+export async function head(url: string, headers: Record<string, string>, context: Context, options: HttpOptions = {}): Promise<any> {
+  return send({ headers, method: 'HEAD', url }, context, options)
+}
+
+export async function options<T = any>(url: string, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+export async function options<T = any>(url: string, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<T>
+export async function options(url: string, headers: Record<string, string>, context: Context, options: HttpOptions = {}): Promise<any> {
+  return send({ headers, method: 'OPTIONS', url }, context, options)
+}
 
-  if (!response.ok) {
-    throw new Error(response.error?.message ?? 'HTTP request failed')
+/**
+ * Iterates over the items of a paginated API, requesting pages as the
+ * iteration proceeds. Each page is fetched with `request`, so `retry`,
+ * `validateStatus` and the other request options apply to every page.
+ *
+ * @param config The first page's request, with the pagination strategy.
+ * @param context The execution context for the requests.
+ * @returns An async iterator over the items of all pages.
+ *
+ * @example
+ * ```typescript
+ * for await (const issue of http.paginate<Issue>({
+ *   strategy: { type: 'link' },
+ *   url: 'https://api.github.com/repos/acme/app/issues',
+ * }, request.context)) {
+ *   console.log(issue.title)
+ * }
+ * ```
+ */
+export function paginate<T = any>(config: PaginatedRequest<T>, context: Context): AsyncGenerator<T, void, undefined> {
+  if (!config.url) {
+    throw new Error('URL is required for HTTP request')
   }
 
-  return response.data as T
+  return paginateWith(config, page => request(page, context))
 }
 
-export async function get<T = any>(url: string, headers: Record<string, string>, context: Context): Promise<T> {
-  return fetch({ headers, method: 'GET', url }, context)
+export async function patch<T = any>(url: string, body: any, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+export async function patch<T = any>(url: string, body: any, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<T>
+export async function patch(url: string, body: any, headers: Record<string, string>, context: Context, options: HttpOptions = {}): Promise<any> {
+  return send({ body, headers, method: 'PATCH', url }, context, options)
 }
 
-export async function patch<T = any>(url: string, body: any, headers: Record<string, string>, context: Context): Promise<T> {
-  return fetch({ body, headers, method: 'PATCH', url }, context)
+export async function post<T = any>(url: string, body: any, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+export async function post<T = any>(url: string, body: any, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<T>
+export async function post(url: string, body: any, headers: Record<string, string>, context: Context, options: HttpOptions = {}): Promise<any> {
+  return send({ body, headers, method: 'POST', url }, context, options)
 }
 
-export async function post<T = any>(url: string, body: any, headers: Record<string, string>, context: Context): Promise<T> {
-  return fetch({ body, headers, method: 'POST', url }, context)
+export async function put<T = any>(url: string, body: any, headers: Record<string, string>, context: Context, options: HttpOptions & { response: true }): Promise<HttpResponse<T>>
+export async function put<T = any>(url: string, body: any, headers: Record<string, string>, context: Context, options?: HttpOptions): Promise<T>
+export async function put(url: string, body: any, headers: Record<string, string>, context: Context, options: HttpOptions = {}): Promise<any> {
+  return send({ body, headers, method: 'PUT', url }, context, options)
 }
 
-export async function put<T = any>(url: string, body: any, headers: Record<string, string>, context: Context): Promise<T> {
-  return fetch({ body, headers, method: 'PUT', url }, context)
+/**
+ * Executes an HTTP request and returns the complete response: status, headers
+ * and body. Unlike `fetch`, the status is checked here rather than by the
+ * host: statuses rejected by `request.validateStatus` (by default, anything
+ * outside 2xx) throw an `HttpError`.
+ *
+ * @param request The HTTP request configuration.
+ * @param context The execution context for the request.
+ * @returns A promise that resolves with the HTTP response.
+ * @throws {HttpError} If the response status is not accepted.
+ * @throws Will throw an error if the request fails, or the host cannot return full responses.
+ */
+export async function request<T = any>(request: HttpRequest, context: Context): Promise<HttpResponse<T>> {
+  if (!request.url) {
+    throw new Error('URL is required for HTTP request')
+  }
+
+  failIfUnsupported('action:http/fetch', context)
+
+  const hostRequest = { ...toHostRequest(request), full_response: true }
+
+  const response = await withRetry(request, context, async () => {
+    const hostResponse = await hostExecute<HostHttpResponse>('action:http/fetch', hostRequest, context, {
+      signal: request.signal,
+      timeout: request.timeout,
+    })
+
+    if (!hostResponse.ok) {
+      throw SimpleActionError.fromResponse(hostResponse.error, 'HTTP request failed')
+    }
+
+    if (typeof hostResponse.data?.status !== 'number') {
+      throw new SimpleActionError(UNSUPPORTED_BY_HOST, 'This host does not return full HTTP responses; use http.fetch instead')
+    }
+
+    return toResponse<T>(hostResponse.data, request.url)
+  }, result => result.status)
+
+  if (!(request.validateStatus ?? isSuccess)(response.status)) {
+    throw new HttpError(request.method ?? 'GET', response)
+  }
+
+  return response
 }
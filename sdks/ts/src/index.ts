@@ -1,11 +1,33 @@
 /* eslint-disable perfectionist/sort-imports */
 import './internal/global'
 
-import type { Context, SimpleRequest, SimpleResponse } from './types'
+import type { SimpleClient } from './client'
+import type { Middleware } from './middleware'
+import type { JSONSchema } from './schema'
+import type { BatchCall, BatchingOptions, BinaryResponse, Context, ExecuteOptions, SimpleRequest, SimpleResponse } from './types'
+import type { VerifySignatureOptions } from './webhooks'
+import { capabilities, requireAction, supports } from './capabilities'
+import { client } from './client'
 import * as host from './host'
-
+import * as log from './log'
+import { SimpleActionError } from './errors'
+import { configureMemory, isMemoryDebugEnabled, memoryStats } from './internal/memory'
+import { compose, registeredMiddleware, use } from './middleware'
+import { Router } from './router'
+import { assertValid, ValidationError } from './schema'
+import { verifySignature } from './webhooks'
+
+export type { HostCapabilities } from './capabilities'
+export type { SimpleClient } from './client'
+export * from './errors'
+export type { MemoryOptions, MemoryStats } from './internal/memory'
+export type { Middleware, Next } from './middleware'
+export { Router } from './router'
+export type { RouterOptions } from './router'
+export * from './schema'
 export * from './storage'
 export * from './types'
+export type { HmacScheme, VerifySignatureOptions, WebhookProvider } from './webhooks'
 
 /**
  * Defines the signature for a user's action handler.
@@ -19,7 +41,15 @@ export type Handler<TResult = any> = (request: Request) => Promise<TResult> | TR
 export class Request {
   public readonly context: Context
   public readonly headers: Record<string, any>
+
+  /**
+   * A per-request bag for middleware to share data with downstream middleware
+   * and the handler, e.g. timings or a resolved user profile.
+   */
+  public readonly locals: Record<string, any> = {}
+
   private readonly rawData: string
+  private boundClient?: SimpleClient
 
   constructor(simpleRequest: SimpleRequest) {
     this.context = simpleRequest.context
@@ -27,27 +57,90 @@ export class Request {
     this.rawData = simpleRequest.data ?? ''
   }
 
+  /**
+   * The SDK modules (`ai`, `graphql`, `http`, `log`, `settings`, `storage`)
+   * bound to this request's context, so calls don't need to pass it.
+   */
+  get sdk(): SimpleClient {
+    this.boundClient ??= client(this.context)
+    return this.boundClient
+  }
+
   /** Returns the raw data string from the request. */
   data(): string {
     return this.rawData
   }
 
   /** Parses the request data JSON into a new object. */
-  parse<T>(): T {
+  parse<T>(): T
+  /**
+   * Parses the request data JSON and validates it against a schema.
+   * Throws a `ValidationError` listing every failing JSON path if the payload
+   * does not match, which the handler reports back as its error response.
+   * Missing or malformed JSON is reported the same way, at the `$` path.
+   */
+  parse<T>(schema: JSONSchema): T
+  parse<T>(schema?: JSONSchema): T {
     if (!this.rawData) {
+      if (schema) {
+        throw new ValidationError([{ message: 'is required', path: '$' }])
+      }
       throw new Error('no data to parse')
     }
+
+    let value: unknown
     try {
-      return JSON.parse(this.rawData) as T
+      value = JSON.parse(this.rawData)
     }
     catch (e: any) {
+      if (schema) {
+        throw new ValidationError([{ message: `must be valid JSON (${e.message})`, path: '$' }])
+      }
       throw new Error(`failed to parse data: ${e.message}`)
     }
+
+    return schema ? assertValid<T>(schema, value) : value as T
   }
+
+  /**
+   * Verifies the request's webhook signature against a secret stored in app
+   * settings, using a provider's scheme (`github`, `shopify`, `slack`,
+   * `stripe`) or a custom HMAC scheme. Throws a `SimpleActionError` with the
+   * `INVALID_SIGNATURE` code and status 401 if the signature is missing or
+   * wrong, or its timestamp is outside the tolerance window.
+   */
+  async verifySignature(options: VerifySignatureOptions): Promise<void> {
+    return verifySignature(this.rawData, this.headers, options, this.context)
+  }
+}
+
+function execute<T = any>(actionName: string, params: any, context: Context, options?: ExecuteOptions): SimpleResponse<T> {
+  return host.execute(actionName, params, context, options)
+}
+
+/**
+ * Executes several actions in a single host round trip. In the script worker
+ * this returns a `Promise` of the responses, like `Execute`.
+ */
+function executeBatch(calls: BatchCall[], context: Context, options?: ExecuteOptions): SimpleResponse[] {
+  return host.executeBatch(calls, context, options)
 }
 
-function execute<T = any>(actionName: string, params: any, context: Context): SimpleResponse<T> {
-  return host.execute(actionName, params, context)
+/**
+ * Executes an action with a raw binary request body and returns the raw
+ * response body alongside the JSON response, without base64 round trips. In
+ * the script worker this returns a `Promise`, like `Execute`.
+ */
+function executeBinary<T = any>(actionName: string, params: any, body: Uint8Array, context: Context, options?: ExecuteOptions): BinaryResponse<T> {
+  return host.executeBinary(actionName, params, body, context, options)
+}
+
+/**
+ * Enables or tunes automatic coalescing of concurrent host calls into batches.
+ * Only the script worker (async builds) has concurrent calls to coalesce.
+ */
+function configureBatching(options: BatchingOptions): void {
+  host.configureBatching(options)
 }
 
 // --- Internal Implementations ---
@@ -74,8 +167,18 @@ function executeAsync(actionName: string, params: any, context: Context): void {
  *   inside the script worker (`__IS_WORKER_BUILD__`), it returns the `Promise`
  *   from the user's handler. This is critical for allowing the script worker
  *   to correctly `await` the completion of the user's async logic.
+ *
+ * Any number of middleware may precede the handler. They run after the
+ * middleware registered with `simple.use`, in the order given, in whichever
+ * context ends up invoking the handler.
+ *
+ * @example
+ * simple.Handle(timing, requireUser, async (request) => { ... })
  */
-async function handle(handler: Handler): Promise<any> {
+async function handle(...chain: [...Middleware[], Handler]): Promise<any> {
+  const middleware = [...registeredMiddleware(), ...chain.slice(0, -1) as Middleware[]]
+  const handler = compose(middleware, chain[chain.length - 1] as Handler)
+
   // Context 2: We are inside the unconstrained script worker.
   // This is the highest-priority check.
   if (typeof __IS_WORKER_BUILD__ !== 'undefined' && __IS_WORKER_BUILD__) {
@@ -97,7 +200,11 @@ async function handle(handler: Handler): Promise<any> {
 
     const simpleReq: SimpleRequest = JSON.parse(inputText)
     const request = new Request(simpleReq)
-    const resultPromise = Promise.resolve(handler(request))
+    // Normalize rejections so the worker reports the same structured error
+    // fields as the other execution contexts.
+    const resultPromise = Promise.resolve()
+      .then(() => handler(request))
+      .catch((e: unknown) => Promise.reject(SimpleActionError.from(e)))
 
     if (!(globalThis as any).__SIMPLE_PROMISE_CHANNEL__) {
       throw new Error('CRITICAL: Script worker context is missing the promise channel.')
@@ -114,7 +221,7 @@ async function handle(handler: Handler): Promise<any> {
     const inputText = readInputFromHost()
 
     if (!inputText) {
-      returnError('no input payload provided by the host environment', undefined)
+      returnError(new SimpleActionError('NO_INPUT', 'no input payload provided by the host environment'), undefined)
       return
     }
 
@@ -140,7 +247,7 @@ async function handle(handler: Handler): Promise<any> {
       }, context)
 
       if (!result.ok) {
-        throw new Error(result.error?.message ?? 'Unconstrained script execution failed')
+        throw SimpleActionError.fromResponse(result.error, 'Unconstrained script execution failed')
       }
 
       returnSuccess(result.data, context)
@@ -157,7 +264,7 @@ async function handle(handler: Handler): Promise<any> {
   catch (e: any) {
     // This catch block is ONLY for the non-worker paths.
     // Worker errors are handled by the try/catch in `script.worker.ts`.
-    returnError(e.message, context)
+    returnError(e, context)
   }
 }
 
@@ -179,27 +286,61 @@ function readInputFromHost(): string {
   return new TextDecoder().decode(buffer)
 }
 
-function returnError(message: string, context?: Context): void {
-  const response = { data: null, errors: [message], ok: false }
+/**
+ * In memory debug mode, reports the allocations still outstanding when the
+ * action finishes. Host calls free their own buffers, so anything left here
+ * leaked.
+ */
+function reportMemoryUsage(context: Context): void {
+  if (!isMemoryDebugEnabled()) {
+    return
+  }
+
+  const { allocations, outstanding, outstandingBytes, peakBytes } = memoryStats()
+  const fields = { allocations, outstanding: outstanding.slice(0, 20), outstandingBytes, peakBytes }
+
+  outstanding.length > 0
+    ? log.warn(`${outstanding.length} allocation(s) leaked at __done__`, fields, context)
+    : log.debug('no allocations leaked at __done__', fields, context)
+}
+
+function returnError(e: unknown, context?: Context): void {
+  // `error` carries the full structured error, while `errors` keeps the
+  // message-only shape existing hosts already understand.
+  const error = SimpleActionError.from(e).toJSON()
+  const response = { data: null, error, errors: [error.message], ok: false }
 
   // Provide a minimal, safe context if the original is not available.
   const safeContext = context ?? { logic: { execution_id: 'unknown' } } as Context
+  reportMemoryUsage(safeContext)
   host.executeAsync('__done__', response, safeContext)
 }
 
 function returnSuccess(data: any, context: Context): void {
   // With the async handle function, we no longer need to check for promises here.
   const response = { data, errors: [], ok: true }
+  reportMemoryUsage(context)
   host.executeAsync('__done__', response, context)
 }
 
 // --- The Default Export Object ---
 // This creates the single `simple` object that users will import.
 const simple = {
+  capabilities,
+  client,
+  configureBatching,
+  configureMemory,
   Execute: execute,
   ExecuteAsync: executeAsync,
+  ExecuteBatch: executeBatch,
+  ExecuteBinary: executeBinary,
   Handle: handle,
+  log,
   Request,
+  requireAction,
+  Router,
+  supports,
+  use,
 }
 
 export default simple
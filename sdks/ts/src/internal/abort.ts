@@ -0,0 +1,195 @@
+/**
+ * @file Provides polyfills for `AbortController` and `AbortSignal`, following
+ * the DOM Standard.
+ *
+ * QuickJS has no `EventTarget`, so `AbortSignal` carries the small subset of it
+ * that abort listeners use: `addEventListener`, `removeEventListener`,
+ * `dispatchEvent` and the `onabort` handler.
+ */
+
+type Listener = ((event: any) => void) | { handleEvent: (event: any) => void }
+
+interface Registration {
+  listener: Listener
+  once: boolean
+}
+
+/** Creates the error used as a default abort reason, matching the native `DOMException` names. */
+function domError(name: 'AbortError' | 'TimeoutError', message: string): Error {
+  const error = new Error(message)
+  error.name = name
+  return error
+}
+
+export class AbortSignal {
+  /** The handler called when the signal aborts, in addition to any listeners. */
+  public onabort: ((event: any) => void) | null = null
+
+  private _aborted = false
+  private _reason: any = undefined
+  private readonly listeners: Registration[] = []
+
+  /** Whether the signal has aborted. */
+  get aborted(): boolean {
+    return this._aborted
+  }
+
+  /** The abort reason, or `undefined` if the signal has not aborted. */
+  get reason(): any {
+    return this._reason
+  }
+
+  /**
+   * Returns a signal that is already aborted.
+   *
+   * @param reason The abort reason. Defaults to an `AbortError`.
+   */
+  static abort(reason?: any): AbortSignal {
+    const signal = new AbortSignal()
+    signal.signalAbort(reason)
+    return signal
+  }
+
+  /**
+   * Returns a signal that aborts as soon as any of the given signals aborts,
+   * with that signal's reason.
+   *
+   * @param signals The signals to follow.
+   */
+  static any(signals: Iterable<AbortSignal>): AbortSignal {
+    const result = new AbortSignal()
+    const list = [...signals]
+
+    const aborted = list.find(signal => signal.aborted)
+    if (aborted) {
+      result.signalAbort(aborted.reason)
+      return result
+    }
+
+    for (const signal of list) {
+      signal.addEventListener('abort', () => result.signalAbort(signal.reason), { once: true })
+    }
+
+    return result
+  }
+
+  /**
+   * Returns a signal that aborts with a `TimeoutError` after `ms` milliseconds.
+   *
+   * @param ms The timeout in milliseconds.
+   */
+  static timeout(ms: number): AbortSignal {
+    const signal = new AbortSignal()
+    setTimeout(() => signal.signalAbort(domError('TimeoutError', 'The operation timed out.')), ms)
+    return signal
+  }
+
+  /**
+   * Registers a listener. Only `abort` events are ever dispatched.
+   *
+   * @param type The event type.
+   * @param listener The listener to register.
+   * @param options `once` removes the listener after it runs.
+   */
+  addEventListener(type: string, listener: Listener | null, options?: boolean | { once?: boolean }): void {
+    if (type !== 'abort' || !listener || this.listeners.some(entry => entry.listener === listener)) {
+      return
+    }
+
+    this.listeners.push({ listener, once: typeof options === 'object' && Boolean(options.once) })
+  }
+
+  /**
+   * Dispatches an event to the matching listeners.
+   *
+   * @param event The event to dispatch.
+   * @param event.type The event type; only `abort` reaches the listeners.
+   * @returns `true`, as abort events cannot be cancelled.
+   */
+  dispatchEvent(event: { type: string }): boolean {
+    if (event.type !== 'abort') {
+      return true
+    }
+
+    for (const registration of [...this.listeners]) {
+      if (!this.listeners.includes(registration)) {
+        continue
+      }
+
+      if (registration.once) {
+        this.removeEventListener('abort', registration.listener)
+      }
+
+      try {
+        typeof registration.listener === 'function'
+          ? registration.listener.call(this, event)
+          : registration.listener.handleEvent(event)
+      }
+      catch (error) {
+        console.error('Uncaught exception in abort listener:', error)
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Removes a listener registered with `addEventListener`.
+   *
+   * @param type The event type.
+   * @param listener The listener to remove.
+   */
+  removeEventListener(type: string, listener: Listener | null): void {
+    const index = this.listeners.findIndex(entry => entry.listener === listener)
+    if (type === 'abort' && index !== -1) {
+      this.listeners.splice(index, 1)
+    }
+  }
+
+  /** Throws the abort reason if the signal has aborted. */
+  throwIfAborted(): void {
+    if (this._aborted) {
+      throw this._reason
+    }
+  }
+
+  /**
+   * Aborts the signal, running `onabort` and then the listeners.
+   * @internal
+   */
+  signalAbort(reason?: any): void {
+    if (this._aborted) {
+      return
+    }
+
+    this._aborted = true
+    this._reason = reason === undefined ? domError('AbortError', 'This operation was aborted') : reason
+
+    const event = { currentTarget: this, target: this, type: 'abort' }
+
+    if (typeof this.onabort === 'function') {
+      try {
+        this.onabort(event)
+      }
+      catch (error) {
+        console.error('Uncaught exception in abort listener:', error)
+      }
+    }
+
+    this.dispatchEvent(event)
+  }
+}
+
+export class AbortController {
+  /** The signal controlled by this controller. */
+  public readonly signal = new AbortSignal()
+
+  /**
+   * Aborts the controller's signal.
+   *
+   * @param reason The abort reason. Defaults to an `AbortError`.
+   */
+  abort(reason?: any): void {
+    this.signal.signalAbort(reason)
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @file Provides polyfills for the `atob` and `btoa` globals, following the
+ * forgiving-base64 algorithms of the WHATWG Infra and HTML standards.
+ *
+ * Like the native functions, both operate on "binary strings": strings whose
+ * code units are all in the range U+0000 to U+00FF, one per byte.
+ */
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/** Maps a character code to its 6-bit value, or -1 if it is not in the alphabet. */
+const LOOKUP = new Int16Array(128).fill(-1)
+for (let i = 0; i < ALPHABET.length; i++) {
+  LOOKUP[ALPHABET.charCodeAt(i)] = i
+}
+
+/** The error thrown for invalid input, matching the native `DOMException` name. */
+function invalidCharacter(message: string): Error {
+  const error = new Error(message)
+  error.name = 'InvalidCharacterError'
+  return error
+}
+
+/**
+ * Decodes a base64 string into a binary string.
+ *
+ * ASCII whitespace is ignored and padding is optional, as in the native `atob`.
+ *
+ * @param data The base64-encoded string.
+ * @returns The decoded binary string.
+ * @throws {Error} `InvalidCharacterError` if the input is not valid base64.
+ */
+export function atob(data: string): string {
+  let input = String(data).replace(/[\t\n\f\r ]/g, '')
+
+  if (input.length % 4 === 0) {
+    input = input.replace(/={1,2}$/, '')
+  }
+
+  if (input.length % 4 === 1 || /[^A-Z0-9+/]/i.test(input)) {
+    throw invalidCharacter('The string to be decoded is not correctly encoded.')
+  }
+
+  let output = ''
+  let buffer = 0
+  let bits = 0
+
+  for (let i = 0; i < input.length; i++) {
+    buffer = (buffer << 6) | LOOKUP[input.charCodeAt(i)]
+    bits += 6
+
+    if (bits >= 8) {
+      bits -= 8
+      output += String.fromCharCode((buffer >> bits) & 0xFF)
+    }
+  }
+
+  return output
+}
+
+/**
+ * Encodes a binary string as base64.
+ *
+ * @param data The binary string to encode.
+ * @returns The base64-encoded string, with padding.
+ * @throws {Error} `InvalidCharacterError` if a character is outside U+0000 to U+00FF.
+ */
+export function btoa(data: string): string {
+  const input = String(data)
+  let output = ''
+
+  for (let i = 0; i < input.length; i += 3) {
+    const a = input.charCodeAt(i)
+    const b = i + 1 < input.length ? input.charCodeAt(i + 1) : 0
+    const c = i + 2 < input.length ? input.charCodeAt(i + 2) : 0
+
+    if (a > 0xFF || b > 0xFF || c > 0xFF) {
+      throw invalidCharacter('The string to be encoded contains characters outside of the Latin1 range.')
+    }
+
+    const triplet = (a << 16) | (b << 8) | c
+    output += ALPHABET[(triplet >> 18) & 0x3F]
+      + ALPHABET[(triplet >> 12) & 0x3F]
+      + (i + 1 < input.length ? ALPHABET[(triplet >> 6) & 0x3F] : '=')
+      + (i + 2 < input.length ? ALPHABET[triplet & 0x3F] : '=')
+  }
+
+  return output
+}
+
+/**
+ * Decodes a base64 string into bytes.
+ *
+ * @param data The base64-encoded string.
+ * @returns The decoded bytes.
+ * @throws {Error} `InvalidCharacterError` if the input is not valid base64.
+ */
+export function decodeBytes(data: string): Uint8Array {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+
+  return bytes
+}
+
+/**
+ * Encodes bytes as base64.
+ *
+ * @param bytes The bytes to encode.
+ * @returns The base64-encoded string, with padding.
+ */
+export function encodeBytes(bytes: Uint8Array): string {
+  let binary = ''
+
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+
+  return btoa(binary)
+}
@@ -0,0 +1,134 @@
+/**
+ * @file Provides a polyfill for `structuredClone`, following the structured
+ * clone algorithm of the HTML Standard for the types a QuickJS runtime has.
+ *
+ * Supported: primitives (including `bigint`), wrapper objects, `Date`,
+ * `RegExp`, `ArrayBuffer`, typed arrays, `DataView`, `Map`, `Set`, arrays,
+ * plain objects and errors. Shared and circular references are preserved.
+ * As with the native function, functions and symbols throw a `DataCloneError`,
+ * and any other object (including class instances) is cloned as a plain object
+ * of its own enumerable properties.
+ */
+
+/** Error constructors that survive a clone, by name. */
+const ERROR_TYPES: Record<string, ErrorConstructor> = {
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+}
+
+function dataCloneError(value: unknown): Error {
+  const error = new Error(`${String(value)} could not be cloned.`)
+  error.name = 'DataCloneError'
+  return error
+}
+
+function cloneValue(value: any, memory: Map<object, any>): any {
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    throw dataCloneError(typeof value === 'symbol' ? value.toString() : value)
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  if (memory.has(value)) {
+    return memory.get(value)
+  }
+
+  const tag = Object.prototype.toString.call(value).slice(8, -1)
+  let clone: any
+
+  switch (tag) {
+    case 'Boolean':
+    case 'Number':
+    case 'String':
+    case 'BigInt':
+      clone = new Object(value.valueOf())
+      break
+    case 'Date':
+      clone = new Date(value.getTime())
+      break
+    case 'RegExp':
+      clone = new RegExp(value.source, value.flags)
+      break
+    case 'ArrayBuffer':
+      clone = value.slice(0)
+      break
+    case 'DataView':
+      clone = new DataView(cloneValue(value.buffer, memory), value.byteOffset, value.byteLength)
+      break
+    case 'Map':
+      clone = new Map()
+      memory.set(value, clone)
+      for (const [key, item] of value) {
+        clone.set(cloneValue(key, memory), cloneValue(item, memory))
+      }
+      return clone
+    case 'Set':
+      clone = new Set()
+      memory.set(value, clone)
+      for (const item of value) {
+        clone.add(cloneValue(item, memory))
+      }
+      return clone
+    case 'Error': {
+      const Ctor = ERROR_TYPES[value.name] ?? Error
+      clone = new Ctor(value.message)
+      memory.set(value, clone)
+
+      if (typeof value.stack === 'string') {
+        clone.stack = value.stack
+      }
+
+      if ('cause' in value) {
+        clone.cause = cloneValue(value.cause, memory)
+      }
+
+      return clone
+    }
+    case 'WeakMap':
+    case 'WeakSet':
+    case 'WeakRef':
+    case 'Promise':
+      throw dataCloneError(`#<${tag}>`)
+    default:
+      if (ArrayBuffer.isView(value)) {
+        const view = value as unknown as { buffer: ArrayBuffer, byteOffset: number, constructor: any, length: number }
+        clone = new view.constructor(cloneValue(view.buffer, memory), view.byteOffset, view.length)
+        break
+      }
+
+      clone = Array.isArray(value) ? Array.from({ length: value.length }) : {}
+      memory.set(value, clone)
+
+      for (const key of Object.keys(value)) {
+        clone[key] = cloneValue(value[key], memory)
+      }
+
+      return clone
+  }
+
+  memory.set(value, clone)
+  return clone
+}
+
+/**
+ * Creates a deep clone of a value using the structured clone algorithm.
+ *
+ * The `transfer` option is accepted for compatibility, but buffers are copied
+ * rather than detached from the original.
+ *
+ * @param value The value to clone.
+ * @param _options Accepted for API compatibility.
+ * @param _options.transfer Transferable objects; they are copied, not moved.
+ * @returns The clone.
+ * @throws {Error} `DataCloneError` if the value contains something that cannot be cloned.
+ */
+export function structuredClone<T>(value: T, _options?: { transfer?: any[] }): T {
+  return cloneValue(value, new Map())
+}
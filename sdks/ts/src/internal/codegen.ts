@@ -0,0 +1,785 @@
+/**
+ * @file Generates TypeScript types from a GraphQL schema and the operations
+ * of a project, for the `simple-sdk codegen` command.
+ *
+ * The schema is read from SDL or from an introspection result, entirely
+ * offline. The generated module contains:
+ *
+ * - a `Scalars` map and a type for every enum, input, interface, union and
+ *   object type (the tables),
+ * - a `<table>_filter` type per table, built from `_eq`/`_in`-style
+ *   comparison operators, unless the schema already names one,
+ * - for every named operation, its result and variables types and a typed
+ *   `<Name>Document` that `graphql.query` and `graphql.mutate` accept, and a
+ *   type for every fragment. Anonymous operations are skipped with a warning.
+ *
+ * A selection on an interface or union becomes a union with one member per
+ * object type, discriminated by `__typename` when the selection includes it.
+ *
+ * It is pure: reading and writing files is left to the command.
+ */
+import type {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  TypeNode,
+  VariableDefinitionNode,
+} from './graphql-parser'
+
+import { GraphQLSyntaxError, parse, parseSchema, print } from './graphql-parser'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A GraphQL file of the project, with executable definitions.
+ */
+export interface CodegenDocument {
+  /** The path of the file, used in error messages. */
+  path: string
+
+  source: string
+}
+
+/**
+ * Options for `generate`.
+ */
+export interface CodegenOptions {
+  /** Receives warnings about definitions that were skipped. Defaults to `console.warn`. */
+  onWarning?: (message: string) => void
+
+  /** TypeScript types for custom scalars, by scalar name. Unlisted ones are `any`. */
+  scalars?: Record<string, string>
+}
+
+type TypeKind = 'ENUM' | 'INPUT_OBJECT' | 'INTERFACE' | 'OBJECT' | 'SCALAR' | 'UNION'
+
+interface InputModel {
+  description?: string
+  hasDefault: boolean
+  name: string
+  type: TypeNode
+}
+
+interface FieldModel {
+  args: InputModel[]
+  description?: string
+  name: string
+  type: TypeNode
+}
+
+interface TypeModel {
+  description?: string
+  enumValues: string[]
+  fields: FieldModel[]
+  inputFields: InputModel[]
+  interfaces: string[]
+  kind: TypeKind
+  name: string
+  possibleTypes: string[]
+}
+
+interface SchemaModel {
+  mutationType?: string
+  queryType?: string
+  subscriptionType?: string
+  types: Map<string, TypeModel>
+}
+
+/** A type reference of an introspection result, e.g. `[String!]`. */
+interface IntrospectionTypeRef {
+  kind: string
+  name?: null | string
+  ofType?: IntrospectionTypeRef | null
+}
+
+/** An argument or input field of an introspection result. */
+interface IntrospectionInputValue {
+  defaultValue?: null | string
+  description?: null | string
+  name: string
+  type: IntrospectionTypeRef
+}
+
+/** A type of an introspection result, with the parts the generator reads. */
+interface IntrospectionType {
+  description?: null | string
+  enumValues?: Array<{ name: string }> | null
+  fields?: Array<{ args?: IntrospectionInputValue[], description?: null | string, name: string, type: IntrospectionTypeRef }> | null
+  inputFields?: IntrospectionInputValue[] | null
+  interfaces?: Array<{ name: string }> | null
+  kind: TypeKind
+  name: string
+  possibleTypes?: Array<{ name: string }> | null
+}
+
+/** The `__schema` object of an introspection result. */
+interface IntrospectionSchema {
+  mutationType?: { name: string } | null
+  queryType?: { name: string } | null
+  subscriptionType?: { name: string } | null
+  types: IntrospectionType[]
+}
+
+/** A field of a generated object type. */
+interface Member {
+  optional: boolean
+  type: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const BUILT_IN_SCALARS: Record<string, string> = {
+  Boolean: 'boolean',
+  Float: 'number',
+  ID: 'string',
+  Int: 'number',
+  String: 'string',
+}
+
+const HEADER = `/* eslint-disable */
+// This file was generated by \`simple-sdk codegen\`. Do not edit it by hand.
+`
+
+const COMPARISON_TYPES = `/** Comparison operators for a column of type \`T\` in a filter. */
+export interface ComparisonFilter<T> {
+  _eq?: T | null
+  _gt?: T
+  _gte?: T
+  _in?: T[]
+  _is_null?: boolean
+  _lt?: T
+  _lte?: T
+  _neq?: T | null
+  _nin?: T[]
+}
+
+/** Comparison operators for a text column in a filter. */
+export interface StringComparisonFilter extends ComparisonFilter<string> {
+  _ilike?: string
+  _like?: string
+  _nilike?: string
+  _nlike?: string
+}`
+
+// ============================================================================
+// Schema Loading
+// ============================================================================
+
+/** @internal */
+function createType(name: string, kind: TypeKind, description?: string): TypeModel {
+  return { description, enumValues: [], fields: [], inputFields: [], interfaces: [], kind, name, possibleTypes: [] }
+}
+
+/** @internal */
+function fromSDL(source: string): SchemaModel {
+  const schema: SchemaModel = { types: new Map() }
+  const kinds = {
+    EnumTypeDefinition: 'ENUM',
+    InputObjectTypeDefinition: 'INPUT_OBJECT',
+    InterfaceTypeDefinition: 'INTERFACE',
+    ObjectTypeDefinition: 'OBJECT',
+    ScalarTypeDefinition: 'SCALAR',
+    UnionTypeDefinition: 'UNION',
+  } as const
+  const inputOf = (node: { defaultValue?: unknown, description?: string, name: { value: string }, type: TypeNode }): InputModel => ({
+    description: node.description,
+    hasDefault: node.defaultValue !== undefined,
+    name: node.name.value,
+    type: node.type,
+  })
+
+  for (const definition of parseSchema(source).definitions) {
+    if (definition.kind === 'DirectiveDefinition') {
+      continue
+    }
+
+    if (definition.kind === 'SchemaDefinition') {
+      for (const { operation, type } of definition.operationTypes) {
+        schema[`${operation}Type`] = type.name.value
+      }
+      continue
+    }
+
+    const name = definition.name.value
+    let type = schema.types.get(name)
+    if (!type) {
+      type = createType(name, kinds[definition.kind], definition.description)
+      schema.types.set(name, type)
+    }
+
+    switch (definition.kind) {
+      case 'EnumTypeDefinition':
+        type.enumValues.push(...definition.values.map(value => value.name.value))
+        break
+      case 'InputObjectTypeDefinition':
+        type.inputFields.push(...definition.fields.map(inputOf))
+        break
+      case 'InterfaceTypeDefinition':
+      case 'ObjectTypeDefinition':
+        type.interfaces.push(...definition.interfaces.map(node => node.name.value))
+        type.fields.push(...definition.fields.map(field => ({
+          args: field.arguments.map(inputOf),
+          description: field.description,
+          name: field.name.value,
+          type: field.type,
+        })))
+        break
+      case 'UnionTypeDefinition':
+        type.possibleTypes.push(...definition.types.map(node => node.name.value))
+        break
+    }
+  }
+
+  schema.queryType ??= schema.types.has('Query') ? 'Query' : undefined
+  schema.mutationType ??= schema.types.has('Mutation') ? 'Mutation' : undefined
+  schema.subscriptionType ??= schema.types.has('Subscription') ? 'Subscription' : undefined
+
+  return schema
+}
+
+/** @internal */
+function typeRefOf(ref: IntrospectionTypeRef | null | undefined): TypeNode {
+  switch (ref?.kind) {
+    case 'NON_NULL': {
+      const type = typeRefOf(ref.ofType)
+      if (type.kind === 'NonNullType') {
+        throw new TypeError('The introspection result contains a non-null type of a non-null type.')
+      }
+      return { kind: 'NonNullType', type }
+    }
+    case 'LIST':
+      return { kind: 'ListType', type: typeRefOf(ref.ofType) }
+    default:
+      if (typeof ref?.name !== 'string') {
+        throw new TypeError('The introspection result contains an incomplete type reference.')
+      }
+      return { kind: 'NamedType', name: { kind: 'Name', value: ref.name } }
+  }
+}
+
+/** @internal */
+function fromIntrospection(source: string): SchemaModel {
+  const json = JSON.parse(source)
+  const introspection: IntrospectionSchema | undefined = json?.data?.__schema ?? json?.__schema
+  if (!introspection || !Array.isArray(introspection.types)) {
+    throw new Error('The schema JSON is not an introspection result: `__schema` is missing.')
+  }
+
+  const inputOf = (value: IntrospectionInputValue): InputModel => ({
+    description: value.description ?? undefined,
+    hasDefault: value.defaultValue !== null && value.defaultValue !== undefined,
+    name: value.name,
+    type: typeRefOf(value.type),
+  })
+  const schema: SchemaModel = {
+    mutationType: introspection.mutationType?.name,
+    queryType: introspection.queryType?.name,
+    subscriptionType: introspection.subscriptionType?.name,
+    types: new Map(),
+  }
+
+  for (const entry of introspection.types) {
+    const type = createType(entry.name, entry.kind, entry.description ?? undefined)
+
+    type.enumValues = (entry.enumValues ?? []).map(value => value.name)
+    type.fields = (entry.fields ?? []).map(field => ({
+      args: (field.args ?? []).map(inputOf),
+      description: field.description ?? undefined,
+      name: field.name,
+      type: typeRefOf(field.type),
+    }))
+    type.inputFields = (entry.inputFields ?? []).map(inputOf)
+    type.interfaces = (entry.interfaces ?? []).map(ref => ref.name)
+    type.possibleTypes = entry.kind === 'UNION' ? (entry.possibleTypes ?? []).map(ref => ref.name) : []
+
+    schema.types.set(type.name, type)
+  }
+
+  return schema
+}
+
+/**
+ * Reads a schema from SDL or from an introspection result (either the
+ * `__schema` object or a full `{ data: { __schema } }` response).
+ * @internal
+ */
+function loadSchema(source: string): SchemaModel {
+  const schema = source.trimStart().startsWith('{') ? fromIntrospection(source) : fromSDL(source)
+
+  for (const name of Object.keys(BUILT_IN_SCALARS)) {
+    if (!schema.types.has(name)) {
+      schema.types.set(name, createType(name, 'SCALAR'))
+    }
+  }
+
+  for (const name of [...schema.types.keys()]) {
+    if (name.startsWith('__')) {
+      schema.types.delete(name)
+    }
+  }
+
+  return schema
+}
+
+// ============================================================================
+// Emitting Helpers
+// ============================================================================
+
+/** @internal */
+function docComment(description: string | undefined, indent = ''): string {
+  if (!description) {
+    return ''
+  }
+
+  const lines = description.replace(/\*\//g, '*\\/').split('\n')
+  return lines.length === 1
+    ? `${indent}/** ${lines[0]} */\n`
+    : `${indent}/**\n${lines.map(line => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`
+}
+
+/** @internal */
+function namedType(type: TypeNode): string {
+  return type.kind === 'NamedType' ? type.name.value : namedType(type.type)
+}
+
+/** @internal */
+function isNullable(type: TypeNode): boolean {
+  return type.kind !== 'NonNullType'
+}
+
+/**
+ * Renders a type reference, rendering its named type with `leaf`.
+ * @internal
+ */
+function renderType(type: TypeNode, leaf: (name: string) => string, nullable = true): string {
+  switch (type.kind) {
+    case 'NonNullType':
+      return renderType(type.type, leaf, false)
+    case 'ListType': {
+      const list = `Array<${renderType(type.type, leaf)}>`
+      return nullable ? `${list} | null` : list
+    }
+    default: {
+      const named = leaf(type.name.value)
+      return nullable ? `${named} | null` : named
+    }
+  }
+}
+
+/** @internal */
+function renderObject(members: Map<string, Member>, indent: string): string {
+  if (members.size === 0) {
+    return '{}'
+  }
+
+  const lines = [...members].map(([key, member]) => `${indent}  ${key}${member.optional ? '?' : ''}: ${member.type}`)
+  return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+/** @internal */
+function templateLiteral(text: string): string {
+  return `\`${text.replace(/[\\`]/g, '\\$&').replace(/\$\{/g, '\\${')}\``
+}
+
+// ============================================================================
+// Generator
+// ============================================================================
+
+/**
+ * Emits the types of one schema and its operations.
+ * @internal
+ */
+class Generator {
+  private readonly fragments = new Map<string, FragmentDefinitionNode>()
+  private readonly paths = new Map<string, string>()
+  private readonly schema: SchemaModel
+  private readonly scalars: Record<string, string>
+  private readonly warn: (message: string) => void
+
+  constructor(schemaSource: string, options: CodegenOptions) {
+    this.schema = loadSchema(schemaSource)
+    this.scalars = { ...BUILT_IN_SCALARS, ...options.scalars }
+    this.warn = options.onWarning ?? console.warn
+  }
+
+  generate(documents: CodegenDocument[]): string {
+    const operations = this.collect(documents)
+    const sections = [HEADER.trimEnd()]
+
+    if (operations.length > 0) {
+      sections.push(`import type { DocumentTypeDecoration } from '@simpleplatform/sdk/graphql'`)
+    }
+
+    sections.push(this.emitScalars(), ...this.emitSchemaTypes(), ...this.emitFilters())
+
+    for (const fragment of this.fragments.values()) {
+      sections.push(this.located(fragment.name.value, () => {
+        const condition = fragment.typeCondition.name.value
+        const type = this.selection(condition, fragment.selectionSet, '')
+
+        // Only an object type renders as an object; the others are unions.
+        return this.schema.types.get(condition)?.kind === 'OBJECT'
+          ? `export interface ${fragment.name.value}Fragment ${type}`
+          : `export type ${fragment.name.value}Fragment = ${type}`
+      }))
+    }
+
+    for (const operation of operations) {
+      sections.push(this.located(operation.name!.value, () => this.emitOperation(operation)))
+    }
+
+    return `${sections.join('\n\n')}\n`
+  }
+
+  // --- Documents ---
+
+  private collect(documents: CodegenDocument[]): OperationDefinitionNode[] {
+    const operations: OperationDefinitionNode[] = []
+    const names = this.paths
+
+    for (const { path, source } of documents) {
+      let document: DocumentNode
+      try {
+        document = parse(source)
+      }
+      catch (error) {
+        throw error instanceof GraphQLSyntaxError ? new Error(`${path}:${error.line}:${error.column}: ${error.message}`) : error
+      }
+
+      for (const definition of document.definitions) {
+        if (definition.kind === 'OperationDefinition' && !definition.name) {
+          this.warn(`${path}: skipped an anonymous ${definition.operation}; name it to generate its types.`)
+          continue
+        }
+
+        const name = definition.name!.value
+
+        if (names.has(name)) {
+          throw new Error(`${path}: "${name}" is already defined in ${names.get(name)}.`)
+        }
+        names.set(name, path)
+
+        if (definition.kind === 'FragmentDefinition') {
+          this.fragments.set(name, definition)
+        }
+        else if (definition.operation === 'subscription') {
+          throw new Error(`${path}: subscription "${name}" is not supported.`)
+        }
+        else {
+          operations.push(definition)
+        }
+      }
+    }
+
+    return operations
+  }
+
+  /** Runs `emit`, prefixing its errors with the path of the definition's file. */
+  private located(name: string, emit: () => string): string {
+    try {
+      return emit()
+    }
+    catch (error) {
+      throw new Error(`${this.paths.get(name)}: ${(error as Error).message}`)
+    }
+  }
+
+  // --- Schema types ---
+
+  private emitScalars(): string {
+    const scalars = [...this.schema.types.values()].filter(type => type.kind === 'SCALAR').map(type => type.name).sort()
+    const lines = scalars.map(name => `  ${name}: ${this.scalars[name] ?? 'any'}`)
+
+    return `/** The TypeScript types of the schema's scalars. */\nexport interface Scalars {\n${lines.join('\n')}\n}`
+  }
+
+  private emitSchemaTypes(): string[] {
+    const roots = new Set([this.schema.mutationType, this.schema.queryType, this.schema.subscriptionType])
+    const sections: string[] = []
+
+    for (const type of [...this.schema.types.values()].sort((a, b) => a.name.localeCompare(b.name))) {
+      const comment = docComment(type.description)
+
+      switch (type.kind) {
+        case 'ENUM':
+          sections.push(`${comment}export type ${type.name} = ${type.enumValues.map(value => `'${value}'`).join(' | ') || 'never'}`)
+          break
+        case 'UNION':
+          sections.push(`${comment}export type ${type.name} = ${type.possibleTypes.join(' | ') || 'never'}`)
+          break
+        case 'INPUT_OBJECT': {
+          const members = new Map(type.inputFields.map(field => [field.name, this.inputMember(field)]))
+          sections.push(`${comment}export interface ${type.name} ${this.documented(renderObject(members, ''), type.inputFields)}`)
+          break
+        }
+        case 'INTERFACE':
+        case 'OBJECT': {
+          if (roots.has(type.name)) {
+            break
+          }
+
+          const members = new Map(type.fields.map(field => [field.name, { optional: false, type: this.outputType(field.type) }]))
+          sections.push(`${comment}export interface ${type.name} ${this.documented(renderObject(members, ''), type.fields)}`)
+          break
+        }
+      }
+    }
+
+    return sections
+  }
+
+  /** Adds the field descriptions to a rendered top-level object type. */
+  private documented(rendered: string, fields: Array<{ description?: string, name: string }>): string {
+    const descriptions = new Map(fields.map(field => [field.name, field.description]))
+
+    return rendered.replace(/^ {2}(\w+)(?=\??: )/gm, (line, name: string) => `${docComment(descriptions.get(name), '  ')}${line}`)
+  }
+
+  private inputMember(input: InputModel): Member {
+    return {
+      optional: isNullable(input.type) || input.hasDefault,
+      type: renderType(input.type, name => this.leaf(name)),
+    }
+  }
+
+  private leaf(name: string): string {
+    return this.schema.types.get(name)?.kind === 'SCALAR' ? `Scalars['${name}']` : name
+  }
+
+  private outputType(type: TypeNode): string {
+    return renderType(type, name => this.leaf(name))
+  }
+
+  // --- Filters ---
+
+  /** The tables: object types that the query root returns as lists. */
+  private tables(): string[] {
+    const root = this.schema.queryType ? this.schema.types.get(this.schema.queryType) : undefined
+    const tables = new Set<string>()
+
+    for (const field of root?.fields ?? []) {
+      const unwrapped = field.type.kind === 'NonNullType' ? field.type.type : field.type
+      const name = namedType(field.type)
+      if (unwrapped.kind === 'ListType' && this.schema.types.get(name)?.kind === 'OBJECT') {
+        tables.add(name)
+      }
+    }
+
+    return [...tables].sort()
+  }
+
+  private emitFilters(): string[] {
+    const tables = this.tables()
+    const filters = new Map(tables.map(table => [table, `${table}_filter`]))
+    for (const [table, filter] of filters) {
+      if (this.schema.types.has(filter)) {
+        filters.delete(table)
+      }
+    }
+
+    if (filters.size === 0) {
+      return []
+    }
+
+    const sections = [COMPARISON_TYPES]
+
+    for (const [table, filter] of filters) {
+      const members = new Map<string, Member>([
+        ['_and', { optional: true, type: `${filter}[]` }],
+        ['_not', { optional: true, type: filter }],
+        ['_or', { optional: true, type: `${filter}[]` }],
+      ])
+
+      for (const field of this.schema.types.get(table)!.fields) {
+        const name = namedType(field.type)
+        const kind = this.schema.types.get(name)?.kind
+        const isList = (field.type.kind === 'NonNullType' ? field.type.type : field.type).kind === 'ListType'
+
+        if (filters.has(name)) {
+          members.set(field.name, { optional: true, type: filters.get(name)! })
+        }
+        else if (!isList && (kind === 'SCALAR' || kind === 'ENUM')) {
+          const type = name === 'String' ? 'StringComparisonFilter' : `ComparisonFilter<${this.leaf(name)}>`
+          members.set(field.name, { optional: true, type })
+        }
+      }
+
+      sections.push(`/** Filters \`${table}\` rows with comparison operators. */\nexport interface ${filter} ${renderObject(members, '')}`)
+    }
+
+    return sections
+  }
+
+  // --- Operations ---
+
+  private emitOperation(operation: OperationDefinitionNode): string {
+    const suffix = operation.operation === 'mutation' ? 'Mutation' : 'Query'
+    const name = operation.name!.value
+    const typeName = name.endsWith(suffix) ? name : `${name}${suffix}`
+    const root = operation.operation === 'mutation' ? this.schema.mutationType : this.schema.queryType
+
+    if (!root) {
+      throw new Error(`The schema has no ${operation.operation} type, which "${name}" needs.`)
+    }
+
+    const variables = this.variables(operation.variableDefinitions ?? [])
+    const document = print({ definitions: [operation, ...this.usedFragments(operation.selectionSet)], kind: 'Document' })
+
+    return [
+      `export interface ${typeName}Variables ${variables}`,
+      `export interface ${typeName} ${this.selection(root, operation.selectionSet, '')}`,
+      `export const ${name}Document = ${templateLiteral(document)} as string & DocumentTypeDecoration<${typeName}, ${typeName}Variables>`,
+    ].join('\n\n')
+  }
+
+  private variables(definitions: ReadonlyArray<VariableDefinitionNode>): string {
+    const members = new Map(definitions.map(definition => [definition.variable.name.value, this.inputMember({
+      hasDefault: definition.defaultValue !== undefined,
+      name: definition.variable.name.value,
+      type: definition.type,
+    })]))
+
+    return renderObject(members, '')
+  }
+
+  /** The fragments a selection set spreads, directly or through other fragments, in order. */
+  private usedFragments(selectionSet: SelectionSetNode, used = new Map<string, FragmentDefinitionNode>()): FragmentDefinitionNode[] {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === 'FragmentSpread') {
+        const fragment = this.fragments.get(selection.name.value)
+        if (!fragment) {
+          throw new Error(`Unknown fragment "${selection.name.value}".`)
+        }
+        if (!used.has(fragment.name.value)) {
+          used.set(fragment.name.value, fragment)
+          this.usedFragments(fragment.selectionSet, used)
+        }
+      }
+      else if (selection.selectionSet) {
+        this.usedFragments(selection.selectionSet, used)
+      }
+    }
+
+    return [...used.values()]
+  }
+
+  /** Whether a fragment on `condition` applies to a value of the object type `parent`. */
+  private applies(condition: string | undefined, parent: TypeModel): boolean {
+    if (condition === undefined || condition === parent.name) {
+      return true
+    }
+
+    return parent.interfaces.includes(condition) || !!this.schema.types.get(condition)?.possibleTypes.includes(parent.name)
+  }
+
+  /**
+   * Renders the result type of a selection set on the type named `parentName`.
+   * On an interface or union, that is a union of the selection's type on each
+   * of its object types, with identical members merged.
+   */
+  private selection(parentName: string, selectionSet: SelectionSetNode, indent: string): string {
+    const parent = this.schema.types.get(parentName)
+    if (!parent) {
+      throw new Error(`Unknown type "${parentName}".`)
+    }
+
+    if (parent.kind !== 'OBJECT') {
+      const variants = new Set(this.implementations(parent).map(name => this.selection(name, selectionSet, indent)))
+      return [...variants].join(' | ') || 'never'
+    }
+
+    const members = new Map<string, Member>()
+    this.collectMembers(parent, selectionSet, false, indent, members)
+
+    return renderObject(members, indent)
+  }
+
+  private collectMembers(parent: TypeModel, selectionSet: SelectionSetNode, optional: boolean, indent: string, members: Map<string, Member>): void {
+    for (const selection of selectionSet.selections) {
+      const conditional = optional || !!selection.directives?.some(directive => ['include', 'skip'].includes(directive.name.value))
+
+      if (selection.kind === 'Field') {
+        const key = selection.alias?.value ?? selection.name.value
+        const member = { optional: conditional, type: this.fieldType(parent, selection, indent) }
+        const existing = members.get(key)
+        if (!existing || (existing.optional && !member.optional)) {
+          members.set(key, member)
+        }
+        continue
+      }
+
+      const fragment = selection.kind === 'FragmentSpread' ? this.fragments.get(selection.name.value) : selection
+      if (!fragment) {
+        throw new Error(`Unknown fragment "${(selection as { name: { value: string } }).name.value}".`)
+      }
+
+      const condition = fragment.typeCondition?.name.value
+      if (condition !== undefined && !this.schema.types.has(condition)) {
+        throw new Error(`Unknown type "${condition}".`)
+      }
+
+      // The parent is always an object type, so a fragment either applies to
+      // every value of it or to none.
+      if (this.applies(condition, parent)) {
+        this.collectMembers(parent, fragment.selectionSet, conditional, indent, members)
+      }
+    }
+  }
+
+  private fieldType(parent: TypeModel, field: FieldNode, indent: string): string {
+    if (field.name.value === '__typename') {
+      return `'${parent.name}'`
+    }
+
+    const definition = parent.fields.find(candidate => candidate.name === field.name.value)
+    if (!definition) {
+      throw new Error(`Cannot query field "${field.name.value}" on type "${parent.name}".`)
+    }
+
+    return renderType(definition.type, (name) => {
+      const kind = this.schema.types.get(name)?.kind
+      if (kind === 'OBJECT' || kind === 'INTERFACE' || kind === 'UNION') {
+        if (!field.selectionSet) {
+          throw new Error(`Field "${field.name.value}" of type "${name}" must have a selection of subfields.`)
+        }
+        return this.selection(name, field.selectionSet, `${indent}  `)
+      }
+      return this.leaf(name)
+    })
+  }
+
+  /** The object types of an interface or union. */
+  private implementations(type: TypeModel): string[] {
+    if (type.kind === 'UNION') {
+      return type.possibleTypes
+    }
+
+    return [...this.schema.types.values()]
+      .filter(candidate => candidate.kind === 'OBJECT' && candidate.interfaces.includes(type.name))
+      .map(candidate => candidate.name)
+  }
+}
+
+// ============================================================================
+// Public Functions
+// ============================================================================
+
+/**
+ * Generates the TypeScript module for a schema and the project's operations.
+ *
+ * @param schema The schema, as SDL or as introspection JSON.
+ * @param documents The project's GraphQL files with operations and fragments.
+ * @param options Types for custom scalars, and where warnings go.
+ * @returns The source of the generated module.
+ * @throws Will throw an error if the schema or a document cannot be read, or
+ * an operation selects a field that the schema does not define.
+ */
+export function generate(schema: string, documents: CodegenDocument[] = [], options: CodegenOptions = {}): string {
+  return new Generator(schema, options).generate(documents)
+}
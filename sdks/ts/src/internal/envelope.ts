@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Binary Envelope Codec
+ *
+ * Binary host calls (`__host.callBinary`) return a single byte buffer that
+ * carries both the JSON `SimpleResponse` and a raw response body. The layout is:
+ *
+ * ```
+ * +----------------------+----------------------+------------------+
+ * | u32 LE: JSON length  | JSON response (UTF-8)| raw body bytes   |
+ * +----------------------+----------------------+------------------+
+ * ```
+ *
+ * Both sides of the boundary share this codec, so it has no dependencies on
+ * the memory bridge itself.
+ */
+
+import type { BinaryResponse } from '../types'
+
+/** Size in bytes of the length prefix. */
+const HEADER_SIZE = 4
+
+/**
+ * Splits a binary envelope into its JSON response and raw body.
+ *
+ * @param bytes - The complete envelope
+ * @returns The parsed response and a view of the body bytes
+ * @throws If the envelope is truncated
+ */
+export function decodeEnvelope<T = any>(bytes: Uint8Array): BinaryResponse<T> {
+  if (bytes.length < HEADER_SIZE) {
+    throw new Error(`binary envelope is truncated: ${bytes.length} bytes`)
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const jsonLength = view.getUint32(0, true)
+  const bodyStart = HEADER_SIZE + jsonLength
+
+  if (bodyStart > bytes.length) {
+    throw new Error(`binary envelope is truncated: expected ${bodyStart} bytes of header and JSON, got ${bytes.length}`)
+  }
+
+  return {
+    body: bytes.subarray(bodyStart),
+    response: JSON.parse(new TextDecoder().decode(bytes.subarray(HEADER_SIZE, bodyStart))),
+  }
+}
+
+/**
+ * Packs a JSON response and a raw body into a binary envelope.
+ *
+ * @param response - The JSON-serializable response
+ * @param body - The raw body bytes
+ * @returns The complete envelope
+ */
+export function encodeEnvelope(response: unknown, body: Uint8Array = new Uint8Array(0)): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(response))
+  const bytes = new Uint8Array(HEADER_SIZE + json.length + body.length)
+
+  new DataView(bytes.buffer).setUint32(0, json.length, true)
+  bytes.set(json, HEADER_SIZE)
+  bytes.set(body, HEADER_SIZE + json.length)
+
+  return bytes
+}
@@ -5,27 +5,106 @@
  *
  * This ensures that all other modules within the SDK can reliably use standard
  * APIs like `TextEncoder` and `TextDecoder` as if they were in a browser,
- * making the SDK portable and self-sufficient.
+ * making the SDK portable and self-sufficient. The same goes for user code: a
+ * handler can rely on `URL`, `URLSearchParams`, `atob`/`btoa`,
+ * `structuredClone`, `AbortController`/`AbortSignal`, `queueMicrotask` and the
+ * `setTimeout` family on every build target.
  */
 
+/**
+ * Probes the native codecs for the parts of the Encoding Standard the SDK
+ * relies on, so that a partial implementation is replaced instead of trusted.
+ */
+function hasCompliantCodecs(): boolean {
+  if (typeof globalThis.TextEncoder === 'undefined' || typeof globalThis.TextDecoder === 'undefined') {
+    return false
+  }
+
+  try {
+    if (typeof new globalThis.TextEncoder().encodeInto !== 'function') {
+      return false
+    }
+
+    // A leading BOM must be stripped, and an overlong sequence must decode to
+    // U+FFFD (and throw in fatal mode).
+    if (new globalThis.TextDecoder().decode(new Uint8Array([0xEF, 0xBB, 0xBF, 0xC0, 0x80])) !== '\uFFFD\uFFFD') {
+      return false
+    }
+  }
+  catch {
+    return false
+  }
+
+  try {
+    new globalThis.TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array([0xC0, 0x80]))
+    return false
+  }
+  catch {
+    return true
+  }
+}
+
+/** Whether the `setTimeout` family was installed from `./timers`. */
+let pollingTimers = false
+
+/**
+ * Installs a group of related globals from a polyfill module unless all of them
+ * already exist. A group is always installed together, so that e.g. `URL` and
+ * `URLSearchParams` come from the same implementation.
+ *
+ * @returns Whether the group was installed.
+ */
+function install(names: string[], load: () => Record<string, any>): boolean {
+  const g = globalThis as any
+  if (names.every(name => typeof g[name] !== 'undefined')) {
+    return false
+  }
+
+  const polyfills = load()
+  for (const name of names) {
+    g[name] = polyfills[name]
+  }
+
+  return true
+}
+
 // We need polyfills in ANY environment that is not the dedicated script worker.
 // The script worker is a modern browser environment with these APIs built-in.
 // The Javy/QuickJS environment inside the main WASM module, however, is minimal
 // and needs them for host communication.
 if (typeof __IS_WORKER_BUILD__ === 'undefined' || !__IS_WORKER_BUILD__) {
-  // Use `require` to ensure the import is contained within the conditional
-  // block, making it easy for the bundler to tree-shake.
-  // eslint-disable-next-line ts/no-require-imports
-  const { TextDecoder: PolyfillDecoder, TextEncoder: PolyfillEncoder } = require('./polyfills')
-
-  // Check if TextEncoder is not available on the global object.
-  if (typeof globalThis.TextEncoder === 'undefined') {
-    // If it's missing, we attach our robust polyfill to the global scope.
-    globalThis.TextEncoder = PolyfillEncoder
-  }
+  // Only load the polyfills when the native codecs are missing or non-compliant.
+  // Runtimes that ship compliant ones (e.g. Node, when running handlers under
+  // the `testing` harness) never need to evaluate the polyfill module at all.
+  if (!hasCompliantCodecs()) {
+    // Use `require` to ensure the import is contained within the conditional
+    // block, making it easy for the bundler to tree-shake.
+    // eslint-disable-next-line ts/no-require-imports
+    const { TextDecoder: PolyfillDecoder, TextEncoder: PolyfillEncoder } = require('./polyfills')
 
-  // Do the same for TextDecoder.
-  if (typeof globalThis.TextDecoder === 'undefined') {
+    // Replace both codecs together, so encoding and decoding always follow the
+    // same implementation.
+    globalThis.TextEncoder = PolyfillEncoder
     globalThis.TextDecoder = PolyfillDecoder
   }
+
+  // The web platform APIs the script worker has natively. Like the codecs above,
+  // each module is only evaluated when the runtime lacks what it provides.
+  /* eslint-disable ts/no-require-imports */
+  install(['queueMicrotask'], () => require('./timers'))
+  pollingTimers = install(['clearInterval', 'clearTimeout', 'setInterval', 'setTimeout'], () => require('./timers'))
+  install(['AbortController', 'AbortSignal'], () => require('./abort'))
+  install(['atob', 'btoa'], () => require('./base64'))
+  install(['structuredClone'], () => require('./clone'))
+  install(['URL', 'URLSearchParams'], () => require('./url'))
+  /* eslint-enable ts/no-require-imports */
+}
+
+/**
+ * Whether the `setTimeout` family is the polyfill from `./timers`. Its timers
+ * poll the clock, so every wait keeps the CPU busy; callers that wait on
+ * purpose, such as retry backoff, keep their delays short when it is.
+ */
+export function hasPollingTimers(): boolean {
+  return pollingTimers
 }
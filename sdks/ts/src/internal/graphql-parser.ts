@@ -0,0 +1,1201 @@
+/**
+ * @file Implements a GraphQL lexer and parser for executable documents and
+ * schema definitions (SDL), following the GraphQL specification (October 2021).
+ *
+ * For executable documents, the parser produces the same AST shape as the
+ * reference implementation (`graphql-js`), so documents produced by standard
+ * tooling and documents parsed here are interchangeable, and `print` turns
+ * either back into the text `graphql-js` prints. It is deliberately small: it
+ * does not validate documents against a schema, which the host does.
+ *
+ * The supported subset differs from `graphql-js` in a few deliberate ways:
+ * - `parse` accepts executable definitions only, and rejects type system
+ *   definitions and extensions (and their descriptions) with a syntax error,
+ *   where `graphql-js` accepts both kinds in one document. `parseSchema`
+ *   accepts type system definitions only.
+ * - Type system ASTs are simplified for codegen: descriptions are plain
+ *   strings, and extensions reuse the definition kinds with `extension` set.
+ *   `print` does not print them.
+ * - Nodes carry no locations, and `print` escapes regular strings as JSON
+ *   does, which reads back to the same value.
+ *
+ * `test/graphql-parser.test.ts` checks the parser and printer against
+ * `graphql-js`.
+ */
+import { GRAPHQL_SYNTAX_ERROR, SimpleActionError } from '../errors'
+
+// ============================================================================
+// AST Types
+// ============================================================================
+
+export interface NameNode { kind: 'Name', value: string }
+
+export interface DocumentNode {
+  definitions: ReadonlyArray<DefinitionNode>
+  kind: 'Document'
+  loc?: { end: number, source?: { body: string }, start: number }
+}
+
+export type DefinitionNode = FragmentDefinitionNode | OperationDefinitionNode
+
+export type OperationTypeNode = 'mutation' | 'query' | 'subscription'
+
+export interface OperationDefinitionNode {
+  directives?: ReadonlyArray<DirectiveNode>
+  kind: 'OperationDefinition'
+  name?: NameNode
+  operation: OperationTypeNode
+  selectionSet: SelectionSetNode
+  variableDefinitions?: ReadonlyArray<VariableDefinitionNode>
+}
+
+export interface FragmentDefinitionNode {
+  directives?: ReadonlyArray<DirectiveNode>
+  kind: 'FragmentDefinition'
+  name: NameNode
+  selectionSet: SelectionSetNode
+  typeCondition: NamedTypeNode
+}
+
+export interface VariableDefinitionNode {
+  defaultValue?: ValueNode
+  directives?: ReadonlyArray<DirectiveNode>
+  kind: 'VariableDefinition'
+  type: TypeNode
+  variable: VariableNode
+}
+
+export interface VariableNode { kind: 'Variable', name: NameNode }
+
+export interface SelectionSetNode { kind: 'SelectionSet', selections: ReadonlyArray<SelectionNode> }
+
+export type SelectionNode = FieldNode | FragmentSpreadNode | InlineFragmentNode
+
+export interface FieldNode {
+  alias?: NameNode
+  arguments?: ReadonlyArray<ArgumentNode>
+  directives?: ReadonlyArray<DirectiveNode>
+  kind: 'Field'
+  name: NameNode
+  selectionSet?: SelectionSetNode
+}
+
+export interface ArgumentNode { kind: 'Argument', name: NameNode, value: ValueNode }
+
+export interface FragmentSpreadNode { directives?: ReadonlyArray<DirectiveNode>, kind: 'FragmentSpread', name: NameNode }
+
+export interface InlineFragmentNode {
+  directives?: ReadonlyArray<DirectiveNode>
+  kind: 'InlineFragment'
+  selectionSet: SelectionSetNode
+  typeCondition?: NamedTypeNode
+}
+
+export type ValueNode
+  = | BooleanValueNode
+    | EnumValueNode
+    | FloatValueNode
+    | IntValueNode
+    | ListValueNode
+    | NullValueNode
+    | ObjectValueNode
+    | StringValueNode
+    | VariableNode
+
+export interface IntValueNode { kind: 'IntValue', value: string }
+export interface FloatValueNode { kind: 'FloatValue', value: string }
+export interface StringValueNode { block?: boolean, kind: 'StringValue', value: string }
+export interface BooleanValueNode { kind: 'BooleanValue', value: boolean }
+export interface NullValueNode { kind: 'NullValue' }
+export interface EnumValueNode { kind: 'EnumValue', value: string }
+export interface ListValueNode { kind: 'ListValue', values: ReadonlyArray<ValueNode> }
+export interface ObjectValueNode { fields: ReadonlyArray<ObjectFieldNode>, kind: 'ObjectValue' }
+export interface ObjectFieldNode { kind: 'ObjectField', name: NameNode, value: ValueNode }
+
+export interface DirectiveNode { arguments?: ReadonlyArray<ArgumentNode>, kind: 'Directive', name: NameNode }
+
+export type TypeNode = ListTypeNode | NamedTypeNode | NonNullTypeNode
+
+export interface NamedTypeNode { kind: 'NamedType', name: NameNode }
+export interface ListTypeNode { kind: 'ListType', type: TypeNode }
+export interface NonNullTypeNode { kind: 'NonNullType', type: ListTypeNode | NamedTypeNode }
+
+// --- Type system ---
+
+export interface SchemaDocumentNode {
+  definitions: ReadonlyArray<TypeSystemDefinitionNode>
+  kind: 'Document'
+}
+
+export type TypeSystemDefinitionNode
+  = | DirectiveDefinitionNode
+    | EnumTypeDefinitionNode
+    | InputObjectTypeDefinitionNode
+    | InterfaceTypeDefinitionNode
+    | ObjectTypeDefinitionNode
+    | ScalarTypeDefinitionNode
+    | SchemaDefinitionNode
+    | UnionTypeDefinitionNode
+
+/**
+ * The fields shared by type definitions. Extensions (`extend type ...`) use
+ * the same shape, with `extension` set.
+ */
+interface TypeDefinitionBase {
+  description?: string
+  directives?: ReadonlyArray<DirectiveNode>
+  extension?: boolean
+  name: NameNode
+}
+
+export interface SchemaDefinitionNode {
+  description?: string
+  directives?: ReadonlyArray<DirectiveNode>
+  extension?: boolean
+  kind: 'SchemaDefinition'
+  operationTypes: ReadonlyArray<OperationTypeDefinitionNode>
+}
+
+export interface OperationTypeDefinitionNode { kind: 'OperationTypeDefinition', operation: OperationTypeNode, type: NamedTypeNode }
+
+export interface ScalarTypeDefinitionNode extends TypeDefinitionBase { kind: 'ScalarTypeDefinition' }
+
+export interface ObjectTypeDefinitionNode extends TypeDefinitionBase {
+  fields: ReadonlyArray<FieldDefinitionNode>
+  interfaces: ReadonlyArray<NamedTypeNode>
+  kind: 'ObjectTypeDefinition'
+}
+
+export interface InterfaceTypeDefinitionNode extends TypeDefinitionBase {
+  fields: ReadonlyArray<FieldDefinitionNode>
+  interfaces: ReadonlyArray<NamedTypeNode>
+  kind: 'InterfaceTypeDefinition'
+}
+
+export interface FieldDefinitionNode {
+  arguments: ReadonlyArray<InputValueDefinitionNode>
+  description?: string
+  directives?: ReadonlyArray<DirectiveNode>
+  kind: 'FieldDefinition'
+  name: NameNode
+  type: TypeNode
+}
+
+export interface InputValueDefinitionNode {
+  defaultValue?: ValueNode
+  description?: string
+  directives?: ReadonlyArray<DirectiveNode>
+  kind: 'InputValueDefinition'
+  name: NameNode
+  type: TypeNode
+}
+
+export interface UnionTypeDefinitionNode extends TypeDefinitionBase {
+  kind: 'UnionTypeDefinition'
+  types: ReadonlyArray<NamedTypeNode>
+}
+
+export interface EnumTypeDefinitionNode extends TypeDefinitionBase {
+  kind: 'EnumTypeDefinition'
+  values: ReadonlyArray<EnumValueDefinitionNode>
+}
+
+export interface EnumValueDefinitionNode {
+  description?: string
+  directives?: ReadonlyArray<DirectiveNode>
+  kind: 'EnumValueDefinition'
+  name: NameNode
+}
+
+export interface InputObjectTypeDefinitionNode extends TypeDefinitionBase {
+  fields: ReadonlyArray<InputValueDefinitionNode>
+  kind: 'InputObjectTypeDefinition'
+}
+
+export interface DirectiveDefinitionNode {
+  arguments: ReadonlyArray<InputValueDefinitionNode>
+  description?: string
+  kind: 'DirectiveDefinition'
+  locations: ReadonlyArray<NameNode>
+  name: NameNode
+  repeatable: boolean
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * A GraphQL syntax error. It carries the `GRAPHQL_SYNTAX_ERROR` code, status
+ * 400 and the 1-based `line` and `column` where the error occurred, which are
+ * also included in `details`.
+ */
+export class GraphQLSyntaxError extends SimpleActionError {
+  public readonly column: number
+  public readonly line: number
+
+  constructor(source: string, position: number, description: string) {
+    const { column, line } = locate(source, position)
+    super(GRAPHQL_SYNTAX_ERROR, `Syntax Error: ${description} (line ${line}, column ${column})`, {
+      details: { column, line },
+      reasons: [description],
+      status: 400,
+    })
+    this.name = 'GraphQLSyntaxError'
+    this.column = column
+    this.line = line
+  }
+}
+
+/** @internal */
+function locate(source: string, position: number): { column: number, line: number } {
+  let line = 1
+  let lineStart = 0
+
+  for (const match of source.slice(0, position).matchAll(/\r\n|[\n\r]/g)) {
+    line++
+    lineStart = match.index! + match[0].length
+  }
+
+  return { column: position - lineStart + 1, line }
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type TokenKind
+  = | '!' | '$' | '&' | '(' | ')' | '...' | ':' | '=' | '@' | '[' | ']' | '{' | '|' | '}'
+    | '<EOF>'
+    | 'BlockString'
+    | 'Float'
+    | 'Int'
+    | 'Name'
+    | 'String'
+
+interface Token {
+  end: number
+  kind: TokenKind
+  start: number
+  value: string
+}
+
+const PUNCTUATORS = new Set('!$&()[]{}:=@|')
+
+/** The keywords that start a type definition or extension in a schema. */
+const TYPE_SYSTEM_KEYWORDS = new Set(['enum', 'input', 'interface', 'scalar', 'schema', 'type', 'union'])
+
+/** @internal */
+function isNameStart(code: number): boolean {
+  return (code >= 0x41 && code <= 0x5A) || (code >= 0x61 && code <= 0x7A) || code === 0x5F
+}
+
+/** @internal */
+function isDigit(code: number): boolean {
+  return code >= 0x30 && code <= 0x39
+}
+
+/**
+ * Splits a GraphQL document into tokens, skipping ignored tokens (whitespace,
+ * commas, line terminators, comments and the byte order mark).
+ * @internal
+ */
+class Lexer {
+  private position = 0
+
+  constructor(private readonly source: string) {}
+
+  next(): Token {
+    const { source } = this
+    this.skipIgnored()
+
+    const start = this.position
+    if (start >= source.length) {
+      return { end: start, kind: '<EOF>', start, value: '' }
+    }
+
+    const char = source[start]
+    const code = source.charCodeAt(start)
+
+    if (PUNCTUATORS.has(char)) {
+      this.position++
+      return { end: this.position, kind: char as TokenKind, start, value: char }
+    }
+
+    if (char === '.') {
+      if (source.startsWith('...', start)) {
+        this.position += 3
+        return { end: this.position, kind: '...', start, value: '...' }
+      }
+      throw this.error(start, 'Unexpected ".", did you mean "..."?')
+    }
+
+    if (isNameStart(code)) {
+      let end = start + 1
+      while (end < source.length && (isNameStart(source.charCodeAt(end)) || isDigit(source.charCodeAt(end)))) {
+        end++
+      }
+      this.position = end
+      return { end, kind: 'Name', start, value: source.slice(start, end) }
+    }
+
+    if (isDigit(code) || char === '-') {
+      return this.readNumber(start)
+    }
+
+    if (char === '"') {
+      return source.startsWith('"""', start) ? this.readBlockString(start) : this.readString(start)
+    }
+
+    throw this.error(start, `Unexpected character ${describeChar(source, start)}`)
+  }
+
+  private error(position: number, description: string): GraphQLSyntaxError {
+    return new GraphQLSyntaxError(this.source, position, description)
+  }
+
+  private readBlockString(start: number): Token {
+    const { source } = this
+    let position = start + 3
+    let raw = ''
+    let chunkStart = position
+
+    while (position < source.length) {
+      if (source.startsWith('"""', position)) {
+        raw += source.slice(chunkStart, position)
+        this.position = position + 3
+        return { end: this.position, kind: 'BlockString', start, value: blockStringValue(raw) }
+      }
+
+      if (source.startsWith('\\"""', position)) {
+        raw += `${source.slice(chunkStart, position)}"""`
+        position += 4
+        chunkStart = position
+        continue
+      }
+
+      position++
+    }
+
+    throw this.error(position, 'Unterminated string.')
+  }
+
+  private readDigits(position: number): number {
+    const { source } = this
+    if (!isDigit(source.charCodeAt(position))) {
+      throw this.error(position, `Invalid number, expected digit but got: ${describeChar(source, position)}`)
+    }
+
+    while (isDigit(source.charCodeAt(position))) {
+      position++
+    }
+    return position
+  }
+
+  private readNumber(start: number): Token {
+    const { source } = this
+    let position = start
+    let isFloat = false
+
+    if (source[position] === '-') {
+      position++
+    }
+
+    if (source[position] === '0') {
+      position++
+      if (isDigit(source.charCodeAt(position))) {
+        throw this.error(position, `Invalid number, unexpected digit after 0: ${describeChar(source, position)}`)
+      }
+    }
+    else {
+      position = this.readDigits(position)
+    }
+
+    if (source[position] === '.') {
+      isFloat = true
+      position = this.readDigits(position + 1)
+    }
+
+    if (source[position] === 'e' || source[position] === 'E') {
+      isFloat = true
+      position++
+      if (source[position] === '+' || source[position] === '-') {
+        position++
+      }
+      position = this.readDigits(position)
+    }
+
+    // A number must not be immediately followed by a name start or a dot.
+    if (source[position] === '.' || isNameStart(source.charCodeAt(position))) {
+      throw this.error(position, `Invalid number, expected digit but got: ${describeChar(source, position)}`)
+    }
+
+    this.position = position
+    return { end: position, kind: isFloat ? 'Float' : 'Int', start, value: source.slice(start, position) }
+  }
+
+  private readString(start: number): Token {
+    const { source } = this
+    let position = start + 1
+    let value = ''
+
+    while (position < source.length) {
+      const char = source[position]
+
+      if (char === '"') {
+        this.position = position + 1
+        return { end: this.position, kind: 'String', start, value }
+      }
+
+      if (char === '\n' || char === '\r') {
+        break
+      }
+
+      if (char !== '\\') {
+        value += char
+        position++
+        continue
+      }
+
+      const escape = source[position + 1]
+      const simple: Record<string, string> = { '"': '"', '/': '/', '\\': '\\', 'b': '\b', 'f': '\f', 'n': '\n', 'r': '\r', 't': '\t' }
+
+      if (escape in simple) {
+        value += simple[escape]
+        position += 2
+      }
+      else if (escape === 'u') {
+        const [codePoint, length] = this.readUnicodeEscape(position)
+        value += String.fromCodePoint(codePoint)
+        position += length
+      }
+      else {
+        throw this.error(position, `Invalid character escape sequence: "${source.slice(position, position + 2)}".`)
+      }
+    }
+
+    throw this.error(position, 'Unterminated string.')
+  }
+
+  /** Reads `\uXXXX`, `\u{X...}` or a `\uXXXX\uXXXX` surrogate pair; returns the code point and length. */
+  private readUnicodeEscape(position: number): [number, number] {
+    const { source } = this
+
+    if (source[position + 2] === '{') {
+      const end = source.indexOf('}', position + 3)
+      const hex = end === -1 ? '' : source.slice(position + 3, end)
+      const codePoint = /^[0-9a-f]{1,6}$/i.test(hex) ? Number.parseInt(hex, 16) : Number.NaN
+
+      if (!(codePoint <= 0x10FFFF) || (codePoint >= 0xD800 && codePoint <= 0xDFFF)) {
+        throw this.error(position, `Invalid Unicode escape sequence: "${source.slice(position, end === -1 ? position + 3 : end + 1)}".`)
+      }
+      return [codePoint, end - position + 1]
+    }
+
+    const hex = source.slice(position + 2, position + 6)
+    const lead = /^[0-9a-f]{4}$/i.test(hex) ? Number.parseInt(hex, 16) : Number.NaN
+
+    if (lead >= 0xD800 && lead <= 0xDBFF && source.startsWith('\\u', position + 6)) {
+      const trailHex = source.slice(position + 8, position + 12)
+      const trail = /^[0-9a-f]{4}$/i.test(trailHex) ? Number.parseInt(trailHex, 16) : Number.NaN
+      if (trail >= 0xDC00 && trail <= 0xDFFF) {
+        return [(lead - 0xD800) * 0x400 + trail - 0xDC00 + 0x10000, 12]
+      }
+    }
+
+    if (Number.isNaN(lead) || (lead >= 0xD800 && lead <= 0xDFFF)) {
+      throw this.error(position, `Invalid Unicode escape sequence: "${source.slice(position, position + 6)}".`)
+    }
+    return [lead, 6]
+  }
+
+  private skipIgnored(): void {
+    const { source } = this
+
+    while (this.position < source.length) {
+      const char = source[this.position]
+
+      if (char === ' ' || char === '\t' || char === ',' || char === '\n' || char === '\r' || char === '﻿') {
+        this.position++
+      }
+      else if (char === '#') {
+        while (this.position < source.length && source[this.position] !== '\n' && source[this.position] !== '\r') {
+          this.position++
+        }
+      }
+      else {
+        return
+      }
+    }
+  }
+}
+
+/** @internal */
+function describeChar(source: string, position: number): string {
+  if (position >= source.length) {
+    return '<EOF>'
+  }
+
+  const code = source.codePointAt(position)!
+  return code >= 0x20 && code <= 0x7E ? `"${source[position]}"` : `U+${code.toString(16).toUpperCase().padStart(4, '0')}`
+}
+
+/**
+ * Computes the value of a block string: removes the common indentation and
+ * the leading and trailing blank lines, as in the specification's
+ * `BlockStringValue()`.
+ * @internal
+ */
+function blockStringValue(raw: string): string {
+  const lines = raw.split(/\r\n|[\n\r]/g)
+  let commonIndent: number | null = null
+
+  for (let i = 1; i < lines.length; i++) {
+    const indent = lines[i].length - lines[i].replace(/^[\t ]*/, '').length
+    if (indent < lines[i].length && (commonIndent === null || indent < commonIndent)) {
+      commonIndent = indent
+    }
+  }
+
+  const trimmed = lines.map((line, i) => i === 0 || commonIndent === null ? line : line.slice(commonIndent))
+  const isBlank = (line: string): boolean => /^[\t ]*$/.test(line)
+
+  while (trimmed.length > 0 && isBlank(trimmed[0])) {
+    trimmed.shift()
+  }
+  while (trimmed.length > 0 && isBlank(trimmed[trimmed.length - 1])) {
+    trimmed.pop()
+  }
+
+  return trimmed.join('\n')
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * A recursive-descent parser over the lexer's tokens, with one token of
+ * lookahead.
+ * @internal
+ */
+class Parser {
+  private readonly lexer: Lexer
+  private token: Token
+
+  constructor(private readonly source: string) {
+    this.lexer = new Lexer(source)
+    this.token = this.lexer.next()
+  }
+
+  parseDocument(): DocumentNode {
+    const definitions: DefinitionNode[] = []
+
+    do {
+      definitions.push(this.parseDefinition())
+    } while (!this.peek('<EOF>'))
+
+    return { definitions, kind: 'Document', loc: { end: this.source.length, source: { body: this.source }, start: 0 } }
+  }
+
+  parseSchemaDocument(): SchemaDocumentNode {
+    const definitions: TypeSystemDefinitionNode[] = []
+
+    while (!this.peek('<EOF>')) {
+      definitions.push(this.parseTypeSystemDefinition())
+    }
+
+    return { definitions, kind: 'Document' }
+  }
+
+  // --- Token helpers ---
+
+  private advance(): Token {
+    const token = this.token
+    this.token = this.lexer.next()
+    return token
+  }
+
+  private expect(kind: TokenKind): Token {
+    if (this.token.kind !== kind) {
+      throw this.unexpected(`Expected ${kind === 'Name' ? 'Name' : `"${kind}"`}, found ${this.describe()}.`)
+    }
+    return this.advance()
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (this.token.kind !== 'Name' || this.token.value !== keyword) {
+      throw this.unexpected(`Expected "${keyword}", found ${this.describe()}.`)
+    }
+    this.advance()
+  }
+
+  private describe(): string {
+    const { kind, value } = this.token
+    if (kind === '<EOF>') {
+      return '<EOF>'
+    }
+    return kind === 'Name' ? `Name "${value}"` : kind.length <= 3 ? `"${kind}"` : `${kind} "${value}"`
+  }
+
+  private many<T>(open: TokenKind, parse: () => T, close: TokenKind): T[] {
+    this.expect(open)
+    const nodes: T[] = []
+    do {
+      nodes.push(parse())
+    } while (!this.skip(close))
+    return nodes
+  }
+
+  private optionalMany<T>(open: TokenKind, parse: () => T, close: TokenKind): T[] | undefined {
+    return this.peek(open) ? this.many(open, parse, close) : undefined
+  }
+
+  private peek(kind: TokenKind): boolean {
+    return this.token.kind === kind
+  }
+
+  private skip(kind: TokenKind): boolean {
+    if (this.token.kind === kind) {
+      this.advance()
+      return true
+    }
+    return false
+  }
+
+  private unexpected(description = `Unexpected ${this.describe()}.`): GraphQLSyntaxError {
+    return new GraphQLSyntaxError(this.source, this.token.start, description)
+  }
+
+  // --- Definitions ---
+
+  private parseDefinition(): DefinitionNode {
+    if (this.peek('{')) {
+      return this.parseOperationDefinition()
+    }
+
+    if (this.peek('Name')) {
+      switch (this.token.value) {
+        case 'fragment':
+          return this.parseFragmentDefinition()
+        case 'mutation':
+        case 'query':
+        case 'subscription':
+          return this.parseOperationDefinition()
+        case 'directive':
+        case 'enum':
+        case 'extend':
+        case 'input':
+        case 'interface':
+        case 'scalar':
+        case 'schema':
+        case 'type':
+        case 'union':
+          throw this.unexpected(`Unexpected type system definition "${this.token.value}" in an executable document.`)
+      }
+    }
+
+    throw this.unexpected()
+  }
+
+  private parseOperationDefinition(): OperationDefinitionNode {
+    if (this.peek('{')) {
+      return { kind: 'OperationDefinition', operation: 'query', selectionSet: this.parseSelectionSet() }
+    }
+
+    const operation = this.advance().value as OperationTypeNode
+    const name = this.peek('Name') ? this.parseName() : undefined
+    const variableDefinitions = this.optionalMany('(', () => this.parseVariableDefinition(), ')')
+    const directives = this.parseDirectives(false)
+
+    return {
+      directives,
+      kind: 'OperationDefinition',
+      name,
+      operation,
+      selectionSet: this.parseSelectionSet(),
+      variableDefinitions,
+    }
+  }
+
+  private parseVariableDefinition(): VariableDefinitionNode {
+    const variable = this.parseVariable()
+    this.expect(':')
+    const type = this.parseTypeReference()
+    const defaultValue = this.skip('=') ? this.parseValue(true) : undefined
+
+    return { defaultValue, directives: this.parseDirectives(true), kind: 'VariableDefinition', type, variable }
+  }
+
+  private parseVariable(): VariableNode {
+    this.expect('$')
+    return { kind: 'Variable', name: this.parseName() }
+  }
+
+  private parseFragmentDefinition(): FragmentDefinitionNode {
+    this.expectKeyword('fragment')
+
+    if (this.token.value === 'on') {
+      throw this.unexpected('Unexpected Name "on".')
+    }
+
+    const name = this.parseName()
+    this.expectKeyword('on')
+    const typeCondition = this.parseNamedType()
+    const directives = this.parseDirectives(false)
+
+    return { directives, kind: 'FragmentDefinition', name, selectionSet: this.parseSelectionSet(), typeCondition }
+  }
+
+  // --- Type system definitions ---
+
+  private parseTypeSystemDefinition(): TypeSystemDefinitionNode {
+    const description = this.parseDescription()
+    const extension = description === undefined && this.peek('Name') && this.token.value === 'extend'
+    if (extension) {
+      this.advance()
+    }
+
+    const keyword = this.peek('Name') ? this.token.value : ''
+    if (keyword === 'directive' && !extension) {
+      return this.parseDirectiveDefinition(description)
+    }
+    if (!TYPE_SYSTEM_KEYWORDS.has(keyword)) {
+      throw this.unexpected()
+    }
+
+    this.advance()
+    const base = { description, extension: extension || undefined }
+
+    switch (keyword) {
+      case 'schema':
+        return {
+          ...base,
+          directives: this.parseDirectives(true),
+          kind: 'SchemaDefinition',
+          operationTypes: this.optionalMany('{', () => {
+            if (!['mutation', 'query', 'subscription'].includes(this.token.value)) {
+              throw this.unexpected(`Unexpected operation type "${this.token.value}".`)
+            }
+            const operation = this.parseName()
+            this.expect(':')
+            return { kind: 'OperationTypeDefinition' as const, operation: operation.value as OperationTypeNode, type: this.parseNamedType() }
+          }, '}') ?? [],
+        }
+      case 'scalar': {
+        const name = this.parseName()
+        return { ...base, directives: this.parseDirectives(true), kind: 'ScalarTypeDefinition', name }
+      }
+      case 'type':
+      case 'interface': {
+        const name = this.parseName()
+        const interfaces = this.parseImplements()
+        const directives = this.parseDirectives(true)
+        const fields = this.optionalMany('{', () => this.parseFieldDefinition(), '}') ?? []
+
+        return { ...base, directives, fields, interfaces, kind: keyword === 'type' ? 'ObjectTypeDefinition' : 'InterfaceTypeDefinition', name }
+      }
+      case 'union': {
+        const name = this.parseName()
+        const directives = this.parseDirectives(true)
+        const types: NamedTypeNode[] = []
+        if (this.skip('=')) {
+          this.skip('|')
+          do {
+            types.push(this.parseNamedType())
+          } while (this.skip('|'))
+        }
+
+        return { ...base, directives, kind: 'UnionTypeDefinition', name, types }
+      }
+      case 'enum': {
+        const name = this.parseName()
+        const directives = this.parseDirectives(true)
+        const values = this.optionalMany('{', () => {
+          const valueDescription = this.parseDescription()
+          if (['false', 'null', 'true'].includes(this.token.value)) {
+            throw this.unexpected(`Name "${this.token.value}" is reserved and cannot be used for an enum value.`)
+          }
+          const value = this.parseName()
+          return { description: valueDescription, directives: this.parseDirectives(true), kind: 'EnumValueDefinition' as const, name: value }
+        }, '}') ?? []
+
+        return { ...base, directives, kind: 'EnumTypeDefinition', name, values }
+      }
+      default: {
+        const name = this.parseName()
+        const directives = this.parseDirectives(true)
+        const fields = this.optionalMany('{', () => this.parseInputValueDefinition(), '}') ?? []
+
+        return { ...base, directives, fields, kind: 'InputObjectTypeDefinition', name }
+      }
+    }
+  }
+
+  private parseDescription(): string | undefined {
+    return this.peek('String') || this.peek('BlockString') ? this.advance().value : undefined
+  }
+
+  private parseDirectiveDefinition(description: string | undefined): DirectiveDefinitionNode {
+    this.expectKeyword('directive')
+    this.expect('@')
+
+    const name = this.parseName()
+    const args = this.optionalMany('(', () => this.parseInputValueDefinition(), ')') ?? []
+    const repeatable = this.peek('Name') && this.token.value === 'repeatable'
+    if (repeatable) {
+      this.advance()
+    }
+
+    this.expectKeyword('on')
+    this.skip('|')
+    const locations: NameNode[] = []
+    do {
+      locations.push(this.parseName())
+    } while (this.skip('|'))
+
+    return { arguments: args, description, kind: 'DirectiveDefinition', locations, name, repeatable }
+  }
+
+  private parseFieldDefinition(): FieldDefinitionNode {
+    const description = this.parseDescription()
+    const name = this.parseName()
+    const args = this.optionalMany('(', () => this.parseInputValueDefinition(), ')') ?? []
+    this.expect(':')
+    const type = this.parseTypeReference()
+
+    return { arguments: args, description, directives: this.parseDirectives(true), kind: 'FieldDefinition', name, type }
+  }
+
+  private parseImplements(): NamedTypeNode[] {
+    const interfaces: NamedTypeNode[] = []
+    if (this.peek('Name') && this.token.value === 'implements') {
+      this.advance()
+      this.skip('&')
+      do {
+        interfaces.push(this.parseNamedType())
+      } while (this.skip('&'))
+    }
+    return interfaces
+  }
+
+  private parseInputValueDefinition(): InputValueDefinitionNode {
+    const description = this.parseDescription()
+    const name = this.parseName()
+    this.expect(':')
+    const type = this.parseTypeReference()
+    const defaultValue = this.skip('=') ? this.parseValue(true) : undefined
+
+    return { defaultValue, description, directives: this.parseDirectives(true), kind: 'InputValueDefinition', name, type }
+  }
+
+  // --- Selections ---
+
+  private parseSelectionSet(): SelectionSetNode {
+    return { kind: 'SelectionSet', selections: this.many('{', () => this.parseSelection(), '}') }
+  }
+
+  private parseSelection(): SelectionNode {
+    return this.peek('...') ? this.parseFragment() : this.parseField()
+  }
+
+  private parseField(): FieldNode {
+    const nameOrAlias = this.parseName()
+    let alias: NameNode | undefined
+    let name = nameOrAlias
+
+    if (this.skip(':')) {
+      alias = nameOrAlias
+      name = this.parseName()
+    }
+
+    const args = this.parseArguments(false)
+    const directives = this.parseDirectives(false)
+    const selectionSet = this.peek('{') ? this.parseSelectionSet() : undefined
+
+    return { alias, arguments: args, directives, kind: 'Field', name, selectionSet }
+  }
+
+  private parseFragment(): FragmentSpreadNode | InlineFragmentNode {
+    this.expect('...')
+
+    const hasTypeCondition = this.peek('Name') && this.token.value === 'on'
+    if (!hasTypeCondition && this.peek('Name')) {
+      const name = this.parseName()
+      return { directives: this.parseDirectives(false), kind: 'FragmentSpread', name }
+    }
+
+    let typeCondition: NamedTypeNode | undefined
+    if (hasTypeCondition) {
+      this.advance()
+      typeCondition = this.parseNamedType()
+    }
+
+    return { directives: this.parseDirectives(false), kind: 'InlineFragment', selectionSet: this.parseSelectionSet(), typeCondition }
+  }
+
+  private parseArguments(isConst: boolean): ArgumentNode[] | undefined {
+    return this.optionalMany('(', () => {
+      const name = this.parseName()
+      this.expect(':')
+      return { kind: 'Argument' as const, name, value: this.parseValue(isConst) }
+    }, ')')
+  }
+
+  private parseDirectives(isConst: boolean): DirectiveNode[] | undefined {
+    const directives: DirectiveNode[] = []
+    while (this.skip('@')) {
+      const name = this.parseName()
+      directives.push({ arguments: this.parseArguments(isConst), kind: 'Directive', name })
+    }
+    return directives.length > 0 ? directives : undefined
+  }
+
+  // --- Values & types ---
+
+  private parseName(): NameNode {
+    return { kind: 'Name', value: this.expect('Name').value }
+  }
+
+  private parseValue(isConst: boolean): ValueNode {
+    const token = this.token
+
+    switch (token.kind) {
+      case '[':
+        this.advance()
+        return { kind: 'ListValue', values: this.until(']', () => this.parseValue(isConst)) }
+      case '{':
+        this.advance()
+        return {
+          fields: this.until('}', () => {
+            const name = this.parseName()
+            this.expect(':')
+            return { kind: 'ObjectField' as const, name, value: this.parseValue(isConst) }
+          }),
+          kind: 'ObjectValue',
+        }
+      case 'Int':
+        this.advance()
+        return { kind: 'IntValue', value: token.value }
+      case 'Float':
+        this.advance()
+        return { kind: 'FloatValue', value: token.value }
+      case 'String':
+      case 'BlockString':
+        this.advance()
+        return { block: token.kind === 'BlockString', kind: 'StringValue', value: token.value }
+      case 'Name':
+        this.advance()
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'BooleanValue', value: token.value === 'true' }
+        }
+        return token.value === 'null' ? { kind: 'NullValue' } : { kind: 'EnumValue', value: token.value }
+      case '$':
+        if (isConst) {
+          throw this.unexpected('Unexpected variable in constant value.')
+        }
+        return this.parseVariable()
+      default:
+        throw this.unexpected()
+    }
+  }
+
+  private parseTypeReference(): TypeNode {
+    let type: TypeNode
+
+    if (this.skip('[')) {
+      const inner = this.parseTypeReference()
+      this.expect(']')
+      type = { kind: 'ListType', type: inner }
+    }
+    else {
+      type = this.parseNamedType()
+    }
+
+    return this.skip('!') ? { kind: 'NonNullType', type: type as ListTypeNode | NamedTypeNode } : type
+  }
+
+  private parseNamedType(): NamedTypeNode {
+    return { kind: 'NamedType', name: this.parseName() }
+  }
+
+  /** Parses items until the closing token, which may come immediately. */
+  private until<T>(close: TokenKind, parse: () => T): T[] {
+    const nodes: T[] = []
+    while (!this.skip(close)) {
+      nodes.push(parse())
+    }
+    return nodes
+  }
+}
+
+// ============================================================================
+// Printer
+// ============================================================================
+
+type ASTNode
+  = | ArgumentNode
+    | DefinitionNode
+    | DirectiveNode
+    | DocumentNode
+    | ObjectFieldNode
+    | SelectionNode
+    | SelectionSetNode
+    | TypeNode
+    | ValueNode
+    | VariableDefinitionNode
+
+/** The line length above which field arguments are printed one per line. */
+const MAX_LINE_LENGTH = 80
+
+/** @internal */
+function join(parts: ReadonlyArray<string | undefined>, separator = ''): string {
+  return parts.filter(Boolean).join(separator)
+}
+
+/** @internal */
+function wrap(start: string, inner: string | undefined, end = ''): string {
+  return inner ? start + inner + end : ''
+}
+
+/** @internal */
+function printAll(nodes: ReadonlyArray<ASTNode> | undefined, separator: string): string {
+  return (nodes ?? []).map(printNode).join(separator)
+}
+
+/** @internal */
+function printBlock(selectionSet: SelectionSetNode | undefined): string {
+  if (!selectionSet || selectionSet.selections.length === 0) {
+    return ''
+  }
+
+  return `{\n${printAll(selectionSet.selections, '\n').replace(/^/gm, '  ')}\n}`
+}
+
+/**
+ * Prints a block string, choosing between the single-line and the multi-line
+ * form the way the reference implementation does, so that parsing the output
+ * gives back the same value.
+ * @internal
+ */
+function printBlockString(value: string): string {
+  const escaped = value.replace(/"""/g, '\\"""')
+  const lines = escaped.split(/\r\n|[\n\r]/)
+  const isSingleLine = lines.length === 1
+  const startsIndented = (line: string): boolean => line[0] === ' ' || line[0] === '\t'
+
+  // Later lines that are all indented or empty would lose their indentation to
+  // the common-indent removal unless the value starts on a new line.
+  const forceLeadingNewLine = !isSingleLine && lines.slice(1).every(line => line === '' || startsIndented(line))
+  const hasTrailingTripleQuotes = escaped.endsWith('\\"""')
+  const forceTrailingNewLine = (value.endsWith('"') && !hasTrailingTripleQuotes) || value.endsWith('\\')
+  const multiline = !isSingleLine || value.length > 70 || forceTrailingNewLine || forceLeadingNewLine || hasTrailingTripleQuotes
+
+  const leading = (multiline && !(isSingleLine && startsIndented(value))) || forceLeadingNewLine ? '\n' : ''
+  const trailing = multiline || forceTrailingNewLine ? '\n' : ''
+
+  return `"""${leading}${escaped}${trailing}"""`
+}
+
+/** @internal */
+function printNode(node: ASTNode): string {
+  switch (node.kind) {
+    case 'Document':
+      return printAll(node.definitions, '\n\n')
+    case 'OperationDefinition': {
+      const variables = wrap('(', printAll(node.variableDefinitions, ', '), ')')
+      const directives = printAll(node.directives, ' ')
+
+      // An anonymous query without variables or directives uses the shorthand.
+      if (node.operation === 'query' && !node.name && !variables && !directives) {
+        return printBlock(node.selectionSet)
+      }
+      return join([node.operation, join([node.name?.value, variables]), directives, printBlock(node.selectionSet)], ' ')
+    }
+    case 'VariableDefinition':
+      return join([`$${node.variable.name.value}: ${printNode(node.type)}`, wrap('= ', node.defaultValue && printNode(node.defaultValue)), printAll(node.directives, ' ')], ' ')
+    case 'SelectionSet':
+      return printBlock(node)
+    case 'Field': {
+      const prefix = wrap('', node.alias?.value, ': ') + node.name.value
+      let call = prefix + wrap('(', printAll(node.arguments, ', '), ')')
+
+      // Arguments that do not fit on one line go on a line each.
+      if (call.length > MAX_LINE_LENGTH) {
+        call = prefix + wrap('(\n', printAll(node.arguments, '\n').replace(/^/gm, '  '), '\n)')
+      }
+      return join([call, printAll(node.directives, ' '), printBlock(node.selectionSet)], ' ')
+    }
+    case 'Argument':
+    case 'ObjectField':
+      return `${node.name.value}: ${printNode(node.value)}`
+    case 'FragmentSpread':
+      return join([`...${node.name.value}`, printAll(node.directives, ' ')], ' ')
+    case 'InlineFragment':
+      return join(['...', wrap('on ', node.typeCondition?.name.value), printAll(node.directives, ' '), printBlock(node.selectionSet)], ' ')
+    case 'FragmentDefinition':
+      return join([`fragment ${node.name.value} on ${node.typeCondition.name.value}`, printAll(node.directives, ' '), printBlock(node.selectionSet)], ' ')
+    case 'IntValue':
+    case 'FloatValue':
+    case 'EnumValue':
+      return node.value
+    case 'StringValue':
+      return node.block ? printBlockString(node.value) : JSON.stringify(node.value)
+    case 'BooleanValue':
+      return node.value ? 'true' : 'false'
+    case 'NullValue':
+      return 'null'
+    case 'ListValue':
+      return `[${printAll(node.values, ', ')}]`
+    case 'ObjectValue':
+      return `{${printAll(node.fields, ', ')}}`
+    case 'Variable':
+      return `$${node.name.value}`
+    case 'Directive':
+      return `@${node.name.value}${wrap('(', printAll(node.arguments, ', '), ')')}`
+    case 'NamedType':
+      return node.name.value
+    case 'ListType':
+      return `[${printNode(node.type)}]`
+    case 'NonNullType':
+      return `${printNode(node.type)}!`
+  }
+}
+
+// ============================================================================
+// Public Functions
+// ============================================================================
+
+/**
+ * Parses an executable GraphQL document.
+ *
+ * @param source The document text.
+ * @returns The document AST.
+ * @throws {GraphQLSyntaxError} If the document is not syntactically valid.
+ */
+export function parse(source: string): DocumentNode {
+  return new Parser(source).parseDocument()
+}
+
+/**
+ * Parses a GraphQL schema definition (SDL) document. Executable definitions
+ * are not allowed.
+ *
+ * @param source The schema text.
+ * @returns The schema document AST.
+ * @throws {GraphQLSyntaxError} If the schema is not syntactically valid.
+ */
+export function parseSchema(source: string): SchemaDocumentNode {
+  return new Parser(source).parseSchemaDocument()
+}
+
+/**
+ * Prints a document AST as GraphQL source text, in the same layout as the
+ * reference implementation.
+ *
+ * @param document The document to print.
+ * @returns The document text.
+ */
+export function print(document: DocumentNode): string {
+  return printNode(document)
+}
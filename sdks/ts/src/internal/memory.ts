@@ -7,9 +7,12 @@
  *
  * ## Architecture
  *
- * The memory bridge operates on two main principles:
+ * The memory bridge operates on three main principles:
  * - **Direct String Operations**: Strings are passed directly between JS and WASM
  * - **UTF-8 Encoding**: All string data is handled as UTF-8 encoded bytes
+ * - **Raw Bytes When Available**: Hosts that provide `__wasm.read_bytes` and
+ *   `__wasm.write_bytes` get binary-safe, copy-free transfers; older hosts fall
+ *   back to the string bridge, which only carries valid UTF-8
  *
  * ## Usage
  *
@@ -19,6 +22,9 @@
  *
  * // Read data back from memory
  * const data = readBufferSlice(ptr, len)
+ *
+ * // Free everything allocated inside a scope when it exits
+ * const text = withArena(() => readString(...stringToPtr("scoped")))
  * ```
  */
 
@@ -32,6 +38,52 @@ const encoder = new TextEncoder()
 /** Reusable TextDecoder instance for UTF-8 string decoding. */
 export const decoder = new TextDecoder('utf-8')
 
+// =============================================================================
+// ALLOCATION TRACKING
+// =============================================================================
+
+/** A live allocation in WebAssembly memory. */
+export interface Allocation {
+  ptr: number
+  size: number
+}
+
+/** Memory bridge configuration. */
+export interface MemoryOptions {
+  /** Track every allocation so that leaks and peak usage can be reported. */
+  debug?: boolean
+}
+
+/** A snapshot of the allocations tracked in debug mode. */
+export interface MemoryStats {
+  /** The number of allocations made since debug mode was enabled. */
+  allocations: number
+
+  /** Allocations that have not been freed yet. */
+  outstanding: Allocation[]
+
+  /** The total size in bytes of the outstanding allocations. */
+  outstandingBytes: number
+
+  /** The highest value `outstandingBytes` has reached. */
+  peakBytes: number
+}
+
+/**
+ * Open arena scopes, innermost last. Each maps the pointers allocated inside
+ * the scope to their sizes.
+ */
+const scopes: Map<number, number>[] = []
+
+/** Debug-mode bookkeeping. `live` is only populated while `enabled` is set. */
+const diagnostics = {
+  allocations: 0,
+  enabled: false,
+  live: new Map<number, number>(),
+  liveBytes: 0,
+  peakBytes: 0,
+}
+
 // =============================================================================
 // MEMORY ALLOCATION
 // =============================================================================
@@ -52,7 +104,18 @@ export const decoder = new TextDecoder('utf-8')
  * ```
  */
 export function allocate(size: number): number {
-  return __wasm.alloc(size)
+  const ptr = __wasm.alloc(size)
+
+  scopes[scopes.length - 1]?.set(ptr, size)
+
+  if (diagnostics.enabled) {
+    diagnostics.allocations++
+    diagnostics.live.set(ptr, size)
+    diagnostics.liveBytes += size
+    diagnostics.peakBytes = Math.max(diagnostics.peakBytes, diagnostics.liveBytes)
+  }
+
+  return ptr
 }
 
 // =============================================================================
@@ -60,6 +123,8 @@ export function allocate(size: number): number {
 // =============================================================================
 
 /**
+ * Returns a block of memory to the WebAssembly allocator. A block freed
+ * explicitly inside an arena scope is not freed again when the scope exits.
  *
  * @param ptr - Memory pointer to deallocate
  * @param size -  Number of bytes to deallocate
@@ -70,33 +135,137 @@ export function allocate(size: number): number {
  * ```
  */
 export function deallocate(ptr: number, size: number): void {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (scopes[i].delete(ptr)) {
+      break
+    }
+  }
+
+  if (diagnostics.enabled && diagnostics.live.delete(ptr)) {
+    diagnostics.liveBytes -= size
+  }
+
   __wasm.dealloc(ptr, size)
 }
 
 /**
- * Reads string data from WebAssembly memory and returns it as UTF-8 bytes.
+ * Runs `fn` inside an arena scope: every allocation made while it runs, including
+ * those made by `stringToPtr` and `bytesToPtr`, is freed when it returns or
+ * throws, in reverse order of allocation. Scopes nest; an allocation belongs to
+ * the innermost open scope.
+ *
+ * `fn` must be synchronous, and anything read out of the arena must be copied
+ * (e.g. with `readBufferSlice` or `readJSON`) before the scope exits.
+ *
+ * @param fn - The function to run
+ * @returns The return value of `fn`
+ *
+ * @example
+ * ```typescript
+ * withArena(() => {
+ *   const [ptr, len] = stringToPtr(payload)
+ *   __host.cast(ptr, len, ...)
+ * }) // `ptr` is freed here
+ * ```
+ */
+export function withArena<T>(fn: () => T): T {
+  const scope = new Map<number, number>()
+  scopes.push(scope)
+
+  try {
+    return fn()
+  }
+  finally {
+    scopes.splice(scopes.lastIndexOf(scope), 1)
+
+    for (const [ptr, size] of [...scope].reverse()) {
+      deallocate(ptr, size)
+    }
+  }
+}
+
+// =============================================================================
+// DIAGNOSTICS
+// =============================================================================
+
+/**
+ * Enables or disables debug mode. While enabled, every allocation is tracked so
+ * that `memoryStats` can report outstanding allocations and peak usage.
+ * Enabling it resets the counters.
+ *
+ * @param options - The memory bridge configuration
+ */
+export function configureMemory(options: MemoryOptions): void {
+  diagnostics.enabled = options.debug ?? diagnostics.enabled
+  diagnostics.allocations = 0
+  diagnostics.live.clear()
+  diagnostics.liveBytes = 0
+  diagnostics.peakBytes = 0
+}
+
+/**
+ * Whether debug mode is enabled.
+ *
+ * @returns `true` if allocations are being tracked
+ */
+export function isMemoryDebugEnabled(): boolean {
+  return diagnostics.enabled
+}
+
+/**
+ * Returns the allocations tracked since debug mode was enabled. All counters
+ * are zero while debug mode is off.
+ *
+ * @returns A snapshot of the tracked allocations
+ */
+export function memoryStats(): MemoryStats {
+  return {
+    allocations: diagnostics.allocations,
+    outstanding: [...diagnostics.live].map(([ptr, size]) => ({ ptr, size })),
+    outstandingBytes: diagnostics.liveBytes,
+    peakBytes: diagnostics.peakBytes,
+  }
+}
+
+/**
+ * Whether the host exposes the raw byte primitives of the memory bridge.
+ *
+ * @returns `true` if binary-safe reads and writes are available
+ */
+export function hasBinaryMemory(): boolean {
+  return typeof __wasm.read_bytes === 'function' && typeof __wasm.write_bytes === 'function'
+}
+
+/**
+ * Reads raw bytes from WebAssembly memory.
  *
- * This function provides a safe interface for reading string data from
- * WASM memory, with proper error handling and fallback behavior.
+ * With `__wasm.read_bytes`, this returns the bytes exactly as stored, without
+ * any string round trip. Otherwise it falls back to reading a string and
+ * re-encoding it, which is only lossless for valid UTF-8.
+ *
+ * The result may be a view over linear memory: copy it (e.g. with `slice()`)
+ * before freeing the underlying allocation if it must outlive it.
  *
  * @param ptr - Memory pointer to read from
  * @param len - Number of bytes to read
- * @returns UTF-8 encoded bytes of the string data
+ * @returns The bytes at the given location
  *
  * @example
  * ```typescript
- * const data = readBufferSlice(ptr, len)
- * const text = decoder.decode(data) // Convert back to string
+ * const bytes = readBytes(ptr, len).slice()
  * ```
  */
-export function readBufferSlice(ptr: number, len: number): Uint8Array {
+export function readBytes(ptr: number, len: number): Uint8Array {
   if (len === 0) {
     return new Uint8Array(0)
   }
 
   try {
-    const str = __wasm.read_string(ptr, len)
-    return encoder.encode(str)
+    if (typeof __wasm.read_bytes === 'function') {
+      return __wasm.read_bytes(ptr, len)
+    }
+
+    return encoder.encode(__wasm.read_string(ptr, len))
   }
   catch (error) {
     console.error(`Memory read failed at ptr=${ptr}, len=${len}:`, error)
@@ -104,6 +273,47 @@ export function readBufferSlice(ptr: number, len: number): Uint8Array {
   }
 }
 
+/**
+ * Reads data from WebAssembly memory and returns it as a JS-owned byte array.
+ *
+ * This function provides a safe interface for reading data from WASM memory,
+ * with proper error handling and fallback behavior. Unlike `readBytes`, the
+ * result never aliases linear memory, so the allocation can be freed afterwards.
+ *
+ * @param ptr - Memory pointer to read from
+ * @param len - Number of bytes to read
+ * @returns A copy of the bytes at the given location
+ *
+ * @example
+ * ```typescript
+ * const data = readBufferSlice(ptr, len)
+ * const text = decoder.decode(data) // Convert back to string
+ * ```
+ */
+export function readBufferSlice(ptr: number, len: number): Uint8Array {
+  const bytes = readBytes(ptr, len)
+  return typeof __wasm.read_bytes === 'function' ? bytes.slice() : bytes
+}
+
+/**
+ * Reads and parses a JSON document directly from WebAssembly memory.
+ *
+ * This avoids the intermediate copies of `readBufferSlice`: with raw byte
+ * support the memory view is decoded in place, and otherwise the string read
+ * by the bridge is parsed as-is instead of being re-encoded and decoded again.
+ *
+ * @param ptr - Memory pointer to read from
+ * @param len - Number of bytes to read
+ * @returns The parsed JSON value
+ */
+export function readJSON<T = any>(ptr: number, len: number): T {
+  if (typeof __wasm.read_bytes === 'function') {
+    return JSON.parse(decoder.decode(readBytes(ptr, len))) as T
+  }
+
+  return JSON.parse(readString(ptr, len)) as T
+}
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
@@ -155,14 +365,55 @@ export function readString(ptr: number, len: number): string {
  * ```
  */
 export function stringToPtr(str: string): [number, number] {
+  // Nothing to write: a null pointer with zero length needs no allocation.
   if (str.length === 0) {
-    return [allocate(0), 0]
+    return [0, 0]
   }
 
   const bytes = encoder.encode(str)
   const ptr = allocate(bytes.length)
 
-  __wasm.write_string(ptr, str)
+  if (typeof __wasm.write_bytes === 'function') {
+    // We already have the bytes; write them instead of re-encoding the string.
+    __wasm.write_bytes(ptr, bytes)
+  }
+  else {
+    __wasm.write_string(ptr, str)
+  }
+
+  return [ptr, bytes.length]
+}
+
+/**
+ * Writes raw bytes to WebAssembly memory and returns their location.
+ *
+ * Arbitrary binary data requires `__wasm.write_bytes`. On older hosts only
+ * valid UTF-8 can be written (through the string bridge); anything else throws
+ * rather than being silently corrupted.
+ *
+ * @param bytes - The bytes to write to memory
+ * @returns A tuple containing [pointer, byte_length]
+ * @throws If the host lacks `write_bytes` and the bytes are not valid UTF-8
+ */
+export function bytesToPtr(bytes: Uint8Array): [number, number] {
+  if (typeof __wasm.write_bytes !== 'function') {
+    let str: string
+    try {
+      str = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    }
+    catch {
+      throw new Error('binary data requires a host with raw memory support (__wasm.write_bytes)')
+    }
+
+    return stringToPtr(str)
+  }
+
+  if (bytes.length === 0) {
+    return [0, 0]
+  }
+
+  const ptr = allocate(bytes.length)
+  __wasm.write_bytes(ptr, bytes)
 
   return [ptr, bytes.length]
 }
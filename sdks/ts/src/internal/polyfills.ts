@@ -1,18 +1,111 @@
 /**
- * @file Provides robust, production-quality polyfills for TextEncoder and TextDecoder.
- * The logic is adapted from a public-domain UTF-8 implementation to ensure correctness
- * and full Unicode support, including surrogate pairs.
+ * @file Provides standards-complete polyfills for TextEncoder and TextDecoder.
+ * Both follow the UTF-8 algorithms of the WHATWG Encoding Standard
+ * (https://encoding.spec.whatwg.org/), including fatal mode, BOM handling,
+ * streaming decode, replacement of invalid and overlong sequences, and
+ * replacement of lone surrogates when encoding.
  *
  * The Javy runtime has partial/non-compliant support for these APIs, so providing
  * our own implementation makes the SDK self-sufficient and guarantees identical
  * behavior in all environments (server and browser).
+ *
+ * Both classes work in chunks over typed arrays rather than per-character string
+ * concatenation, so multi-megabyte host payloads stay fast.
+ */
+
+// ============================================================================
+// Internal Implementation
+// ============================================================================
+
+/** U+FFFD REPLACEMENT CHARACTER, substituted for invalid input. */
+const REPLACEMENT = 0xFFFD
+
+/** U+FEFF BYTE ORDER MARK. */
+const BOM = 0xFEFF
+
+/**
+ * How many UTF-16 code units are converted to a string at once. Kept well below
+ * the argument limit of `Function.prototype.apply` in every engine.
+ */
+const CHUNK_SIZE = 0x2000
+
+/** The labels of the UTF-8 encoding, per the Encoding Standard. */
+const UTF8_LABELS = ['unicode-1-1-utf-8', 'unicode11utf8', 'unicode20utf8', 'utf-8', 'utf8', 'x-unicode20utf8']
+
+/** Returns the bytes of any `BufferSource` without copying them. */
+function toBytes(input: AllowSharedBufferSource | undefined): Uint8Array {
+  if (input === undefined) {
+    return new Uint8Array(0)
+  }
+
+  if (input instanceof Uint8Array) {
+    return input
+  }
+
+  if (ArrayBuffer.isView(input)) {
+    return new Uint8Array(input.buffer, input.byteOffset, input.byteLength)
+  }
+
+  if (input instanceof ArrayBuffer || Object.prototype.toString.call(input) === '[object SharedArrayBuffer]') {
+    return new Uint8Array(input)
+  }
+
+  throw new TypeError('The provided value is not of type \'(ArrayBuffer or ArrayBufferView)\'')
+}
+
+/**
+ * Returns the code point starting at index `i` of `str` (U+FFFD for a lone
+ * surrogate) and the number of UTF-16 code units it spans.
  */
+function codePointAt(str: string, i: number): [codePoint: number, units: number] {
+  const unit = str.charCodeAt(i)
+
+  if (unit < 0xD800 || unit > 0xDFFF) {
+    return [unit, 1]
+  }
+
+  if (unit <= 0xDBFF && i + 1 < str.length) {
+    const next = str.charCodeAt(i + 1)
+    if (next >= 0xDC00 && next <= 0xDFFF) {
+      return [0x10000 + ((unit - 0xD800) << 10) + (next - 0xDC00), 2]
+    }
+  }
+
+  return [REPLACEMENT, 1]
+}
+
+/** The number of bytes a code point occupies in UTF-8. */
+function utf8Length(codePoint: number): number {
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+}
+
+/** Writes a code point as UTF-8 at `pos` and returns the position after it. */
+function writeCodePoint(codePoint: number, bytes: Uint8Array, pos: number): number {
+  if (codePoint < 0x80) {
+    bytes[pos++] = codePoint
+  }
+  else if (codePoint < 0x800) {
+    bytes[pos++] = 0xC0 | (codePoint >> 6)
+    bytes[pos++] = 0x80 | (codePoint & 0x3F)
+  }
+  else if (codePoint < 0x10000) {
+    bytes[pos++] = 0xE0 | (codePoint >> 12)
+    bytes[pos++] = 0x80 | ((codePoint >> 6) & 0x3F)
+    bytes[pos++] = 0x80 | (codePoint & 0x3F)
+  }
+  else {
+    bytes[pos++] = 0xF0 | (codePoint >> 18)
+    bytes[pos++] = 0x80 | ((codePoint >> 12) & 0x3F)
+    bytes[pos++] = 0x80 | ((codePoint >> 6) & 0x3F)
+    bytes[pos++] = 0x80 | (codePoint & 0x3F)
+  }
+
+  return pos
+}
 
-// To the extent possible under law, the author(s) have dedicated all copyright and related
-// and neighboring rights to this software to the public domain worldwide. This software
-// is distributed without any warranty.
-// You should have received a copy of the CC0 Public Domain Dedication along with this
-// software. If not, see <http://creativecommons.org/publicdomain/zero/1.0/>.
+// ============================================================================
+// Public Polyfills
+// ============================================================================
 
 export class TextDecoder {
   /**
@@ -21,68 +114,199 @@ export class TextDecoder {
    */
   public readonly encoding = 'utf-8'
 
-  /**
-   * The `fatal` option is not supported by this polyfill but is required for API compliance.
-   */
-  public readonly fatal = false
+  /** Whether invalid input throws a `TypeError` instead of decoding to U+FFFD. */
+  public readonly fatal: boolean
+
+  /** Whether a leading byte order mark is kept in the output instead of stripped. */
+  public readonly ignoreBOM: boolean
+
+  // Decoder state, carried across `decode` calls while streaming.
+  private bomSeen = false
+  private bytesNeeded = 0
+  private bytesSeen = 0
+  private codePoint = 0
+  private lowerBoundary = 0x80
+  private streaming = false
+  private upperBoundary = 0xBF
 
   /**
-   * The `ignoreBOM` option is not supported by this polyfill but is required for API compliance.
+   * @param label The encoding label. Only the labels of UTF-8 are supported.
+   * @param options The `fatal` and `ignoreBOM` flags.
+   * @throws {RangeError} If the label does not name UTF-8.
    */
-  public readonly ignoreBOM = false
+  constructor(label = 'utf-8', options: TextDecoderOptions = {}) {
+    if (!UTF8_LABELS.includes(String(label).trim().toLowerCase())) {
+      throw new RangeError(`The encoding label provided ('${label}') is invalid.`)
+    }
+
+    this.fatal = Boolean(options.fatal)
+    this.ignoreBOM = Boolean(options.ignoreBOM)
+  }
 
   /**
-   * Decodes a Uint8Array containing UTF-8 bytes into a JavaScript string.
-   * @param octets The byte array to decode.
+   * Decodes UTF-8 bytes into a JavaScript string.
+   *
+   * With `{ stream: true }`, an incomplete sequence at the end of the input is
+   * kept and completed by the next call; the final call must omit `stream` so
+   * that a truncated sequence is reported.
+   *
+   * @param input The bytes to decode.
+   * @param options Set `stream` when more input follows.
    * @returns The decoded string.
+   * @throws {TypeError} In fatal mode, if the input is not valid UTF-8.
    */
-  decode(octets: Uint8Array): string {
-    let string = ''
-    let i = 0
+  decode(input?: AllowSharedBufferSource, options: TextDecodeOptions = {}): string {
+    const bytes = toBytes(input)
+
+    if (!this.streaming) {
+      this.reset()
+    }
+
+    this.streaming = Boolean(options.stream)
 
-    while (i < octets.length) {
-      let octet = octets[i]
-      let bytesNeeded = 0
-      let codePoint = 0
+    const units = new Uint16Array(CHUNK_SIZE + 2)
+    const parts: string[] = []
+    let length = 0
 
-      if (octet <= 0x7F) {
-        bytesNeeded = 0
-        codePoint = octet & 0xFF
+    const flush = (): void => {
+      parts.push(String.fromCharCode.apply(null, units.subarray(0, length) as unknown as number[]))
+      length = 0
+    }
+
+    const emit = (codePoint: number): void => {
+      if (!this.bomSeen) {
+        this.bomSeen = true
+        if (codePoint === BOM && !this.ignoreBOM) {
+          return
+        }
       }
-      else if (octet <= 0xDF) {
-        bytesNeeded = 1
-        codePoint = octet & 0x1F
+
+      if (codePoint > 0xFFFF) {
+        codePoint -= 0x10000
+        units[length++] = 0xD800 + (codePoint >> 10)
+        units[length++] = 0xDC00 + (codePoint & 0x3FF)
+      }
+      else {
+        units[length++] = codePoint
       }
-      else if (octet <= 0xEF) {
-        bytesNeeded = 2
-        codePoint = octet & 0x0F
+
+      if (length >= CHUNK_SIZE) {
+        flush()
       }
-      else if (octet <= 0xF4) {
-        bytesNeeded = 3
-        codePoint = octet & 0x07
+    }
+
+    const fail = (): void => {
+      if (this.fatal) {
+        this.reset()
+        throw new TypeError('The encoded data was not valid for encoding utf-8')
       }
 
-      if (octets.length - i - bytesNeeded > 0) {
-        let k = 0
-        while (k < bytesNeeded) {
-          octet = octets[i + k + 1]
-          codePoint = (codePoint << 6) | (octet & 0x3F)
-          k += 1
+      emit(REPLACEMENT)
+    }
+
+    let i = 0
+    while (i < bytes.length) {
+      const byte = bytes[i]
+
+      // Fast path for ASCII, which dominates JSON payloads.
+      if (byte < 0x80 && this.bytesNeeded === 0 && this.bomSeen) {
+        units[length++] = byte
+        if (length >= CHUNK_SIZE) {
+          flush()
         }
+
+        i++
+        continue
       }
-      else {
-        // In case of a truncated multi-byte sequence, substitute with a replacement character.
-        codePoint = 0xFFFD
-        bytesNeeded = octets.length - i
+
+      if (this.bytesNeeded === 0) {
+        if (byte < 0x80) {
+          emit(byte)
+        }
+        else if (byte >= 0xC2 && byte <= 0xDF) {
+          this.bytesNeeded = 1
+          this.codePoint = byte & 0x1F
+        }
+        else if (byte >= 0xE0 && byte <= 0xEF) {
+          // Reject overlong encodings (E0 80..9F) and UTF-16 surrogates (ED A0..BF).
+          if (byte === 0xE0) {
+            this.lowerBoundary = 0xA0
+          }
+          else if (byte === 0xED) {
+            this.upperBoundary = 0x9F
+          }
+
+          this.bytesNeeded = 2
+          this.codePoint = byte & 0x0F
+        }
+        else if (byte >= 0xF0 && byte <= 0xF4) {
+          // Reject overlong encodings (F0 80..8F) and code points above U+10FFFF.
+          if (byte === 0xF0) {
+            this.lowerBoundary = 0x90
+          }
+          else if (byte === 0xF4) {
+            this.upperBoundary = 0x8F
+          }
+
+          this.bytesNeeded = 3
+          this.codePoint = byte & 0x07
+        }
+        else {
+          fail()
+        }
+
+        i++
+        continue
       }
 
-      // `String.fromCodePoint` is the modern, correct way to handle code points
-      // that may be outside the BMP.
-      string += String.fromCodePoint(codePoint)
-      i += bytesNeeded + 1
+      if (byte < this.lowerBoundary || byte > this.upperBoundary) {
+        // The sequence is invalid. Report it, then reprocess this byte as the
+        // potential start of a new sequence (so `i` is not advanced).
+        this.resetSequence()
+        fail()
+        continue
+      }
+
+      this.lowerBoundary = 0x80
+      this.upperBoundary = 0xBF
+      this.codePoint = (this.codePoint << 6) | (byte & 0x3F)
+      this.bytesSeen++
+      i++
+
+      if (this.bytesSeen === this.bytesNeeded) {
+        const codePoint = this.codePoint
+        this.resetSequence()
+        emit(codePoint)
+      }
+    }
+
+    // Without `stream`, the input ends here: a pending sequence is truncated.
+    if (!this.streaming && this.bytesNeeded !== 0) {
+      this.resetSequence()
+      fail()
     }
 
-    return string
+    if (length > 0) {
+      flush()
+    }
+
+    return parts.length === 1 ? parts[0] : parts.join('')
+  }
+
+  /** Restores the initial state, as at the start of a new, non-streaming decode. */
+  private reset(): void {
+    this.bomSeen = false
+    this.streaming = false
+    this.resetSequence()
+  }
+
+  /** Discards any partially decoded multi-byte sequence. */
+  private resetSequence(): void {
+    this.bytesNeeded = 0
+    this.bytesSeen = 0
+    this.codePoint = 0
+    this.lowerBoundary = 0x80
+    this.upperBoundary = 0xBF
   }
 }
 
@@ -94,73 +318,62 @@ export class TextEncoder {
   public readonly encoding = 'utf-8'
 
   /**
-   * Encodes a JavaScript string into a UTF-8 encoded Uint8Array.
-   * @param str The string to encode.
+   * Encodes a JavaScript string into a UTF-8 encoded Uint8Array. Lone
+   * surrogates are encoded as U+FFFD.
+   * @param input The string to encode.
    * @returns A Uint8Array containing the UTF-8 bytes.
    */
-  encode(str: string): Uint8Array {
-    const octets: number[] = []
-    const length = str.length
-    let i = 0
-
-    while (i < length) {
-      // The `codePointAt` method is essential for correctly handling characters
-      // outside the Basic Multilingual Plane (like many emojis).
-      const codePoint = str.codePointAt(i) as number
-
-      let c = 0
-      let bits = 0
+  encode(input = ''): Uint8Array {
+    const str = String(input)
 
-      if (codePoint <= 0x0000007F) {
-        c = 0
-        bits = 0x00
-      }
-      else if (codePoint <= 0x000007FF) {
-        c = 6
-        bits = 0xC0
-      }
-      else if (codePoint <= 0x0000FFFF) {
-        c = 12
-        bits = 0xE0
-      }
-      else if (codePoint <= 0x001FFFFF) {
-        c = 18
-        bits = 0xF0
-      }
+    // First pass: compute the exact output size, so the result needs no copy.
+    let size = 0
+    for (let i = 0; i < str.length;) {
+      const [codePoint, units] = codePointAt(str, i)
+      size += utf8Length(codePoint)
+      i += units
+    }
 
-      octets.push(bits | (codePoint >> c))
+    const bytes = new Uint8Array(size)
+    let pos = 0
+    for (let i = 0; i < str.length;) {
+      const unit = str.charCodeAt(i)
 
-      c -= 6
-      while (c >= 0) {
-        octets.push(0x80 | ((codePoint >> c) & 0x3F))
-        c -= 6
+      // Fast path for ASCII, which dominates JSON payloads.
+      if (unit < 0x80) {
+        bytes[pos++] = unit
+        i++
+        continue
       }
 
-      // Advance by 2 if it was a surrogate pair, otherwise 1.
-      i += codePoint >= 0x10000 ? 2 : 1
+      const [codePoint, units] = codePointAt(str, i)
+      pos = writeCodePoint(codePoint, bytes, pos)
+      i += units
     }
 
-    // The native API returns a Uint8Array, so we do the same for compatibility.
-    return new Uint8Array(octets)
+    return bytes
   }
 
   /**
-   * An implementation of the `encodeInto` method for API compliance.
-   * Our SDK does not use this performance-optimization method, so this is
-   * a minimal, correct stub that performs a simple encode and copy.
+   * Encodes a string into an existing buffer, stopping before the first code
+   * point that does not fit whole.
+   * @param source The string to encode.
+   * @param destination The buffer to write into.
+   * @returns The UTF-16 code units read from `source` and the bytes written.
    */
-  encodeInto(str: string, destination: Uint8Array): { read: number, written: number } {
-    const bytes = this.encode(str)
-    const written = Math.min(bytes.length, destination.length)
-    destination.set(bytes.subarray(0, written))
-
-    // A true implementation would need to correctly calculate how many source
-    // characters were read to produce the written bytes. For our non-blocking
-    // SDK, this simplified stub is sufficient and safe.
-    let read = str.length
-    if (bytes.length > destination.length) {
-      // A simplistic reverse-calculation if truncated.
-      read = new TextDecoder().decode(destination).length
+  encodeInto(source: string, destination: Uint8Array): { read: number, written: number } {
+    const str = String(source)
+    let read = 0
+    let written = 0
+
+    while (read < str.length) {
+      const [codePoint, units] = codePointAt(str, read)
+      if (written + utf8Length(codePoint) > destination.length) {
+        break
+      }
+
+      written = writeCodePoint(codePoint, destination, written)
+      read += units
     }
 
     return { read, written }
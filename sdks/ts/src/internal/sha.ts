@@ -0,0 +1,553 @@
+/**
+ * @file Implements SHA-1, SHA-256, SHA-384 and SHA-512 (FIPS 180-4) and HMAC
+ * (RFC 2104) over byte arrays. Being pure JavaScript, they behave identically in
+ * the Javy/QuickJS runtime, in the script worker and under Node, and they are
+ * synchronous, unlike WebCrypto's `subtle.digest`.
+ *
+ * SHA-384 and SHA-512 operate on 64-bit words, which are represented as pairs
+ * of 32-bit halves because JavaScript bitwise operators are 32-bit.
+ */
+
+/** The hash algorithms implemented by this module. */
+export type HashAlgorithm = 'sha1' | 'sha256' | 'sha384' | 'sha512'
+
+// =============================================================================
+// BLOCK HELPERS
+// =============================================================================
+
+/**
+ * Pads a message to a whole number of blocks: a 1 bit, zeros, then the message
+ * length in bits as a big-endian integer of `lengthBytes` bytes.
+ */
+function pad(data: Uint8Array, blockSize: number, lengthBytes: number): DataView {
+  const length = Math.ceil((data.length + 1 + lengthBytes) / blockSize) * blockSize
+  const padded = new Uint8Array(length)
+  padded.set(data)
+  padded[data.length] = 0x80
+
+  const view = new DataView(padded.buffer)
+  const bits = data.length * 8
+  view.setUint32(length - 8, Math.floor(bits / 0x100000000))
+  view.setUint32(length - 4, bits >>> 0)
+
+  return view
+}
+
+/** Serializes 32-bit words as big-endian bytes. */
+function words32ToBytes(words: ArrayLike<number>): Uint8Array {
+  const bytes = new Uint8Array(words.length * 4)
+  const view = new DataView(bytes.buffer)
+
+  for (let i = 0; i < words.length; i++) {
+    view.setUint32(i * 4, words[i] >>> 0)
+  }
+
+  return bytes
+}
+
+// =============================================================================
+// SHA-1
+// =============================================================================
+
+function sha1(data: Uint8Array): Uint8Array {
+  const view = pad(data, 64, 8)
+  const h = [0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476, 0xC3D2E1F0]
+  const w = new Uint32Array(80)
+
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4)
+    }
+
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16]
+      w[i] = (x << 1) | (x >>> 31)
+    }
+
+    let [a, b, c, d, e] = h
+
+    for (let i = 0; i < 80; i++) {
+      let f: number
+      let k: number
+
+      if (i < 20) {
+        f = (b & c) | (~b & d)
+        k = 0x5A827999
+      }
+      else if (i < 40) {
+        f = b ^ c ^ d
+        k = 0x6ED9EBA1
+      }
+      else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d)
+        k = 0x8F1BBCDC
+      }
+      else {
+        f = b ^ c ^ d
+        k = 0xCA62C1D6
+      }
+
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0
+      e = d
+      d = c
+      c = (b << 30) | (b >>> 2)
+      b = a
+      a = temp
+    }
+
+    h[0] = (h[0] + a) >>> 0
+    h[1] = (h[1] + b) >>> 0
+    h[2] = (h[2] + c) >>> 0
+    h[3] = (h[3] + d) >>> 0
+    h[4] = (h[4] + e) >>> 0
+  }
+
+  return words32ToBytes(h)
+}
+
+// =============================================================================
+// SHA-256
+// =============================================================================
+
+const K256 = new Uint32Array([
+  0x428A2F98,
+  0x71374491,
+  0xB5C0FBCF,
+  0xE9B5DBA5,
+  0x3956C25B,
+  0x59F111F1,
+  0x923F82A4,
+  0xAB1C5ED5,
+  0xD807AA98,
+  0x12835B01,
+  0x243185BE,
+  0x550C7DC3,
+  0x72BE5D74,
+  0x80DEB1FE,
+  0x9BDC06A7,
+  0xC19BF174,
+  0xE49B69C1,
+  0xEFBE4786,
+  0x0FC19DC6,
+  0x240CA1CC,
+  0x2DE92C6F,
+  0x4A7484AA,
+  0x5CB0A9DC,
+  0x76F988DA,
+  0x983E5152,
+  0xA831C66D,
+  0xB00327C8,
+  0xBF597FC7,
+  0xC6E00BF3,
+  0xD5A79147,
+  0x06CA6351,
+  0x14292967,
+  0x27B70A85,
+  0x2E1B2138,
+  0x4D2C6DFC,
+  0x53380D13,
+  0x650A7354,
+  0x766A0ABB,
+  0x81C2C92E,
+  0x92722C85,
+  0xA2BFE8A1,
+  0xA81A664B,
+  0xC24B8B70,
+  0xC76C51A3,
+  0xD192E819,
+  0xD6990624,
+  0xF40E3585,
+  0x106AA070,
+  0x19A4C116,
+  0x1E376C08,
+  0x2748774C,
+  0x34B0BCB5,
+  0x391C0CB3,
+  0x4ED8AA4A,
+  0x5B9CCA4F,
+  0x682E6FF3,
+  0x748F82EE,
+  0x78A5636F,
+  0x84C87814,
+  0x8CC70208,
+  0x90BEFFFA,
+  0xA4506CEB,
+  0xBEF9A3F7,
+  0xC67178F2,
+])
+
+function sha256(data: Uint8Array): Uint8Array {
+  const view = pad(data, 64, 8)
+  const h = new Uint32Array([0x6A09E667, 0xBB67AE85, 0x3C6EF372, 0xA54FF53A, 0x510E527F, 0x9B05688C, 0x1F83D9AB, 0x5BE0CD19])
+  const w = new Uint32Array(64)
+  const rotr = (x: number, n: number): number => (x >>> n) | (x << (32 - n))
+
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4)
+    }
+
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)
+      const ch = (e & f) ^ (~e & g)
+      const temp1 = (hh + s1 + ch + K256[i] + w[i]) | 0
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)
+      const maj = (a & b) ^ (a & c) ^ (b & c)
+      const temp2 = (s0 + maj) | 0
+
+      hh = g
+      g = f
+      f = e
+      e = (d + temp1) | 0
+      d = c
+      c = b
+      b = a
+      a = (temp1 + temp2) | 0
+    }
+
+    h[0] += a
+    h[1] += b
+    h[2] += c
+    h[3] += d
+    h[4] += e
+    h[5] += f
+    h[6] += g
+    h[7] += hh
+  }
+
+  return words32ToBytes(h)
+}
+
+// =============================================================================
+// SHA-384 / SHA-512
+// =============================================================================
+
+/** The SHA-512 round constants, as [high, low] 32-bit halves. */
+const K512 = new Uint32Array([
+  0x428A2F98,
+  0xD728AE22,
+  0x71374491,
+  0x23EF65CD,
+  0xB5C0FBCF,
+  0xEC4D3B2F,
+  0xE9B5DBA5,
+  0x8189DBBC,
+  0x3956C25B,
+  0xF348B538,
+  0x59F111F1,
+  0xB605D019,
+  0x923F82A4,
+  0xAF194F9B,
+  0xAB1C5ED5,
+  0xDA6D8118,
+  0xD807AA98,
+  0xA3030242,
+  0x12835B01,
+  0x45706FBE,
+  0x243185BE,
+  0x4EE4B28C,
+  0x550C7DC3,
+  0xD5FFB4E2,
+  0x72BE5D74,
+  0xF27B896F,
+  0x80DEB1FE,
+  0x3B1696B1,
+  0x9BDC06A7,
+  0x25C71235,
+  0xC19BF174,
+  0xCF692694,
+  0xE49B69C1,
+  0x9EF14AD2,
+  0xEFBE4786,
+  0x384F25E3,
+  0x0FC19DC6,
+  0x8B8CD5B5,
+  0x240CA1CC,
+  0x77AC9C65,
+  0x2DE92C6F,
+  0x592B0275,
+  0x4A7484AA,
+  0x6EA6E483,
+  0x5CB0A9DC,
+  0xBD41FBD4,
+  0x76F988DA,
+  0x831153B5,
+  0x983E5152,
+  0xEE66DFAB,
+  0xA831C66D,
+  0x2DB43210,
+  0xB00327C8,
+  0x98FB213F,
+  0xBF597FC7,
+  0xBEEF0EE4,
+  0xC6E00BF3,
+  0x3DA88FC2,
+  0xD5A79147,
+  0x930AA725,
+  0x06CA6351,
+  0xE003826F,
+  0x14292967,
+  0x0A0E6E70,
+  0x27B70A85,
+  0x46D22FFC,
+  0x2E1B2138,
+  0x5C26C926,
+  0x4D2C6DFC,
+  0x5AC42AED,
+  0x53380D13,
+  0x9D95B3DF,
+  0x650A7354,
+  0x8BAF63DE,
+  0x766A0ABB,
+  0x3C77B2A8,
+  0x81C2C92E,
+  0x47EDAEE6,
+  0x92722C85,
+  0x1482353B,
+  0xA2BFE8A1,
+  0x4CF10364,
+  0xA81A664B,
+  0xBC423001,
+  0xC24B8B70,
+  0xD0F89791,
+  0xC76C51A3,
+  0x0654BE30,
+  0xD192E819,
+  0xD6EF5218,
+  0xD6990624,
+  0x5565A910,
+  0xF40E3585,
+  0x5771202A,
+  0x106AA070,
+  0x32BBD1B8,
+  0x19A4C116,
+  0xB8D2D0C8,
+  0x1E376C08,
+  0x5141AB53,
+  0x2748774C,
+  0xDF8EEB99,
+  0x34B0BCB5,
+  0xE19B48A8,
+  0x391C0CB3,
+  0xC5C95A63,
+  0x4ED8AA4A,
+  0xE3418ACB,
+  0x5B9CCA4F,
+  0x7763E373,
+  0x682E6FF3,
+  0xD6B2B8A3,
+  0x748F82EE,
+  0x5DEFB2FC,
+  0x78A5636F,
+  0x43172F60,
+  0x84C87814,
+  0xA1F0AB72,
+  0x8CC70208,
+  0x1A6439EC,
+  0x90BEFFFA,
+  0x23631E28,
+  0xA4506CEB,
+  0xDE82BDE9,
+  0xBEF9A3F7,
+  0xB2C67915,
+  0xC67178F2,
+  0xE372532B,
+  0xCA273ECE,
+  0xEA26619C,
+  0xD186B8C7,
+  0x21C0C207,
+  0xEADA7DD6,
+  0xCDE0EB1E,
+  0xF57D4F7F,
+  0xEE6ED178,
+  0x06F067AA,
+  0x72176FBA,
+  0x0A637DC5,
+  0xA2C898A6,
+  0x113F9804,
+  0xBEF90DAE,
+  0x1B710B35,
+  0x131C471B,
+  0x28DB77F5,
+  0x23047D84,
+  0x32CAAB7B,
+  0x40C72493,
+  0x3C9EBE0A,
+  0x15C9BEBC,
+  0x431D67C4,
+  0x9C100D4C,
+  0x4CC5D4BE,
+  0xCB3E42B6,
+  0x597F299C,
+  0xFC657E2A,
+  0x5FCB6FAB,
+  0x3AD6FAEC,
+  0x6C44198C,
+  0x4A475817,
+])
+
+const IV384 = [0xCBBB9D5D, 0xC1059ED8, 0x629A292A, 0x367CD507, 0x9159015A, 0x3070DD17, 0x152FECD8, 0xF70E5939, 0x67332667, 0xFFC00B31, 0x8EB44A87, 0x68581511, 0xDB0C2E0D, 0x64F98FA7, 0x47B5481D, 0xBEFA4FA4]
+const IV512 = [0x6A09E667, 0xF3BCC908, 0xBB67AE85, 0x84CAA73B, 0x3C6EF372, 0xFE94F82B, 0xA54FF53A, 0x5F1D36F1, 0x510E527F, 0xADE682D1, 0x9B05688C, 0x2B3E6C1F, 0x1F83D9AB, 0xFB41BD6B, 0x5BE0CD19, 0x137E2179]
+
+function sha512(data: Uint8Array, iv: number[], outputWords: number): Uint8Array {
+  const view = pad(data, 128, 16)
+  const h = new Uint32Array(iv)
+  const w = new Uint32Array(160)
+  const v = new Uint32Array(16)
+
+  // Right-rotations of a 64-bit word given as (hi, lo); `n` < 32 or 32 <= `n` < 64.
+  const rotrHi = (hi: number, lo: number, n: number): number => n < 32 ? (hi >>> n) | (lo << (32 - n)) : (lo >>> (n - 32)) | (hi << (64 - n))
+  const rotrLo = (hi: number, lo: number, n: number): number => n < 32 ? (lo >>> n) | (hi << (32 - n)) : (hi >>> (n - 32)) | (lo << (64 - n))
+
+  for (let offset = 0; offset < view.byteLength; offset += 128) {
+    for (let i = 0; i < 32; i++) {
+      w[i] = view.getUint32(offset + i * 4)
+    }
+
+    for (let i = 16; i < 80; i++) {
+      const xh = w[(i - 15) * 2]
+      const xl = w[(i - 15) * 2 + 1]
+      const s0h = rotrHi(xh, xl, 1) ^ rotrHi(xh, xl, 8) ^ (xh >>> 7)
+      const s0l = rotrLo(xh, xl, 1) ^ rotrLo(xh, xl, 8) ^ ((xl >>> 7) | (xh << 25))
+
+      const yh = w[(i - 2) * 2]
+      const yl = w[(i - 2) * 2 + 1]
+      const s1h = rotrHi(yh, yl, 19) ^ rotrHi(yh, yl, 61) ^ (yh >>> 6)
+      const s1l = rotrLo(yh, yl, 19) ^ rotrLo(yh, yl, 61) ^ ((yl >>> 6) | (yh << 26))
+
+      // w[i] = w[i - 16] + s0 + w[i - 7] + s1, with carries from the low halves.
+      const lo = (w[(i - 16) * 2 + 1] >>> 0) + (s0l >>> 0) + (w[(i - 7) * 2 + 1] >>> 0) + (s1l >>> 0)
+      const hi = w[(i - 16) * 2] + s0h + w[(i - 7) * 2] + s1h + Math.floor(lo / 0x100000000)
+      w[i * 2] = hi
+      w[i * 2 + 1] = lo
+    }
+
+    v.set(h)
+
+    for (let i = 0; i < 80; i++) {
+      const [ah, al, bh, bl, ch, cl, dh, dl, eh, el, fh, fl, gh, gl, hh, hl] = v
+
+      const S1h = rotrHi(eh, el, 14) ^ rotrHi(eh, el, 18) ^ rotrHi(eh, el, 41)
+      const S1l = rotrLo(eh, el, 14) ^ rotrLo(eh, el, 18) ^ rotrLo(eh, el, 41)
+      const chh = (eh & fh) ^ (~eh & gh)
+      const chl = (el & fl) ^ (~el & gl)
+
+      const t1l = (hl >>> 0) + (S1l >>> 0) + (chl >>> 0) + K512[i * 2 + 1] + w[i * 2 + 1]
+      const t1h = hh + S1h + chh + K512[i * 2] + w[i * 2] + Math.floor(t1l / 0x100000000)
+
+      const S0h = rotrHi(ah, al, 28) ^ rotrHi(ah, al, 34) ^ rotrHi(ah, al, 39)
+      const S0l = rotrLo(ah, al, 28) ^ rotrLo(ah, al, 34) ^ rotrLo(ah, al, 39)
+      const majh = (ah & bh) ^ (ah & ch) ^ (bh & ch)
+      const majl = (al & bl) ^ (al & cl) ^ (bl & cl)
+
+      const t2l = (S0l >>> 0) + (majl >>> 0)
+      const t2h = S0h + majh + Math.floor(t2l / 0x100000000)
+
+      const newEl = (dl >>> 0) + (t1l >>> 0)
+      const newAl = (t1l >>> 0) + (t2l >>> 0)
+
+      v[15] = gl
+      v[14] = gh
+      v[13] = fl
+      v[12] = fh
+      v[11] = el
+      v[10] = eh
+      v[9] = newEl
+      v[8] = dh + t1h + Math.floor(newEl / 0x100000000)
+      v[7] = cl
+      v[6] = ch
+      v[5] = bl
+      v[4] = bh
+      v[3] = al
+      v[2] = ah
+      v[1] = newAl
+      v[0] = t1h + t2h + Math.floor(newAl / 0x100000000)
+    }
+
+    for (let i = 0; i < 16; i += 2) {
+      const lo = h[i + 1] + v[i + 1]
+      h[i] = h[i] + v[i] + Math.floor(lo / 0x100000000)
+      h[i + 1] = lo
+    }
+  }
+
+  return words32ToBytes(h.subarray(0, outputWords))
+}
+
+// =============================================================================
+// PUBLIC FUNCTIONS
+// =============================================================================
+
+/** The block size in bytes of each algorithm, as used by HMAC. */
+const BLOCK_SIZES: Record<HashAlgorithm, number> = {
+  sha1: 64,
+  sha256: 64,
+  sha384: 128,
+  sha512: 128,
+}
+
+/**
+ * Computes a message digest.
+ *
+ * @param algorithm The hash algorithm.
+ * @param data The message.
+ * @returns The digest bytes.
+ * @throws {Error} If the algorithm is unknown.
+ */
+export function digest(algorithm: HashAlgorithm, data: Uint8Array): Uint8Array {
+  switch (algorithm) {
+    case 'sha1':
+      return sha1(data)
+    case 'sha256':
+      return sha256(data)
+    case 'sha384':
+      return sha512(data, IV384, 12)
+    case 'sha512':
+      return sha512(data, IV512, 16)
+    default:
+      throw new Error(`unsupported hash algorithm: ${algorithm}`)
+  }
+}
+
+/**
+ * Computes an HMAC (RFC 2104).
+ *
+ * @param algorithm The underlying hash algorithm.
+ * @param key The secret key.
+ * @param data The message.
+ * @returns The MAC bytes.
+ */
+export function hmacDigest(algorithm: HashAlgorithm, key: Uint8Array, data: Uint8Array): Uint8Array {
+  const blockSize = BLOCK_SIZES[algorithm]
+  if (blockSize === undefined) {
+    throw new Error(`unsupported hash algorithm: ${algorithm}`)
+  }
+
+  const block = new Uint8Array(blockSize)
+  block.set(key.length > blockSize ? digest(algorithm, key) : key)
+
+  const inner = new Uint8Array(blockSize + data.length)
+  const outerPad = new Uint8Array(blockSize)
+
+  for (let i = 0; i < blockSize; i++) {
+    inner[i] = block[i] ^ 0x36
+    outerPad[i] = block[i] ^ 0x5C
+  }
+
+  inner.set(data, blockSize)
+  const innerDigest = digest(algorithm, inner)
+
+  const outer = new Uint8Array(blockSize + innerDigest.length)
+  outer.set(outerPad)
+  outer.set(innerDigest, blockSize)
+
+  return digest(algorithm, outer)
+}
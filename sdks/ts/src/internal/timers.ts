@@ -0,0 +1,165 @@
+/**
+ * @file Provides polyfills for `queueMicrotask` and the `setTimeout` family of
+ * timers.
+ *
+ * Javy/QuickJS has no event loop of its own: the host simply drains the job
+ * (promise) queue until it is empty. Timers are therefore driven from that
+ * queue. While any timer is pending, a "pump" job re-queues itself and runs at
+ * most one due timer per turn, so promise callbacks scheduled by one timer run
+ * before the next timer fires, as with a native event loop. The pump cannot see
+ * when the queue is otherwise idle, though: a long chain of promise callbacks
+ * may interleave with timer callbacks instead of completing before them.
+ *
+ * The pump polls the clock, so it keeps the CPU busy until the last timer has
+ * fired. Prefer short delays, and always clear intervals: an interval that is
+ * never cleared keeps the execution alive until the host terminates it.
+ */
+
+interface Timer {
+  args: any[]
+  callback: (...args: any[]) => void
+  due: number
+  generation: number
+  id: number
+  interval?: number
+}
+
+/** Pending timers, keyed by ID. */
+const timers = new Map<number, Timer>()
+
+let nextId = 1
+let pumping = false
+
+/**
+ * Counts pump turns. A timer may first fire two turns after the one it was
+ * created in, so that promise callbacks queued by the code that created it
+ * (which are queued behind the next turn) still run before it, as they would
+ * before any native timer.
+ */
+let generation = 0
+
+/** Reports an exception thrown by a callback without interrupting other callbacks. */
+function report(error: unknown): void {
+  console.error('Uncaught exception in timer callback:', error)
+}
+
+/** Runs the earliest due timer, if any, then re-queues itself while timers remain. */
+function pump(): void {
+  if (timers.size === 0) {
+    pumping = false
+    return
+  }
+
+  const now = Date.now()
+  let next: Timer | undefined
+  generation++
+
+  for (const timer of timers.values()) {
+    if (timer.due <= now && timer.generation + 2 <= generation && (!next || timer.due < next.due)) {
+      next = timer
+    }
+  }
+
+  if (next) {
+    if (next.interval === undefined) {
+      timers.delete(next.id)
+    }
+    else {
+      next.due = now + next.interval
+      next.generation = generation
+    }
+
+    try {
+      next.callback(...next.args)
+    }
+    catch (error) {
+      report(error)
+    }
+  }
+
+  Promise.resolve().then(pump)
+}
+
+function schedule(callback: unknown, delay: unknown, args: any[], repeat: boolean): number {
+  if (typeof callback !== 'function') {
+    throw new TypeError('The "callback" argument must be a function; string callbacks are not supported.')
+  }
+
+  const ms = Math.max(0, Number(delay) || 0)
+  const id = nextId++
+
+  timers.set(id, {
+    args,
+    callback: callback as (...args: any[]) => void,
+    due: Date.now() + ms,
+    generation,
+    id,
+    interval: repeat ? ms : undefined,
+  })
+
+  if (!pumping) {
+    pumping = true
+    Promise.resolve().then(pump)
+  }
+
+  return id
+}
+
+/**
+ * Cancels a timer created by `setTimeout` or `setInterval`. Unknown IDs are ignored.
+ *
+ * @param id The timer ID.
+ */
+export function clearTimeout(id?: number): void {
+  if (id !== undefined) {
+    timers.delete(Number(id))
+  }
+}
+
+/** Alias of `clearTimeout`; both kinds of timers share one ID space, as in browsers. */
+export const clearInterval = clearTimeout
+
+/**
+ * Queues a callback on the microtask queue. An exception thrown by the
+ * callback is reported rather than turned into a rejected promise.
+ *
+ * @param callback The function to run.
+ */
+export function queueMicrotask(callback: () => void): void {
+  if (typeof callback !== 'function') {
+    throw new TypeError('The "callback" argument must be a function.')
+  }
+
+  Promise.resolve().then(() => {
+    try {
+      callback()
+    }
+    catch (error) {
+      report(error)
+    }
+  })
+}
+
+/**
+ * Calls a function repeatedly, every `delay` milliseconds, until cleared.
+ *
+ * @param callback The function to call.
+ * @param delay The interval in milliseconds.
+ * @param args Arguments passed to the callback.
+ * @returns The timer ID.
+ */
+export function setInterval(callback: (...args: any[]) => void, delay?: number, ...args: any[]): number {
+  return schedule(callback, delay, args, true)
+}
+
+/**
+ * Calls a function once, after `delay` milliseconds.
+ *
+ * @param callback The function to call.
+ * @param delay The delay in milliseconds.
+ * @param args Arguments passed to the callback.
+ * @returns The timer ID.
+ */
+export function setTimeout(callback: (...args: any[]) => void, delay?: number, ...args: any[]): number {
+  return schedule(callback, delay, args, false)
+}
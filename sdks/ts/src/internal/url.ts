@@ -0,0 +1,1418 @@
+/**
+ * @file Provides polyfills for `URL` and `URLSearchParams`, following the
+ * WHATWG URL Standard (https://url.spec.whatwg.org/).
+ *
+ * The parser is a direct implementation of the standard's state machine,
+ * including relative resolution, dot-segment removal, IPv4/IPv6 host parsing,
+ * Windows drive letters in `file:` URLs and the standard's percent-encode sets.
+ * Internationalized domain names are lower-cased, NFC-normalized and
+ * Punycode-encoded; the full UTS #46 mapping table is not included.
+ */
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+/** The components of a parsed URL, as defined by the URL Standard. */
+interface URLRecord {
+  fragment: null | string
+  host: null | string
+  password: string
+  /** A list of segments, or a single string for URLs with an opaque path. */
+  path: string | string[]
+  port: null | number
+  query: null | string
+  scheme: string
+  username: string
+}
+
+type State
+  = | 'authority'
+    | 'file'
+    | 'file host'
+    | 'file slash'
+    | 'fragment'
+    | 'host'
+    | 'no scheme'
+    | 'opaque path'
+    | 'path'
+    | 'path or authority'
+    | 'path start'
+    | 'port'
+    | 'query'
+    | 'relative'
+    | 'relative slash'
+    | 'scheme'
+    | 'scheme start'
+    | 'special authority ignore slashes'
+    | 'special authority slashes'
+    | 'special relative or authority'
+
+/** The special schemes and their default ports. */
+const SPECIAL_SCHEMES: Record<string, null | number> = {
+  file: null,
+  ftp: 21,
+  http: 80,
+  https: 443,
+  ws: 80,
+  wss: 443,
+}
+
+/** The end-of-input marker of the parser. */
+const EOF = -1
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// ============================================================================
+// Code Point Helpers
+// ============================================================================
+
+const isASCIIDigit = (c: number): boolean => c >= 0x30 && c <= 0x39
+const isASCIIAlpha = (c: number): boolean => (c >= 0x41 && c <= 0x5A) || (c >= 0x61 && c <= 0x7A)
+const isASCIIAlphanumeric = (c: number): boolean => isASCIIAlpha(c) || isASCIIDigit(c)
+const isASCIIHexDigit = (c: number): boolean => isASCIIDigit(c) || (c >= 0x41 && c <= 0x46) || (c >= 0x61 && c <= 0x66)
+
+const inC0ControlSet = (c: number): boolean => c <= 0x1F || c > 0x7E
+const inFragmentSet = (c: number): boolean => inC0ControlSet(c) || c === 0x20 || c === 0x22 || c === 0x3C || c === 0x3E || c === 0x60
+const inQuerySet = (c: number): boolean => inC0ControlSet(c) || c === 0x20 || c === 0x22 || c === 0x23 || c === 0x3C || c === 0x3E
+const inSpecialQuerySet = (c: number): boolean => inQuerySet(c) || c === 0x27
+const inPathSet = (c: number): boolean => inQuerySet(c) || c === 0x3F || c === 0x60 || c === 0x7B || c === 0x7D
+const inUserinfoSet = (c: number): boolean => inPathSet(c) || c === 0x2F || c === 0x3A || c === 0x3B || c === 0x3D || c === 0x40 || (c >= 0x5B && c <= 0x5E) || c === 0x7C
+
+function isForbiddenHostCodePoint(c: number): boolean {
+  return c === 0x00 || c === 0x09 || c === 0x0A || c === 0x0D || c === 0x20 || c === 0x23 || c === 0x2F || c === 0x3A
+    || c === 0x3C || c === 0x3E || c === 0x3F || c === 0x40 || c === 0x5B || c === 0x5C || c === 0x5D || c === 0x5E || c === 0x7C
+}
+
+const isForbiddenDomainCodePoint = (c: number): boolean => isForbiddenHostCodePoint(c) || c <= 0x1F || c === 0x25 || c === 0x7F
+
+/** Splits a string into code points, replacing lone surrogates with U+FFFD. */
+function codePoints(input: string): number[] {
+  return Array.from(input, (char) => {
+    const c = char.codePointAt(0)!
+    return c >= 0xD800 && c <= 0xDFFF ? 0xFFFD : c
+  })
+}
+
+function percentEncode(c: number, inSet: (c: number) => boolean): string {
+  if (!inSet(c)) {
+    return String.fromCodePoint(c)
+  }
+
+  let output = ''
+  for (const byte of encoder.encode(String.fromCodePoint(c))) {
+    output += `%${byte.toString(16).toUpperCase().padStart(2, '0')}`
+  }
+
+  return output
+}
+
+/** Decodes `%XX` escapes into bytes, leaving malformed escapes as they are. */
+function percentDecode(input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(input.length)
+  let length = 0
+
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === 0x25 && i + 2 < input.length && isASCIIHexDigit(input[i + 1]) && isASCIIHexDigit(input[i + 2])) {
+      output[length++] = Number.parseInt(String.fromCharCode(input[i + 1], input[i + 2]), 16)
+      i += 2
+    }
+    else {
+      output[length++] = input[i]
+    }
+  }
+
+  return output.subarray(0, length)
+}
+
+// ============================================================================
+// Host Parsing
+// ============================================================================
+
+/** Encodes a single domain label with Punycode (RFC 3492). */
+function punycode(label: string): string {
+  const input = codePoints(label)
+  const base = 36
+  let output = input.filter(c => c < 0x80).map(c => String.fromCharCode(c)).join('')
+  const basicLength = output.length
+  let handled = basicLength
+
+  if (basicLength > 0) {
+    output += '-'
+  }
+
+  const digit = (d: number): string => String.fromCharCode(d + 22 + 75 * Number(d < 26))
+  const adapt = (delta: number, points: number, first: boolean): number => {
+    delta = first ? Math.floor(delta / 700) : delta >> 1
+    delta += Math.floor(delta / points)
+
+    let k = 0
+    while (delta > ((base - 1) * 26) >> 1) {
+      delta = Math.floor(delta / (base - 1))
+      k += base
+    }
+
+    return k + Math.floor(((base - 1 + 1) * delta) / (delta + 38))
+  }
+
+  let n = 0x80
+  let delta = 0
+  let bias = 72
+
+  while (handled < input.length) {
+    const m = Math.min(...input.filter(c => c >= n))
+    delta += (m - n) * (handled + 1)
+    n = m
+
+    for (const c of input) {
+      if (c < n) {
+        delta++
+      }
+
+      if (c === n) {
+        let q = delta
+        for (let k = base; ; k += base) {
+          const t = k <= bias ? 1 : k >= bias + 26 ? 26 : k - bias
+          if (q < t) {
+            break
+          }
+
+          output += digit(t + ((q - t) % (base - t)))
+          q = Math.floor((q - t) / (base - t))
+        }
+
+        output += digit(q)
+        bias = adapt(delta, handled + 1, handled === basicLength)
+        delta = 0
+        handled++
+      }
+    }
+
+    delta++
+    n++
+  }
+
+  return output
+}
+
+function domainToASCII(domain: string): string {
+  const lower = domain.normalize('NFC').toLowerCase()
+  if (!/[^\0-\x7F]/.test(lower)) {
+    return lower
+  }
+
+  return lower
+    .split('.')
+    .map(label => /[^\0-\x7F]/.test(label) ? `xn--${punycode(label)}` : label)
+    .join('.')
+}
+
+/** Parses one part of an IPv4 address. Returns `null` if it is not a number. */
+function parseIPv4Number(input: string): null | number {
+  if (input === '') {
+    return null
+  }
+
+  let radix = 10
+  if (/^0x/i.test(input)) {
+    input = input.slice(2)
+    radix = 16
+  }
+  else if (input.length > 1 && input[0] === '0') {
+    input = input.slice(1)
+    radix = 8
+  }
+
+  if (input === '') {
+    return 0
+  }
+
+  const pattern = radix === 10 ? /^\d+$/ : radix === 16 ? /^[0-9a-f]+$/i : /^[0-7]+$/
+  return pattern.test(input) ? Number.parseInt(input, radix) : null
+}
+
+function endsInANumber(input: string): boolean {
+  const parts = input.split('.')
+  if (parts[parts.length - 1] === '') {
+    if (parts.length === 1) {
+      return false
+    }
+
+    parts.pop()
+  }
+
+  const last = parts[parts.length - 1]
+  return /^\d+$/.test(last) || parseIPv4Number(last) !== null
+}
+
+function parseIPv4(input: string): string {
+  const parts = input.split('.')
+  if (parts[parts.length - 1] === '' && parts.length > 1) {
+    parts.pop()
+  }
+
+  if (parts.length > 4) {
+    throw invalidURL()
+  }
+
+  const numbers = parts.map((part) => {
+    const n = parseIPv4Number(part)
+    if (n === null) {
+      throw invalidURL()
+    }
+
+    return n
+  })
+
+  if (numbers.slice(0, -1).some(n => n > 255) || numbers[numbers.length - 1] >= 256 ** (5 - numbers.length)) {
+    throw invalidURL()
+  }
+
+  let ipv4 = numbers[numbers.length - 1]
+  numbers.slice(0, -1).forEach((n, i) => {
+    ipv4 += n * 256 ** (3 - i)
+  })
+
+  return [24, 16, 8, 0].map(shift => Math.floor(ipv4 / 2 ** shift) % 256).join('.')
+}
+
+function parseIPv6(input: number[]): string {
+  const address = [0, 0, 0, 0, 0, 0, 0, 0]
+  let pieceIndex = 0
+  let compress: null | number = null
+  let pointer = 0
+  const at = (i: number): number => i < input.length ? input[i] : EOF
+
+  if (at(pointer) === 0x3A) {
+    if (at(pointer + 1) !== 0x3A) {
+      throw invalidURL()
+    }
+
+    pointer += 2
+    compress = ++pieceIndex
+  }
+
+  while (at(pointer) !== EOF) {
+    if (pieceIndex === 8) {
+      throw invalidURL()
+    }
+
+    if (at(pointer) === 0x3A) {
+      if (compress !== null) {
+        throw invalidURL()
+      }
+
+      pointer++
+      compress = ++pieceIndex
+      continue
+    }
+
+    let value = 0
+    let length = 0
+    while (length < 4 && isASCIIHexDigit(at(pointer))) {
+      value = value * 0x10 + Number.parseInt(String.fromCharCode(at(pointer)), 16)
+      pointer++
+      length++
+    }
+
+    if (at(pointer) === 0x2E) {
+      // An embedded IPv4 address fills the last two pieces.
+      if (length === 0) {
+        throw invalidURL()
+      }
+
+      pointer -= length
+
+      if (pieceIndex > 6) {
+        throw invalidURL()
+      }
+
+      let numbersSeen = 0
+      while (at(pointer) !== EOF) {
+        let ipv4Piece: null | number = null
+
+        if (numbersSeen > 0) {
+          if (at(pointer) === 0x2E && numbersSeen < 4) {
+            pointer++
+          }
+          else {
+            throw invalidURL()
+          }
+        }
+
+        if (!isASCIIDigit(at(pointer))) {
+          throw invalidURL()
+        }
+
+        while (isASCIIDigit(at(pointer))) {
+          const number = at(pointer) - 0x30
+          if (ipv4Piece === null) {
+            ipv4Piece = number
+          }
+          else if (ipv4Piece === 0) {
+            throw invalidURL()
+          }
+          else {
+            ipv4Piece = ipv4Piece * 10 + number
+          }
+
+          if (ipv4Piece > 255) {
+            throw invalidURL()
+          }
+
+          pointer++
+        }
+
+        address[pieceIndex] = address[pieceIndex] * 0x100 + ipv4Piece!
+        numbersSeen++
+
+        if (numbersSeen === 2 || numbersSeen === 4) {
+          pieceIndex++
+        }
+      }
+
+      if (numbersSeen !== 4) {
+        throw invalidURL()
+      }
+
+      break
+    }
+    else if (at(pointer) === 0x3A) {
+      pointer++
+      if (at(pointer) === EOF) {
+        throw invalidURL()
+      }
+    }
+    else if (at(pointer) !== EOF) {
+      throw invalidURL()
+    }
+
+    address[pieceIndex++] = value
+  }
+
+  if (compress !== null) {
+    let swaps = pieceIndex - compress
+    pieceIndex = 7
+    while (pieceIndex !== 0 && swaps > 0) {
+      const swap = address[compress + swaps - 1]
+      address[compress + swaps - 1] = address[pieceIndex]
+      address[pieceIndex] = swap
+      pieceIndex--
+      swaps--
+    }
+  }
+  else if (pieceIndex !== 8) {
+    throw invalidURL()
+  }
+
+  return serializeIPv6(address)
+}
+
+function serializeIPv6(address: number[]): string {
+  // Compress the first longest run of two or more zero pieces.
+  let compress = -1
+  let longest = 1
+  for (let i = 0; i < 8;) {
+    let j = i
+    while (j < 8 && address[j] === 0) {
+      j++
+    }
+
+    if (j - i > longest) {
+      compress = i
+      longest = j - i
+    }
+
+    i = j === i ? i + 1 : j
+  }
+
+  let output = ''
+  let ignore0 = false
+  for (let i = 0; i < 8; i++) {
+    if (ignore0 && address[i] === 0) {
+      continue
+    }
+
+    ignore0 = false
+
+    if (compress === i) {
+      output += i === 0 ? '::' : ':'
+      ignore0 = true
+      continue
+    }
+
+    output += address[i].toString(16)
+    if (i !== 7) {
+      output += ':'
+    }
+  }
+
+  return `[${output}]`
+}
+
+function parseHost(input: string, isOpaque: boolean): string {
+  if (input.startsWith('[')) {
+    if (!input.endsWith(']')) {
+      throw invalidURL()
+    }
+
+    return parseIPv6(codePoints(input.slice(1, -1)))
+  }
+
+  if (isOpaque) {
+    const points = codePoints(input)
+    if (points.some(isForbiddenHostCodePoint)) {
+      throw invalidURL()
+    }
+
+    return points.map(c => percentEncode(c, inC0ControlSet)).join('')
+  }
+
+  const domain = decoder.decode(percentDecode(encoder.encode(input)))
+  const asciiDomain = domainToASCII(domain)
+
+  if (asciiDomain === '' || codePoints(asciiDomain).some(isForbiddenDomainCodePoint)) {
+    throw invalidURL()
+  }
+
+  return endsInANumber(asciiDomain) ? parseIPv4(asciiDomain) : asciiDomain
+}
+
+// ============================================================================
+// The Basic URL Parser
+// ============================================================================
+
+function invalidURL(): TypeError {
+  return new TypeError('Invalid URL')
+}
+
+const isSpecial = (url: URLRecord): boolean => url.scheme in SPECIAL_SCHEMES
+const hasOpaquePath = (url: URLRecord): boolean => typeof url.path === 'string'
+
+const isWindowsDriveLetter = (s: string): boolean => /^[a-z][:|]$/i.test(s)
+const isNormalizedWindowsDriveLetter = (s: string): boolean => /^[a-z]:$/i.test(s)
+function startsWithWindowsDriveLetter(s: number[], i: number): boolean {
+  return s.length - i >= 2
+    && isASCIIAlpha(s[i])
+    && (s[i + 1] === 0x3A || s[i + 1] === 0x7C)
+    && (s.length - i === 2 || [0x2F, 0x5C, 0x3F, 0x23].includes(s[i + 2]))
+}
+
+const isSingleDot = (s: string): boolean => s === '.' || s.toLowerCase() === '%2e'
+const isDoubleDot = (s: string): boolean => ['..', '.%2e', '%2e.', '%2e%2e'].includes(s.toLowerCase())
+
+function shortenPath(url: URLRecord): void {
+  const path = url.path as string[]
+  if (url.scheme === 'file' && path.length === 1 && isNormalizedWindowsDriveLetter(path[0])) {
+    return
+  }
+
+  path.pop()
+}
+
+function copyRecord(url: URLRecord): URLRecord {
+  return { ...url, path: Array.isArray(url.path) ? [...url.path] : url.path }
+}
+
+/**
+ * Runs the basic URL parser. With a `stateOverride`, it instead updates one
+ * component of an existing record, as the URL setters do.
+ */
+function parseURL(input: string, base: null | URLRecord, url?: URLRecord, stateOverride?: 'fragment' | 'path start' | 'query'): URLRecord {
+  if (!url) {
+    url = { fragment: null, host: null, password: '', path: [], port: null, query: null, scheme: '', username: '' }
+    input = input.replace(/^[\0-\x20]+|[\0-\x20]+$/g, '')
+  }
+
+  const points = codePoints(input.replace(/[\t\n\r]/g, ''))
+
+  let state: State = stateOverride ?? 'scheme start'
+  let buffer = ''
+  let atSignSeen = false
+  let insideBrackets = false
+  let passwordTokenSeen = false
+
+  for (let pointer = 0; pointer <= points.length; pointer++) {
+    const c = pointer < points.length ? points[pointer] : EOF
+    const char = c === EOF ? '' : String.fromCodePoint(c)
+    const special = isSpecial(url)
+    const isSlash = c === 0x2F || (special && c === 0x5C)
+    const remaining = (offset: number): number => pointer + offset < points.length ? points[pointer + offset] : EOF
+
+    switch (state) {
+      case 'scheme start':
+        if (isASCIIAlpha(c)) {
+          buffer += char.toLowerCase()
+          state = 'scheme'
+        }
+        else {
+          state = 'no scheme'
+          pointer--
+        }
+        break
+
+      case 'scheme':
+        if (isASCIIAlphanumeric(c) || c === 0x2B || c === 0x2D || c === 0x2E) {
+          buffer += char.toLowerCase()
+        }
+        else if (c === 0x3A) {
+          url.scheme = buffer
+          buffer = ''
+
+          if (url.scheme === 'file') {
+            state = 'file'
+          }
+          else if (isSpecial(url) && base?.scheme === url.scheme) {
+            state = 'special relative or authority'
+          }
+          else if (isSpecial(url)) {
+            state = 'special authority slashes'
+          }
+          else if (remaining(1) === 0x2F) {
+            state = 'path or authority'
+            pointer++
+          }
+          else {
+            url.path = ''
+            state = 'opaque path'
+          }
+        }
+        else {
+          buffer = ''
+          state = 'no scheme'
+          pointer = -1
+        }
+        break
+
+      case 'no scheme':
+        if (!base || (hasOpaquePath(base) && c !== 0x23)) {
+          throw invalidURL()
+        }
+        else if (hasOpaquePath(base) && c === 0x23) {
+          url.scheme = base.scheme
+          url.path = base.path
+          url.query = base.query
+          url.fragment = ''
+          state = 'fragment'
+        }
+        else {
+          state = base.scheme === 'file' ? 'file' : 'relative'
+          pointer--
+        }
+        break
+
+      case 'special relative or authority':
+        if (c === 0x2F && remaining(1) === 0x2F) {
+          state = 'special authority ignore slashes'
+          pointer++
+        }
+        else {
+          state = 'relative'
+          pointer--
+        }
+        break
+
+      case 'path or authority':
+        if (c === 0x2F) {
+          state = 'authority'
+        }
+        else {
+          state = 'path'
+          pointer--
+        }
+        break
+
+      case 'relative':
+        url.scheme = base!.scheme
+        if (isSlash) {
+          state = 'relative slash'
+        }
+        else {
+          Object.assign(url, { host: base!.host, password: base!.password, path: [...base!.path], port: base!.port, query: base!.query, username: base!.username })
+          if (c === 0x3F) {
+            url.query = ''
+            state = 'query'
+          }
+          else if (c === 0x23) {
+            url.fragment = ''
+            state = 'fragment'
+          }
+          else if (c !== EOF) {
+            url.query = null
+            shortenPath(url)
+            state = 'path'
+            pointer--
+          }
+        }
+        break
+
+      case 'relative slash':
+        if (special && (c === 0x2F || c === 0x5C)) {
+          state = 'special authority ignore slashes'
+        }
+        else if (c === 0x2F) {
+          state = 'authority'
+        }
+        else {
+          Object.assign(url, { host: base!.host, password: base!.password, port: base!.port, username: base!.username })
+          state = 'path'
+          pointer--
+        }
+        break
+
+      case 'special authority slashes':
+        state = 'special authority ignore slashes'
+        if (c === 0x2F && remaining(1) === 0x2F) {
+          pointer++
+        }
+        else {
+          pointer--
+        }
+        break
+
+      case 'special authority ignore slashes':
+        if (c !== 0x2F && c !== 0x5C) {
+          state = 'authority'
+          pointer--
+        }
+        break
+
+      case 'authority':
+        if (c === 0x40) {
+          if (atSignSeen) {
+            buffer = `%40${buffer}`
+          }
+
+          atSignSeen = true
+
+          for (const bc of codePoints(buffer)) {
+            if (bc === 0x3A && !passwordTokenSeen) {
+              passwordTokenSeen = true
+              continue
+            }
+
+            const encoded = percentEncode(bc, inUserinfoSet)
+            if (passwordTokenSeen) {
+              url.password += encoded
+            }
+            else {
+              url.username += encoded
+            }
+          }
+
+          buffer = ''
+        }
+        else if (c === EOF || isSlash || c === 0x3F || c === 0x23) {
+          if (atSignSeen && buffer === '') {
+            throw invalidURL()
+          }
+
+          pointer -= codePoints(buffer).length + 1
+          buffer = ''
+          state = 'host'
+        }
+        else {
+          buffer += char
+        }
+        break
+
+      case 'host':
+        if (c === 0x3A && !insideBrackets) {
+          if (buffer === '') {
+            throw invalidURL()
+          }
+
+          url.host = parseHost(buffer, !special)
+          buffer = ''
+          state = 'port'
+        }
+        else if (c === EOF || isSlash || c === 0x3F || c === 0x23) {
+          pointer--
+          if (special && buffer === '') {
+            throw invalidURL()
+          }
+
+          url.host = parseHost(buffer, !special)
+          buffer = ''
+          state = 'path start'
+        }
+        else {
+          if (c === 0x5B) {
+            insideBrackets = true
+          }
+          else if (c === 0x5D) {
+            insideBrackets = false
+          }
+
+          buffer += char
+        }
+        break
+
+      case 'port':
+        if (isASCIIDigit(c)) {
+          buffer += char
+        }
+        else if (c === EOF || isSlash || c === 0x3F || c === 0x23) {
+          if (buffer !== '') {
+            const port = Number.parseInt(buffer, 10)
+            if (port > 65535) {
+              throw invalidURL()
+            }
+
+            url.port = SPECIAL_SCHEMES[url.scheme] === port ? null : port
+            buffer = ''
+          }
+
+          state = 'path start'
+          pointer--
+        }
+        else {
+          throw invalidURL()
+        }
+        break
+
+      case 'file':
+        url.scheme = 'file'
+        url.host = ''
+
+        if (c === 0x2F || c === 0x5C) {
+          state = 'file slash'
+        }
+        else if (base?.scheme === 'file') {
+          url.host = base.host
+          url.path = [...base.path]
+          url.query = base.query
+
+          if (c === 0x3F) {
+            url.query = ''
+            state = 'query'
+          }
+          else if (c === 0x23) {
+            url.fragment = ''
+            state = 'fragment'
+          }
+          else if (c !== EOF) {
+            url.query = null
+            if (!startsWithWindowsDriveLetter(points, pointer)) {
+              shortenPath(url)
+            }
+            else {
+              url.path = []
+            }
+
+            state = 'path'
+            pointer--
+          }
+        }
+        else {
+          state = 'path'
+          pointer--
+        }
+        break
+
+      case 'file slash':
+        if (c === 0x2F || c === 0x5C) {
+          state = 'file host'
+        }
+        else {
+          if (base?.scheme === 'file') {
+            url.host = base.host
+            if (!startsWithWindowsDriveLetter(points, pointer) && isNormalizedWindowsDriveLetter(base.path[0] ?? '')) {
+              (url.path as string[]).push(base.path[0])
+            }
+          }
+
+          state = 'path'
+          pointer--
+        }
+        break
+
+      case 'file host':
+        if (c === EOF || c === 0x2F || c === 0x5C || c === 0x3F || c === 0x23) {
+          pointer--
+
+          if (isWindowsDriveLetter(buffer)) {
+            // The buffer is kept: it becomes the first path segment.
+            state = 'path'
+          }
+          else if (buffer === '') {
+            url.host = ''
+            state = 'path start'
+          }
+          else {
+            const host = parseHost(buffer, !special)
+            url.host = host === 'localhost' ? '' : host
+            buffer = ''
+            state = 'path start'
+          }
+        }
+        else {
+          buffer += char
+        }
+        break
+
+      case 'path start':
+        if (special) {
+          state = 'path'
+          if (c !== 0x2F && c !== 0x5C) {
+            pointer--
+          }
+        }
+        else if (!stateOverride && c === 0x3F) {
+          url.query = ''
+          state = 'query'
+        }
+        else if (!stateOverride && c === 0x23) {
+          url.fragment = ''
+          state = 'fragment'
+        }
+        else if (c !== EOF) {
+          state = 'path'
+          if (c !== 0x2F) {
+            pointer--
+          }
+        }
+        else if (stateOverride && url.host === null) {
+          (url.path as string[]).push('')
+        }
+        break
+
+      case 'path':
+        if (c === EOF || isSlash || (!stateOverride && (c === 0x3F || c === 0x23))) {
+          const path = url.path as string[]
+
+          if (isDoubleDot(buffer)) {
+            shortenPath(url)
+            if (!isSlash) {
+              path.push('')
+            }
+          }
+          else if (isSingleDot(buffer) && !isSlash) {
+            path.push('')
+          }
+          else if (!isSingleDot(buffer)) {
+            if (url.scheme === 'file' && path.length === 0 && isWindowsDriveLetter(buffer)) {
+              buffer = `${buffer[0]}:`
+            }
+
+            path.push(buffer)
+          }
+
+          buffer = ''
+
+          if (c === 0x3F) {
+            url.query = ''
+            state = 'query'
+          }
+          else if (c === 0x23) {
+            url.fragment = ''
+            state = 'fragment'
+          }
+        }
+        else {
+          buffer += percentEncode(c, inPathSet)
+        }
+        break
+
+      case 'opaque path':
+        if (c === 0x3F) {
+          url.query = ''
+          state = 'query'
+        }
+        else if (c === 0x23) {
+          url.fragment = ''
+          state = 'fragment'
+        }
+        else if (c !== EOF) {
+          url.path += percentEncode(c, inC0ControlSet)
+        }
+        break
+
+      case 'query':
+        if ((!stateOverride && c === 0x23) || c === EOF) {
+          url.query += codePoints(buffer).map(bc => percentEncode(bc, special ? inSpecialQuerySet : inQuerySet)).join('')
+          buffer = ''
+
+          if (c === 0x23) {
+            url.fragment = ''
+            state = 'fragment'
+          }
+        }
+        else {
+          buffer += char
+        }
+        break
+
+      case 'fragment':
+        if (c !== EOF) {
+          url.fragment += percentEncode(c, inFragmentSet)
+        }
+        break
+    }
+  }
+
+  return url
+}
+
+function serializePath(url: URLRecord): string {
+  return typeof url.path === 'string' ? url.path : url.path.map(segment => `/${segment}`).join('')
+}
+
+function serializeURL(url: URLRecord, excludeFragment = false): string {
+  let output = `${url.scheme}:`
+
+  if (url.host !== null) {
+    output += '//'
+
+    if (url.username !== '' || url.password !== '') {
+      output += url.username
+      if (url.password !== '') {
+        output += `:${url.password}`
+      }
+
+      output += '@'
+    }
+
+    output += url.host
+    if (url.port !== null) {
+      output += `:${url.port}`
+    }
+  }
+  else if (Array.isArray(url.path) && url.path.length > 1 && url.path[0] === '') {
+    output += '/.'
+  }
+
+  output += serializePath(url)
+
+  if (url.query !== null) {
+    output += `?${url.query}`
+  }
+
+  if (!excludeFragment && url.fragment !== null) {
+    output += `#${url.fragment}`
+  }
+
+  return output
+}
+
+// ============================================================================
+// application/x-www-form-urlencoded
+// ============================================================================
+
+function parseFormEncoded(input: string): [string, string][] {
+  const decode = (s: string): string => decoder.decode(percentDecode(encoder.encode(s.replace(/\+/g, ' '))))
+
+  return input
+    .split('&')
+    .filter(sequence => sequence !== '')
+    .map((sequence) => {
+      const index = sequence.indexOf('=')
+      return index === -1
+        ? [decode(sequence), '']
+        : [decode(sequence.slice(0, index)), decode(sequence.slice(index + 1))]
+    })
+}
+
+function serializeFormComponent(input: string): string {
+  let output = ''
+
+  for (const byte of encoder.encode(codePoints(input).map(c => String.fromCodePoint(c)).join(''))) {
+    if (byte === 0x20) {
+      output += '+'
+    }
+    else if (isASCIIAlphanumeric(byte) || byte === 0x2A || byte === 0x2D || byte === 0x2E || byte === 0x5F) {
+      output += String.fromCharCode(byte)
+    }
+    else {
+      output += `%${byte.toString(16).toUpperCase().padStart(2, '0')}`
+    }
+  }
+
+  return output
+}
+
+function serializeFormEncoded(list: [string, string][]): string {
+  return list.map(([name, value]) => `${serializeFormComponent(name)}=${serializeFormComponent(value)}`).join('&')
+}
+
+// ============================================================================
+// Public Polyfills
+// ============================================================================
+
+type URLSearchParamsInit = [string, string][] | Record<string, string> | string | URLSearchParams
+
+export class URLSearchParams {
+  /** @internal */
+  list: [string, string][] = []
+
+  /**
+   * The URL whose query this object reflects, if any.
+   * @internal
+   */
+  url: null | URL = null
+
+  constructor(init: URLSearchParamsInit = '') {
+    if (init instanceof URLSearchParams) {
+      this.list = init.list.map(([name, value]) => [name, value])
+    }
+    else if (typeof init === 'object' && init !== null && typeof (init as any)[Symbol.iterator] === 'function') {
+      for (const pair of init as Iterable<Iterable<string>>) {
+        const entry = [...pair]
+        if (entry.length !== 2) {
+          throw new TypeError('Each query pair must be an iterable [name, value] tuple')
+        }
+
+        this.list.push([String(entry[0]), String(entry[1])])
+      }
+    }
+    else if (typeof init === 'object' && init !== null) {
+      for (const name of Object.keys(init)) {
+        this.list.push([name, String((init as Record<string, string>)[name])])
+      }
+    }
+    else {
+      const query = String(init)
+      this.list = parseFormEncoded(query.startsWith('?') ? query.slice(1) : query)
+    }
+  }
+
+  /** The number of name-value pairs. */
+  get size(): number {
+    return this.list.length
+  }
+
+  append(name: string, value: string): void {
+    this.list.push([String(name), String(value)])
+    this.update()
+  }
+
+  delete(name: string, value?: string): void {
+    this.list = this.list.filter(([n, v]) => n !== name || (value !== undefined && v !== String(value)))
+    this.update()
+  }
+
+  entries(): IterableIterator<[string, string]> {
+    return this.list.map(([name, value]) => [name, value] as [string, string])[Symbol.iterator]()
+  }
+
+  forEach(callback: (value: string, name: string, params: URLSearchParams) => void, thisArg?: any): void {
+    for (const [name, value] of this.list) {
+      callback.call(thisArg, value, name, this)
+    }
+  }
+
+  get(name: string): null | string {
+    return this.list.find(([n]) => n === name)?.[1] ?? null
+  }
+
+  getAll(name: string): string[] {
+    return this.list.filter(([n]) => n === name).map(([, value]) => value)
+  }
+
+  has(name: string, value?: string): boolean {
+    return this.list.some(([n, v]) => n === name && (value === undefined || v === String(value)))
+  }
+
+  keys(): IterableIterator<string> {
+    return this.list.map(([name]) => name)[Symbol.iterator]()
+  }
+
+  set(name: string, value: string): void {
+    const index = this.list.findIndex(([n]) => n === name)
+
+    if (index === -1) {
+      this.list.push([String(name), String(value)])
+    }
+    else {
+      this.list[index][1] = String(value)
+      this.list = this.list.filter(([n], i) => n !== name || i <= index)
+    }
+
+    this.update()
+  }
+
+  /** Sorts the pairs by name, by UTF-16 code units, keeping the order of equal names. */
+  sort(): void {
+    this.list = this.list
+      .map((pair, index) => ({ index, pair }))
+      .sort((a, b) => a.pair[0] < b.pair[0] ? -1 : a.pair[0] > b.pair[0] ? 1 : a.index - b.index)
+      .map(({ pair }) => pair)
+
+    this.update()
+  }
+
+  toString(): string {
+    return serializeFormEncoded(this.list)
+  }
+
+  values(): IterableIterator<string> {
+    return this.list.map(([, value]) => value)[Symbol.iterator]()
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, string]> {
+    return this.entries()
+  }
+
+  /** Writes the pairs back to the associated URL's query. */
+  private update(): void {
+    if (this.url) {
+      const serialized = this.toString()
+      this.url.record.query = serialized === '' ? null : serialized
+    }
+  }
+}
+
+export class URL {
+  /** @internal */
+  record: URLRecord
+
+  /** The query of the URL as a live `URLSearchParams` object. */
+  public readonly searchParams: URLSearchParams
+
+  /**
+   * Parses an absolute URL, or a relative URL against a base.
+   *
+   * @param url The URL to parse.
+   * @param base The base URL for relative URLs.
+   * @throws {TypeError} If the URL (or the base) is invalid.
+   */
+  constructor(url: string | URL, base?: string | URL) {
+    const baseRecord = base === undefined ? null : parseURL(String(base), null)
+    this.record = parseURL(String(url), baseRecord)
+    this.searchParams = new URLSearchParams(this.record.query ?? '')
+    this.searchParams.url = this
+  }
+
+  /**
+   * Whether a URL can be parsed, without throwing.
+   *
+   * @param url The URL to parse.
+   * @param base The base URL for relative URLs.
+   */
+  static canParse(url: string, base?: string): boolean {
+    try {
+      // eslint-disable-next-line no-new
+      new URL(url, base)
+      return true
+    }
+    catch {
+      return false
+    }
+  }
+
+  get hash(): string {
+    return this.record.fragment ? `#${this.record.fragment}` : ''
+  }
+
+  set hash(value: string) {
+    value = String(value)
+    if (value === '') {
+      this.record.fragment = null
+      return
+    }
+
+    this.record.fragment = ''
+    parseURL(value.startsWith('#') ? value.slice(1) : value, null, this.record, 'fragment')
+  }
+
+  get host(): string {
+    const { host, port } = this.record
+    return host === null ? '' : port === null ? host : `${host}:${port}`
+  }
+
+  set host(value: string) {
+    this.setHost(String(value), true)
+  }
+
+  get hostname(): string {
+    return this.record.host ?? ''
+  }
+
+  set hostname(value: string) {
+    this.setHost(String(value), false)
+  }
+
+  get href(): string {
+    return serializeURL(this.record)
+  }
+
+  set href(value: string) {
+    this.record = parseURL(String(value), null)
+    this.searchParams.list = parseFormEncoded(this.record.query ?? '')
+  }
+
+  get origin(): string {
+    const { host, port, scheme } = this.record
+
+    if (scheme === 'blob') {
+      try {
+        const inner = new URL(serializePath(this.record))
+        return inner.protocol === 'http:' || inner.protocol === 'https:' ? inner.origin : 'null'
+      }
+      catch {
+        return 'null'
+      }
+    }
+
+    if (scheme === 'file' || !isSpecial(this.record)) {
+      return 'null'
+    }
+
+    return `${scheme}://${host}${port === null ? '' : `:${port}`}`
+  }
+
+  get password(): string {
+    return this.record.password
+  }
+
+  set password(value: string) {
+    if (this.cannotHaveCredentialsOrPort()) {
+      return
+    }
+
+    this.record.password = codePoints(String(value)).map(c => percentEncode(c, inUserinfoSet)).join('')
+  }
+
+  get pathname(): string {
+    return serializePath(this.record)
+  }
+
+  set pathname(value: string) {
+    if (hasOpaquePath(this.record)) {
+      return
+    }
+
+    this.record.path = []
+    parseURL(String(value), null, this.record, 'path start')
+  }
+
+  get port(): string {
+    return this.record.port === null ? '' : String(this.record.port)
+  }
+
+  set port(value: string) {
+    if (this.cannotHaveCredentialsOrPort()) {
+      return
+    }
+
+    const digits = /^\d*/.exec(String(value))![0]
+    if (String(value) === '') {
+      this.record.port = null
+    }
+    else if (digits !== '' && Number(digits) <= 65535) {
+      const port = Number(digits)
+      this.record.port = SPECIAL_SCHEMES[this.record.scheme] === port ? null : port
+    }
+  }
+
+  get protocol(): string {
+    return `${this.record.scheme}:`
+  }
+
+  set protocol(value: string) {
+    const scheme = String(value).replace(/:.*$/s, '').toLowerCase()
+
+    if (!/^[a-z][a-z0-9+.-]*$/.test(scheme) || isSpecial(this.record) !== (scheme in SPECIAL_SCHEMES)) {
+      return
+    }
+
+    if (scheme === 'file' && (this.record.username !== '' || this.record.password !== '' || this.record.port !== null)) {
+      return
+    }
+
+    if (this.record.scheme === 'file' && this.record.host === '') {
+      return
+    }
+
+    this.record.scheme = scheme
+    if (this.record.port === SPECIAL_SCHEMES[scheme]) {
+      this.record.port = null
+    }
+  }
+
+  get search(): string {
+    return this.record.query ? `?${this.record.query}` : ''
+  }
+
+  set search(value: string) {
+    value = String(value)
+    if (value === '') {
+      this.record.query = null
+      this.searchParams.list = []
+      return
+    }
+
+    this.record.query = ''
+    parseURL(value.startsWith('?') ? value.slice(1) : value, null, this.record, 'query')
+    this.searchParams.list = parseFormEncoded(this.record.query)
+  }
+
+  get username(): string {
+    return this.record.username
+  }
+
+  set username(value: string) {
+    if (this.cannotHaveCredentialsOrPort()) {
+      return
+    }
+
+    this.record.username = codePoints(String(value)).map(c => percentEncode(c, inUserinfoSet)).join('')
+  }
+
+  toJSON(): string {
+    return this.href
+  }
+
+  toString(): string {
+    return this.href
+  }
+
+  private cannotHaveCredentialsOrPort(): boolean {
+    return this.record.host === null || this.record.host === '' || this.record.scheme === 'file'
+  }
+
+  /** Implements the `host` and `hostname` setters, which differ only in whether a port is accepted. */
+  private setHost(value: string, withPort: boolean): void {
+    if (hasOpaquePath(this.record)) {
+      return
+    }
+
+    // The value ends at the first delimiter, and (for `host`) the port follows
+    // the first colon outside IPv6 brackets.
+    const end = value.search(isSpecial(this.record) ? /[/?#\\]/ : /[/?#]/)
+    const input = end === -1 ? value : value.slice(0, end)
+    const colon = input.startsWith('[') ? input.indexOf(':', input.indexOf(']')) : input.indexOf(':')
+    const hostPart = colon === -1 ? input : input.slice(0, colon)
+
+    if (hostPart === '' && isSpecial(this.record)) {
+      return
+    }
+
+    if (!withPort && colon !== -1) {
+      return
+    }
+
+    try {
+      const copy = copyRecord(this.record)
+      copy.host = parseHost(hostPart, !isSpecial(copy))
+
+      if (withPort && colon !== -1) {
+        const digits = /^\d*/.exec(input.slice(colon + 1))![0]
+        if (digits !== '') {
+          const port = Number(digits)
+          if (port > 65535) {
+            return
+          }
+
+          copy.port = SPECIAL_SCHEMES[copy.scheme] === port ? null : port
+        }
+      }
+
+      this.record = copy
+    }
+    catch {
+      // Invalid hosts are ignored by the setter.
+    }
+  }
+}
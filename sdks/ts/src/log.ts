@@ -0,0 +1,294 @@
+/**
+ * @file Simple Platform Log SDK
+ *
+ * This module provides structured, leveled logging for Simple Logic actions.
+ * Every entry is tagged with the execution, tenant and user from the context,
+ * scrubbed of sensitive fields, and shipped to the host through the
+ * fire-and-forget `action:log/write` action, so logs from one execution can be
+ * correlated on the platform side.
+ *
+ * @example
+ * ```typescript
+ * import * as log from '@simpleplatform/sdk/log'
+ *
+ * log.info('order created', { orderId, total }, request.context)
+ *
+ * const logger = log.logger(request.context, { orderId })
+ * logger.warn('payment pending')
+ * ```
+ */
+import type { Context } from './types'
+
+import { executeAsync as hostExecuteAsync } from './host'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The supported log levels, from most to least verbose. */
+export type LogLevel = 'debug' | 'error' | 'info' | 'warn'
+
+/** Arbitrary structured data attached to a log entry. */
+export type LogFields = Record<string, any>
+
+/**
+ * The wire format of a log entry sent to the host.
+ */
+export interface LogEntry {
+  execution_id: string
+  fields: LogFields
+  level: LogLevel
+  message: string
+  tenant?: string
+  timestamp: string
+  user?: string
+}
+
+/**
+ * Global logger configuration.
+ */
+export interface LogOptions {
+  /** Entries below this level are dropped. Defaults to `info`. */
+  level?: LogLevel
+
+  /**
+   * Additional field names to redact. Names are compared without case, `-` or
+   * `_`, and match whole field names or their suffixes (`ssn` matches
+   * `user_ssn`).
+   */
+  redact?: string[]
+}
+
+/**
+ * A logger bound to an execution context and a set of base fields.
+ */
+export interface Logger {
+  /** Returns a logger that adds `fields` to every entry. */
+  child: (fields: LogFields) => Logger
+  debug: (message: string, fields?: LogFields) => void
+  error: (message: string, fields?: LogFields) => void
+  info: (message: string, fields?: LogFields) => void
+  warn: (message: string, fields?: LogFields) => void
+}
+
+// ============================================================================
+// Internal State & Implementation
+// ============================================================================
+
+/** @internal */
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  error: 40,
+  info: 20,
+  warn: 30,
+}
+
+/** The replacement value for redacted fields. */
+export const REDACTED = '[REDACTED]'
+
+/**
+ * Field names that are always redacted, in normalized form (see
+ * `normalizeKey`). A field is redacted when its normalized name is one of
+ * these or ends with one, so `x-api-key` and `refresh_token` are redacted but
+ * `max_tokens` and `token_count` are not.
+ * @internal
+ */
+const DEFAULT_REDACTED_KEYS = [
+  'apikey',
+  'authorization',
+  'cookie',
+  'credential',
+  'credentials',
+  'password',
+  'privatekey',
+  'secret',
+  'token',
+]
+
+/**
+ * Matches absolute URLs, capturing the scheme, the authority without any
+ * user info, and the path; the query and fragment are left out.
+ * @internal
+ */
+const URL_PATTERN = /^([a-z][a-z\d+.-]*:\/\/)(?:[^/?#@\s]*@)?([^/?#@\s]*)((?:\/[^?#\s]*)?)([?#]\S*)?$/i
+
+/** @internal */
+const _options = {
+  level: 'info' as LogLevel,
+  redact: [...DEFAULT_REDACTED_KEYS],
+}
+
+/**
+ * Lower-cases a field name and strips `-` and `_`, so that `X-Api-Key`,
+ * `api_key` and `apiKey` compare equal.
+ * @internal
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '')
+}
+
+/** @internal */
+function isSensitive(key: string): boolean {
+  const normalized = normalizeKey(key)
+  return _options.redact.some(name => normalized.endsWith(name))
+}
+
+/**
+ * Masks the credentials of a URL: user info is removed and the query string
+ * and fragment are replaced with `REDACTED`. Other strings are returned as is.
+ * @internal
+ */
+function redactUrl(value: string): string {
+  const match = URL_PATTERN.exec(value)
+  if (!match || (match[4] === undefined && !value.includes('@'))) {
+    return value
+  }
+
+  const [, scheme, host, path, rest] = match
+  return `${scheme}${host}${path}${rest ? `${rest[0]}${REDACTED}` : ''}`
+}
+
+/**
+ * Recursively copies a value, replacing sensitive fields with `REDACTED`,
+ * masking credentials in URLs, and converting errors into plain objects so they survive JSON serialization.
+ *
+ * @internal
+ */
+function redact(value: any, seen = new WeakSet<object>()): any {
+  if (typeof value === 'string') {
+    return redactUrl(value)
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]'
+  }
+
+  seen.add(value)
+
+  if (value instanceof Error) {
+    return redact({ ...value, message: value.message, name: value.name }, seen)
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, seen))
+  }
+
+  const result: Record<string, any> = {}
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = isSensitive(key) ? REDACTED : redact(item, seen)
+  }
+
+  return result
+}
+
+/** @internal */
+function write(level: LogLevel, message: string, fields: LogFields | undefined, context: Context): void {
+  if (LEVELS[level] < LEVELS[_options.level]) {
+    return
+  }
+
+  const entry: LogEntry = {
+    execution_id: context?.logic?.execution_id ?? 'unknown',
+    fields: redact(fields ?? {}),
+    level,
+    message,
+    tenant: context?.tenant?.id ?? context?.tenant?.name,
+    timestamp: new Date().toISOString(),
+    user: context?.user?.id,
+  }
+
+  try {
+    hostExecuteAsync('action:log/write', entry, context)
+  }
+  catch {
+    // Logging must never break the action. If the host cannot take the entry,
+    // fall back to the runtime console.
+    console.error(`[${level}] ${message}`, JSON.stringify(entry.fields))
+  }
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+/**
+ * Updates the global logger configuration.
+ *
+ * @param options The level threshold and any extra field names to redact.
+ */
+export function configure(options: LogOptions): void {
+  if (options.level) {
+    _options.level = options.level
+  }
+
+  if (options.redact) {
+    _options.redact = [...DEFAULT_REDACTED_KEYS, ...options.redact.map(normalizeKey)]
+  }
+}
+
+/**
+ * Writes a `debug` entry.
+ *
+ * @param message The log message.
+ * @param fields Structured data to attach to the entry.
+ * @param context The execution context used to correlate the entry.
+ */
+export function debug(message: string, fields: LogFields | undefined, context: Context): void {
+  write('debug', message, fields, context)
+}
+
+/**
+ * Writes an `error` entry.
+ *
+ * @param message The log message.
+ * @param fields Structured data to attach to the entry.
+ * @param context The execution context used to correlate the entry.
+ */
+export function error(message: string, fields: LogFields | undefined, context: Context): void {
+  write('error', message, fields, context)
+}
+
+/**
+ * Writes an `info` entry.
+ *
+ * @param message The log message.
+ * @param fields Structured data to attach to the entry.
+ * @param context The execution context used to correlate the entry.
+ */
+export function info(message: string, fields: LogFields | undefined, context: Context): void {
+  write('info', message, fields, context)
+}
+
+/**
+ * Creates a logger bound to an execution context.
+ *
+ * @param context The execution context used to correlate every entry.
+ * @param fields Base fields added to every entry.
+ * @returns A `Logger`.
+ */
+export function logger(context: Context, fields: LogFields = {}): Logger {
+  const bound = (level: LogLevel) => (message: string, extra?: LogFields) => write(level, message, { ...fields, ...extra }, context)
+
+  return {
+    child: extra => logger(context, { ...fields, ...extra }),
+    debug: bound('debug'),
+    error: bound('error'),
+    info: bound('info'),
+    warn: bound('warn'),
+  }
+}
+
+/**
+ * Writes a `warn` entry.
+ *
+ * @param message The log message.
+ * @param fields Structured data to attach to the entry.
+ * @param context The execution context used to correlate the entry.
+ */
+export function warn(message: string, fields: LogFields | undefined, context: Context): void {
+  write('warn', message, fields, context)
+}
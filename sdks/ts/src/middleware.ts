@@ -0,0 +1,107 @@
+/**
+ * @file Simple Platform Middleware SDK
+ *
+ * This module implements the middleware pipeline that wraps an action handler.
+ * Middleware lets cross-cutting concerns (timing, input logging, access checks,
+ * error normalization) live in one place instead of being repeated in every
+ * action. Each middleware receives the request and a `next` function; it can
+ * enrich the request, short-circuit by not calling `next`, or transform the
+ * result that `next` resolves with.
+ *
+ * The pipeline is composed wherever the handler is actually invoked, so it runs
+ * identically in the sync (Elixir) path and inside the script worker that the
+ * async (browser) loader delegates to.
+ */
+import type { Handler, Request } from './index'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Invokes the rest of the pipeline. Pass a request to replace the one that the
+ * downstream middleware and handler receive; omit it to forward the current one.
+ */
+export type Next<TResult = any> = (request?: Request) => Promise<TResult>
+
+/**
+ * A single step in the handler pipeline.
+ *
+ * @example
+ * ```typescript
+ * const timing: Middleware = async (request, next) => {
+ *   const start = Date.now()
+ *   const result = await next()
+ *   request.locals.durationMs = Date.now() - start
+ *   return result
+ * }
+ * ```
+ */
+export type Middleware<TResult = any> = (request: Request, next: Next<TResult>) => Promise<TResult> | TResult
+
+// ============================================================================
+// Internal State
+// ============================================================================
+
+/**
+ * Middleware registered through `simple.use`, in registration order.
+ * @internal
+ */
+const _globalMiddleware: Middleware[] = []
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+/**
+ * Registers middleware that runs before the per-handler middleware of every
+ * `simple.Handle` call. Register it at the top level, before `simple.Handle`.
+ *
+ * @param middleware One or more middleware, run in the order given.
+ */
+export function use(...middleware: Middleware[]): void {
+  _globalMiddleware.push(...middleware)
+}
+
+/**
+ * Returns a snapshot of the middleware registered through `simple.use`.
+ * @internal
+ */
+export function registeredMiddleware(): Middleware[] {
+  return [..._globalMiddleware]
+}
+
+/**
+ * Composes middleware and a handler into a single handler.
+ *
+ * @param chain The middleware to run, outermost first.
+ * @param handler The terminal action handler.
+ * @returns A handler that runs the whole pipeline.
+ */
+export function compose<TResult = any>(chain: Middleware[], handler: Handler<TResult>): (request: Request) => Promise<TResult> {
+  return (request: Request) => {
+    let index = -1
+
+    const dispatch = (i: number, current: Request): Promise<any> => {
+      if (i <= index) {
+        return Promise.reject(new Error('next() called multiple times in the same middleware'))
+      }
+
+      index = i
+
+      try {
+        const step = chain[i]
+        if (!step) {
+          return Promise.resolve(handler(current))
+        }
+
+        return Promise.resolve(step(current, (next = current) => dispatch(i + 1, next)))
+      }
+      catch (e) {
+        return Promise.reject(e)
+      }
+    }
+
+    return dispatch(0, request)
+  }
+}
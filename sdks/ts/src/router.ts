@@ -0,0 +1,140 @@
+/**
+ * @file Simple Platform Router SDK
+ *
+ * This module lets a single bundle serve several related operations. A
+ * `Router` holds named handlers (each with optional middleware) and dispatches
+ * every request to one of them, based either on a request header or on a field
+ * of `context.logic` such as `trigger_id`. Requests for unknown routes fail with
+ * a structured `ROUTE_NOT_FOUND` error.
+ *
+ * @example
+ * ```typescript
+ * const router = new simple.Router({ header: 'x-simple-route' })
+ *
+ * router
+ *   .on('create', createOrder)
+ *   .on('cancel', requireUser, cancelOrder)
+ *
+ * simple.Handle(router.dispatch)
+ * ```
+ */
+import type { Handler, Request } from './index'
+import type { Middleware } from './middleware'
+import type { Logic } from './types'
+
+import { SimpleActionError } from './errors'
+import { compose } from './middleware'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Configures how a `Router` picks the route for a request. When both are set,
+ * the header takes precedence and the `context.logic` field is the fallback.
+ */
+export interface RouterOptions {
+  /** The request header carrying the route name. Matched case-insensitively. */
+  header?: string
+
+  /** The `context.logic` field carrying the route name, e.g. `trigger_id`. */
+  logicField?: keyof Logic
+}
+
+/** The header a `Router` dispatches on when no options are given. */
+export const DEFAULT_ROUTE_HEADER = 'x-simple-route'
+
+// ============================================================================
+// Public SDK Classes
+// ============================================================================
+
+/**
+ * Dispatches requests to one of several named handlers.
+ * This class is exposed as `simple.Router`.
+ */
+export class Router {
+  private readonly handlers = new Map<string, (request: Request) => Promise<any>>()
+  private readonly options: RouterOptions
+
+  constructor(options: RouterOptions = { header: DEFAULT_ROUTE_HEADER }) {
+    if (!options.header && !options.logicField) {
+      throw new Error('a router needs a `header` or a `logicField` to dispatch on')
+    }
+
+    this.options = options
+  }
+
+  /** The names of all registered routes, in registration order. */
+  get routes(): string[] {
+    return [...this.handlers.keys()]
+  }
+
+  /**
+   * Dispatches a request to its route. This is a bound handler, so it can be
+   * passed straight to `simple.Handle`.
+   *
+   * @throws {SimpleActionError} `ROUTE_NOT_FOUND` if no route matches.
+   */
+  public readonly dispatch: Handler = (request: Request) => {
+    const route = this.resolve(request)
+    const handler = route === undefined ? undefined : this.handlers.get(route)
+
+    if (!handler) {
+      throw new SimpleActionError('ROUTE_NOT_FOUND', route === undefined ? 'no route specified in the request' : `unknown route "${route}"`, {
+        details: { available: this.routes, route },
+        status: 404,
+      })
+    }
+
+    return handler(request)
+  }
+
+  /**
+   * Registers a named route. Any number of middleware may precede the handler;
+   * they run only for this route, after any middleware given to `simple.Handle`.
+   *
+   * @param name The route name to match.
+   * @param chain Optional middleware followed by the route's handler.
+   * @returns The router, for chaining.
+   */
+  on(name: string, ...chain: [...Middleware[], Handler]): this {
+    if (!name) {
+      throw new Error('route name is required')
+    }
+
+    if (this.handlers.has(name)) {
+      throw new Error(`route "${name}" is already registered`)
+    }
+
+    this.handlers.set(name, compose(chain.slice(0, -1) as Middleware[], chain[chain.length - 1] as Handler))
+    return this
+  }
+
+  /**
+   * Determines the route name for a request.
+   *
+   * @returns The route name, or `undefined` if the request carries none.
+   */
+  resolve(request: Request): string | undefined {
+    const { header, logicField } = this.options
+
+    if (header) {
+      const wanted = header.toLowerCase()
+      const entry = Object.entries(request.headers ?? {}).find(([key]) => key.toLowerCase() === wanted)
+      const value = Array.isArray(entry?.[1]) ? entry[1][0] : entry?.[1]
+
+      if (value !== undefined && value !== null && value !== '') {
+        return String(value)
+      }
+    }
+
+    if (logicField) {
+      const value = request.context?.logic?.[logicField]
+      if (value) {
+        return String(value)
+      }
+    }
+
+    return undefined
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * @file Simple Platform Schema SDK
+ *
+ * This module defines the strongly-typed JSON Schema subset used across the SDK
+ * (for example, as the output contract of `ai.extract`) and a small validator
+ * that checks arbitrary values against it. The validator collects every failure
+ * instead of stopping at the first, so callers get a complete report keyed by
+ * JSON path.
+ */
+import { SimpleActionError } from './errors'
+
+// ============================================================================
+// JSON Schema Type System (Discriminated Union)
+// ============================================================================
+
+/**
+ * Base properties common to all JSON Schema definitions.
+ */
+interface JSONSchemaBase {
+  description?: string
+}
+
+/**
+ * JSON Schema definition for a string type.
+ */
+export interface JSONSchemaString extends JSONSchemaBase {
+  format?: 'date' | 'date-time' | 'email' | 'uri'
+  maxLength?: number
+  minLength?: number
+  pattern?: string
+  type: 'string'
+}
+
+/**
+ * JSON Schema definition for a number or integer type.
+ */
+export interface JSONSchemaNumber extends JSONSchemaBase {
+  exclusiveMaximum?: number
+  exclusiveMinimum?: number
+  maximum?: number
+  minimum?: number
+  multipleOf?: number
+  type: 'integer' | 'number'
+}
+
+/**
+ * JSON Schema definition for a boolean type.
+ */
+export interface JSONSchemaBoolean extends JSONSchemaBase {
+  type: 'boolean'
+}
+
+/**
+ * JSON Schema definition for an object type.
+ */
+export interface JSONSchemaObject extends JSONSchemaBase {
+  properties: Record<string, JSONSchema>
+  required?: string[]
+  type: 'object'
+}
+
+/**
+ * JSON Schema definition for an array type.
+ */
+export interface JSONSchemaArray extends JSONSchemaBase {
+  items: JSONSchema
+  maxItems?: number
+  minItems?: number
+  type: 'array'
+}
+
+/**
+ * A discriminated union representing a complete and strongly-typed JSON Schema.
+ * This provides developers with precise autocompletion and type-checking.
+ */
+export type JSONSchema
+  = | JSONSchemaArray
+    | JSONSchemaBoolean
+    | JSONSchemaNumber
+    | JSONSchemaObject
+    | JSONSchemaString
+
+// ============================================================================
+// Validation Types
+// ============================================================================
+
+/**
+ * A single validation failure.
+ */
+export interface ValidationIssue {
+  /** A human-readable description of the failure. */
+  message: string
+
+  /** The JSON path of the failing value, e.g. `$.items[0].name`. */
+  path: string
+}
+
+/**
+ * Thrown when a value does not satisfy a `JSONSchema`. It carries every failing
+ * path, both as structured `issues` and as one `reasons` entry per issue, and
+ * its message lists them all so the report survives plain-string transports.
+ */
+export class ValidationError extends SimpleActionError {
+  public readonly issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[]) {
+    const reasons = issues.map(issue => `${issue.path} ${issue.message}`)
+
+    super('VALIDATION_FAILED', `validation failed: ${reasons.join('; ')}`, {
+      details: { issues },
+      reasons,
+      status: 400,
+    })
+
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+}
+
+// ============================================================================
+// Internal Implementation
+// ============================================================================
+
+/**
+ * Format checkers for `JSONSchemaString.format`. These intentionally favour
+ * practical correctness over the full RFC grammars.
+ *
+ * @internal
+ */
+const FORMATS: Record<NonNullable<JSONSchemaString['format']>, (value: string) => boolean> = {
+  'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValidDate(value),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i.test(value) && isValidDate(value.slice(0, 10)),
+  'email': value => /^[^\s@]+@[^\s@.]+(?:\.[^\s@.]+)+$/.test(value),
+  'uri': value => /^[a-z][a-z\d+.-]*:\S+$/i.test(value),
+}
+
+/**
+ * Compiled `pattern`s, by schema, so a pattern is compiled once rather than
+ * for every value. `null` marks a pattern that does not compile.
+ *
+ * @internal
+ */
+const PATTERNS = new WeakMap<JSONSchemaString, RegExp | null>()
+
+/**
+ * Compiles a schema's `pattern`. Patterns are tried with the `u` flag first,
+ * to match code points; patterns that are only valid without it (such as
+ * `[\w-\.]`) fall back to no flag.
+ *
+ * @internal
+ */
+function compilePattern(schema: JSONSchemaString, pattern: string): RegExp | null {
+  let compiled = PATTERNS.get(schema)
+
+  if (compiled === undefined) {
+    try {
+      compiled = new RegExp(pattern, 'u')
+    }
+    catch {
+      try {
+        compiled = new RegExp(pattern)
+      }
+      catch {
+        compiled = null
+      }
+    }
+    PATTERNS.set(schema, compiled)
+  }
+
+  return compiled
+}
+
+/** @internal */
+function isValidDate(value: string): boolean {
+  const [year, month, day] = value.split('-').map(Number) as [number, number, number]
+  const date = new Date(Date.UTC(year, month - 1, day))
+
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+/** @internal */
+function childPath(path: string, key: number | string): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`
+  }
+
+  return /^[a-z_$][\w$]*$/i.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+/** @internal */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+/**
+ * Recursively validates `value` against `schema`, appending every failure to
+ * `issues`.
+ *
+ * @internal
+ */
+function _validate(schema: JSONSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  const fail = (message: string): void => {
+    issues.push({ message, path })
+  }
+
+  switch (schema.type) {
+    case 'array': {
+      if (!Array.isArray(value)) {
+        fail(`must be an array, got ${describe(value)}`)
+        return
+      }
+
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        fail(`must contain at least ${schema.minItems} items`)
+      }
+
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        fail(`must contain at most ${schema.maxItems} items`)
+      }
+
+      value.forEach((item, index) => _validate(schema.items, item, childPath(path, index), issues))
+      return
+    }
+
+    case 'boolean': {
+      if (typeof value !== 'boolean') {
+        fail(`must be a boolean, got ${describe(value)}`)
+      }
+
+      return
+    }
+
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(`must be a number, got ${describe(value)}`)
+        return
+      }
+
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        fail('must be an integer')
+      }
+
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        fail(`must be >= ${schema.minimum}`)
+      }
+
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        fail(`must be <= ${schema.maximum}`)
+      }
+
+      if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        fail(`must be > ${schema.exclusiveMinimum}`)
+      }
+
+      if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+        fail(`must be < ${schema.exclusiveMaximum}`)
+      }
+
+      if (schema.multipleOf !== undefined && schema.multipleOf > 0) {
+        const quotient = value / schema.multipleOf
+        if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+          fail(`must be a multiple of ${schema.multipleOf}`)
+        }
+      }
+
+      return
+    }
+
+    case 'object': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        fail(`must be an object, got ${describe(value)}`)
+        return
+      }
+
+      const record = value as Record<string, unknown>
+
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          issues.push({ message: 'is required', path: childPath(path, key) })
+        }
+      }
+
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) {
+          _validate(propertySchema, record[key], childPath(path, key), issues)
+        }
+      }
+
+      return
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') {
+        fail(`must be a string, got ${describe(value)}`)
+        return
+      }
+
+      // Lengths are measured in code points, matching the JSON Schema spec.
+      const length = [...value].length
+
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        fail(`must be at least ${schema.minLength} characters long`)
+      }
+
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        fail(`must be at most ${schema.maxLength} characters long`)
+      }
+
+      if (schema.pattern !== undefined) {
+        const pattern = compilePattern(schema, schema.pattern)
+
+        if (pattern === null) {
+          fail(`has an invalid schema pattern ${schema.pattern}`)
+        }
+        else if (!pattern.test(value)) {
+          fail(`must match pattern ${schema.pattern}`)
+        }
+      }
+
+      if (schema.format !== undefined && FORMATS[schema.format] && !FORMATS[schema.format](value)) {
+        fail(`must be a valid ${schema.format}`)
+      }
+
+      return
+    }
+
+    default: {
+      // A type-level exhaustiveness check: a schema type without a case above
+      // fails to compile here. Untyped JSON schemas can still reach it.
+      const unsupported: never = schema
+      fail(`has an unsupported schema type "${(unsupported as JSONSchema).type}"`)
+    }
+  }
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+/**
+ * Validates a value against a `JSONSchema` and returns every failure found.
+ *
+ * @param schema The schema to validate against.
+ * @param value The value to validate.
+ * @returns The list of validation issues; empty when the value is valid.
+ */
+export function validate(schema: JSONSchema, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  _validate(schema, value, '$', issues)
+  return issues
+}
+
+/**
+ * Asserts that a value satisfies a `JSONSchema`.
+ *
+ * @param schema The schema to validate against.
+ * @param value The value to validate.
+ * @returns The value, typed as `T`.
+ * @throws {ValidationError} If the value does not satisfy the schema.
+ */
+export function assertValid<T = any>(schema: JSONSchema, value: unknown): T {
+  const issues = validate(schema, value)
+  if (issues.length > 0) {
+    throw new ValidationError(issues)
+  }
+
+  return value as T
+}
@@ -1,5 +1,7 @@
 import type { Context } from './types'
 
+import { failIfUnsupported } from './capabilities'
+import { SimpleActionError } from './errors'
 import { execute as hostExecute } from './host'
 
 /**
@@ -21,10 +23,12 @@ export async function get(appId: string, keys: string[], context: Context): Prom
     throw new Error('setting keys are required for settings retrieval')
   }
 
+  failIfUnsupported('action:settings/get', context)
+
   const response = await hostExecute('action:settings/get', { app_id: appId, keys }, context)
 
   if (!response.ok) {
-    throw new Error(response.error?.message ?? 'Settings retrieval failed')
+    throw SimpleActionError.fromResponse(response.error, 'Settings retrieval failed')
   }
 
   return response.data as Record<string, any>
@@ -1,5 +1,7 @@
 import type { Context, DocumentHandle, ExternalFileSource, StorageTarget } from './types'
 
+import { failIfUnsupported } from './capabilities'
+import { SimpleActionError } from './errors'
 import { execute as hostExecute } from './host'
 
 /**
@@ -78,6 +80,8 @@ export async function uploadExternal(
     }
   }
 
+  failIfUnsupported('action:storage/upload-external', context)
+
   // Call the host function
   const response = await hostExecute<DocumentHandle>(
     'action:storage/upload-external',
@@ -86,7 +90,7 @@ export async function uploadExternal(
   )
 
   if (!response.ok) {
-    throw new Error(response.error?.message ?? 'External file upload failed')
+    throw SimpleActionError.fromResponse(response.error, 'External file upload failed')
   }
 
   return response.data as DocumentHandle
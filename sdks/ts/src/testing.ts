@@ -0,0 +1,441 @@
+/**
+ * @file Simple Platform Testing SDK
+ *
+ * This module provides an in-process mock of the host environment so that
+ * handlers built on `simple.Handle` (and every SDK module that talks to the
+ * host, such as `graphql`, `http`, `ai` and `storage`) can be unit-tested
+ * under Node without the Javy/WASM runtime.
+ *
+ * It installs fake `__host`/`__wasm` bindings on the global scope, backed by a
+ * small simulated linear memory. Tests supply the incoming `SimpleRequest`,
+ * script responses per action name, and then inspect every recorded host call
+ * as well as the final `__done__` response.
+ *
+ * @example
+ * ```typescript
+ * import simple from '@simpleplatform/sdk'
+ * import { runHandler } from '@simpleplatform/sdk/testing'
+ *
+ * const result = await runHandler(myHandler, {
+ *   request: { data: { id: '42' } },
+ *   responses: {
+ *     'action:db/execute': { data: { users: [] }, ok: true },
+ *   },
+ * })
+ *
+ * expect(result.done?.ok).toBe(true)
+ * expect(result.calls[0].action).toBe('action:db/execute')
+ * ```
+ */
+import type { HostCapabilities } from './capabilities'
+import type { Handler } from './index'
+import type { Context, SimpleError, SimpleRequest, SimpleResponse } from './types'
+
+import { CAPABILITIES_ACTION, clearCapabilities } from './capabilities'
+import { BATCH_ACTION } from './host'
+import simple from './index'
+import { encodeEnvelope } from './internal/envelope'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single host interaction recorded by the mock host.
+ */
+export interface HostCall {
+  /** The action name, e.g. `action:db/execute`. */
+  action: string
+
+  /** The raw request body, for calls made through `simple.ExecuteBinary`. */
+  body?: Uint8Array
+
+  /** The execution context that accompanied the call. */
+  context: Context
+
+  /** Whether the call was a request/response `call` or a fire-and-forget `cast`. */
+  kind: 'call' | 'cast'
+
+  /** The decoded JSON parameters sent to the host. */
+  params: any
+}
+
+/**
+ * The payload an action sends to the host through `__done__` when it finishes.
+ */
+export interface DoneResponse<T = any> {
+  data: T | null
+  error?: SimpleError
+  errors: any[]
+  ok: boolean
+}
+
+/**
+ * A scripted host response. Either a static `SimpleResponse`, or a function that
+ * computes one from the call. A function may also return a plain value, which is
+ * wrapped as `{ data: value, ok: true }`, or throw to produce a failed response.
+ * For binary calls, a response may also carry a `body` `Uint8Array`, which is
+ * returned to the action as the raw response body.
+ */
+export type MockResponder
+  = | ((params: any, context: Context, call: HostCall) => any)
+    | SimpleResponse
+
+/**
+ * The incoming request for a mocked execution. `data` may be given as an object,
+ * in which case it is serialized to JSON exactly as the platform would.
+ */
+export interface MockRequest {
+  context?: Partial<Context>
+  data?: any
+  headers?: Record<string, any>
+}
+
+/**
+ * Configuration for a mock host.
+ */
+export interface MockHostOptions {
+  /**
+   * What the mock host reports in the capability handshake. When omitted, the
+   * host behaves like a legacy host that supports every action. Handshake calls
+   * are answered internally and are not recorded in `calls`.
+   */
+  capabilities?: Pick<HostCapabilities, 'actions' | 'protocolVersion'>
+
+  /** The request payload returned to the action through `getContext`. */
+  request?: MockRequest
+
+  /** Scripted responses, keyed by action name. */
+  responses?: Record<string, MockResponder>
+}
+
+/**
+ * The outcome of running a handler against the mock host.
+ */
+export interface MockRunResult<T = any> {
+  calls: HostCall[]
+  casts: HostCall[]
+  done?: DoneResponse<T>
+}
+
+// ============================================================================
+// Internal Implementation
+// ============================================================================
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder('utf-8')
+
+/** The build-time constants and host bindings the mock host takes over. */
+const MOCKED_GLOBALS = ['__ASYNC_BUILD__', '__host', '__wasm'] as const
+
+/**
+ * A simulated WASM linear memory backed by a growable byte array and a bump
+ * allocator. Pointers start above zero because the SDK treats `0` as "not
+ * allocated".
+ *
+ * @internal
+ */
+class MockMemory {
+  private bytes = new Uint8Array(64 * 1024)
+  private next = 8
+
+  alloc(size: number): number {
+    const ptr = this.next
+    this.next += Math.max(size, 1)
+    this.ensure(this.next)
+    return ptr
+  }
+
+  read(ptr: number, len: number): Uint8Array {
+    return this.bytes.slice(ptr, ptr + len)
+  }
+
+  write(ptr: number, data: Uint8Array): void {
+    this.ensure(ptr + data.length)
+    this.bytes.set(data, ptr)
+  }
+
+  private ensure(end: number): void {
+    if (end <= this.bytes.length) {
+      return
+    }
+
+    let size = this.bytes.length
+    while (size < end) {
+      size *= 2
+    }
+
+    const grown = new Uint8Array(size)
+    grown.set(this.bytes)
+    this.bytes = grown
+  }
+}
+
+/**
+ * Builds a complete execution context, filling in deterministic defaults for
+ * anything the test does not specify.
+ */
+export function createContext(overrides: Partial<Context> = {}): Context {
+  return {
+    logic: {
+      execution_env: 'test',
+      execution_id: 'test-execution',
+      id: 'test-logic',
+      trigger_id: 'test-trigger',
+      ...overrides.logic,
+    },
+    tenant: {
+      name: 'test',
+      ...overrides.tenant,
+    },
+    user: {
+      id: 'test-user',
+      ...overrides.user,
+    },
+  }
+}
+
+/**
+ * An in-process stand-in for the platform host. Use `install()` to bind it to
+ * the global scope and `uninstall()` to restore the previous globals.
+ */
+export class MockHost {
+  /** Every `call` made by the action, in order. */
+  public readonly calls: HostCall[] = []
+
+  /** Every `cast` made by the action, in order, excluding `__done__`. */
+  public readonly casts: HostCall[] = []
+
+  /** The final response sent through `__done__`, once the action completes. */
+  public done?: DoneResponse
+
+  private readonly capabilities?: MockHostOptions['capabilities']
+  private readonly memory = new MockMemory()
+  private readonly request: SimpleRequest
+  private readonly responders = new Map<string, MockResponder>()
+  private result: Uint8Array = new Uint8Array(0)
+  private saved?: Map<string, PropertyDescriptor | undefined>
+
+  constructor(options: MockHostOptions = {}) {
+    const { context, data, headers } = options.request ?? {}
+
+    this.capabilities = options.capabilities
+
+    this.request = {
+      context: createContext(context),
+      data: data === undefined || typeof data === 'string' ? data : JSON.stringify(data),
+      headers: headers ?? {},
+    }
+
+    for (const [action, responder] of Object.entries(options.responses ?? {})) {
+      this.responders.set(action, responder)
+    }
+  }
+
+  /** Returns the recorded calls and casts for a single action name. */
+  callsTo(action: string): HostCall[] {
+    return [...this.calls, ...this.casts].filter(call => call.action === action)
+  }
+
+  /** Installs the fake `__host`/`__wasm` bindings on the global scope. */
+  install(): this {
+    if (this.saved) {
+      return this
+    }
+
+    const g = globalThis as any
+    this.saved = new Map(MOCKED_GLOBALS.map(name => [name, Object.getOwnPropertyDescriptor(g, name)]))
+
+    // Handshake results are cached per execution ID, which mock executions share.
+    clearCapabilities()
+
+    g.__ASYNC_BUILD__ = false
+    g.__wasm = this.wasmBindings()
+    g.__host = this.hostBindings()
+
+    return this
+  }
+
+  /** Scripts (or replaces) the response for an action name. */
+  on(action: string, responder: MockResponder): this {
+    this.responders.set(action, responder)
+    return this
+  }
+
+  /** Restores whatever globals were present before `install()`. */
+  uninstall(): void {
+    if (!this.saved) {
+      return
+    }
+
+    const g = globalThis as any
+    for (const [name, descriptor] of this.saved) {
+      if (descriptor) {
+        Object.defineProperty(g, name, descriptor)
+      }
+      else {
+        delete g[name]
+      }
+    }
+
+    this.saved = undefined
+  }
+
+  private dispatch(call: HostCall): SimpleResponse {
+    const responder = this.responders.get(call.action)
+
+    // Unless a test scripts the batch action itself, answer batches the way the
+    // platform does: dispatch (and record) each operation individually.
+    if (responder === undefined && call.action === BATCH_ACTION) {
+      return {
+        data: (call.params?.calls ?? []).map((op: { name: string, params: any }) => {
+          const inner: HostCall = { action: op.name, context: call.context, kind: call.kind, params: op.params }
+          this.calls.push(inner)
+          return this.dispatch(inner)
+        }),
+        ok: true,
+      }
+    }
+
+    if (responder === undefined) {
+      return { error: { message: `no mock response scripted for action "${call.action}"` }, ok: false }
+    }
+
+    if (typeof responder !== 'function') {
+      return responder
+    }
+
+    try {
+      const value = responder(call.params, call.context, call)
+      if (value !== null && typeof value === 'object' && typeof value.ok === 'boolean') {
+        return value as SimpleResponse
+      }
+
+      return { data: value, ok: true }
+    }
+    catch (e: any) {
+      return { error: { message: e?.message ?? String(e) }, ok: false }
+    }
+  }
+
+  private handshake(): SimpleResponse {
+    if (!this.capabilities) {
+      return { error: { message: `unknown action "${CAPABILITIES_ACTION}"` }, ok: false }
+    }
+
+    return {
+      data: { actions: this.capabilities.actions, protocol_version: this.capabilities.protocolVersion },
+      ok: true,
+    }
+  }
+
+  private hostBindings(): typeof __host {
+    const decode = (call: HostCall['kind'], namePtr: number, nameLen: number, paramsPtr: number, paramsLen: number, contextPtr: number, contextLen: number): HostCall => ({
+      action: this.readString(namePtr, nameLen),
+      context: JSON.parse(this.readString(contextPtr, contextLen)),
+      kind: call,
+      params: JSON.parse(this.readString(paramsPtr, paramsLen)),
+    })
+
+    return {
+      call: (...args) => {
+        const call = decode('call', ...args)
+        if (call.action === CAPABILITIES_ACTION) {
+          this.result = encoder.encode(JSON.stringify(this.handshake()))
+          return
+        }
+
+        this.calls.push(call)
+        this.result = encoder.encode(JSON.stringify(this.dispatch(call)))
+      },
+
+      callBinary: (namePtr, nameLen, paramsPtr, paramsLen, bodyPtr, bodyLen, contextPtr, contextLen) => {
+        const call = { ...decode('call', namePtr, nameLen, paramsPtr, paramsLen, contextPtr, contextLen), body: this.memory.read(bodyPtr, bodyLen) }
+        this.calls.push(call)
+
+        const { body, ...response } = this.dispatch(call) as SimpleResponse & { body?: Uint8Array }
+        this.result = encodeEnvelope(response, body)
+      },
+
+      cast: (...args) => {
+        const call = decode('cast', ...args)
+        if (call.action === '__done__') {
+          this.done = call.params
+          return
+        }
+
+        this.casts.push(call)
+        this.dispatch(call)
+      },
+
+      getContext: (ptr) => {
+        this.memory.write(ptr, encoder.encode(JSON.stringify(this.request)))
+      },
+
+      getContextSize: () => encoder.encode(JSON.stringify(this.request)).length,
+
+      getExecutionResult: (ptr) => {
+        this.memory.write(ptr, this.result)
+      },
+
+      getExecutionResultSize: () => this.result.length,
+    }
+  }
+
+  private readString(ptr: number, len: number): string {
+    return decoder.decode(this.memory.read(ptr, len))
+  }
+
+  private wasmBindings(): typeof __wasm {
+    return {
+      alloc: size => this.memory.alloc(size),
+      clear_response_buffer: () => {},
+      dealloc: () => {},
+      get_response_len: () => 0,
+      get_response_ptr: () => 0,
+      read_bytes: (ptr, len) => this.memory.read(ptr, len),
+      read_string: (ptr, len) => this.readString(ptr, len),
+      write_bytes: (ptr, data) => this.memory.write(ptr, data),
+      write_string: (ptr, data) => this.memory.write(ptr, encoder.encode(data)),
+    }
+  }
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+/**
+ * Creates a mock host and installs it on the global scope.
+ *
+ * @param options The request payload and scripted responses.
+ * @returns The installed `MockHost`. Call `uninstall()` when the test is done.
+ */
+export function mockHost(options: MockHostOptions = {}): MockHost {
+  return new MockHost(options).install()
+}
+
+/**
+ * Runs a handler through `simple.Handle` against a freshly installed mock host,
+ * then restores the global scope.
+ *
+ * @param handler The action handler under test.
+ * @param options The request payload and scripted responses.
+ * @returns The recorded calls, casts and the final `__done__` response.
+ */
+export async function runHandler<T = any>(handler: Handler<T>, options: MockHostOptions = {}): Promise<MockRunResult<T>> {
+  const host = mockHost(options)
+
+  try {
+    await simple.Handle(handler)
+  }
+  finally {
+    host.uninstall()
+  }
+
+  return {
+    calls: host.calls,
+    casts: host.casts,
+    done: host.done,
+  }
+}
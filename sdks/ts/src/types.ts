@@ -1,3 +1,30 @@
+/** A single operation in a batched host call. */
+export interface BatchCall {
+  /** The action name, e.g. `action:db/execute`. */
+  action: string
+
+  /** The action parameters. */
+  params?: any
+}
+
+/** Configures automatic coalescing of concurrent host calls into batches. */
+export interface BatchingOptions {
+  /** Whether concurrent calls are coalesced. Defaults to `false`. */
+  enabled?: boolean
+
+  /** The maximum number of calls sent in one batch. Defaults to 25. */
+  maxSize?: number
+}
+
+/** The result of a binary host call: the JSON response plus a raw body. */
+export interface BinaryResponse<T = any> {
+  /** The raw response body, e.g. file content. */
+  body: Uint8Array
+
+  /** The JSON response. */
+  response: SimpleResponse<T>
+}
+
 /** The complete execution context for an action. */
 export interface Context {
   logic: Logic
@@ -26,6 +53,23 @@ export interface DocumentHandle {
   storage_path: string
 }
 
+/** Per-call options for host execution. */
+export interface ExecuteOptions {
+  /**
+   * Aborts the call. In the script worker, the pending call is rejected and the
+   * host is asked to cancel it; synchronous builds fail the call once it returns.
+   */
+  signal?: AbortSignal
+
+  /**
+   * The maximum time in milliseconds to wait for the host to reply. The script
+   * worker rejects the call when it expires and asks the host to cancel it;
+   * synchronous builds cannot interrupt the host, so they fail the call once it
+   * returns late. Calls without a timeout, or with `0`, wait indefinitely.
+   */
+  timeout?: number
+}
+
 /** Represents the source configuration for downloading an external file. */
 export interface ExternalFileSource {
   /** Optional authentication configuration for accessing the external file. */
@@ -57,8 +101,17 @@ export interface Logic {
 
 /** Error structure for host communication responses. */
 export interface SimpleError {
+  /** A stable, machine-readable error code, e.g. `VALIDATION_FAILED`. */
+  code?: string
+
+  /** Arbitrary, JSON-serializable diagnostic data. */
+  details?: Record<string, any>
+
   message: string
   reasons?: string[]
+
+  /** An HTTP-style status code describing the failure class. */
+  status?: number
 }
 
 /** The low-level request structure sent by the host to an action. */
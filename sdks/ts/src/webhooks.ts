@@ -0,0 +1,256 @@
+/**
+ * @file Simple Platform Webhooks SDK
+ *
+ * This module verifies the signatures of inbound webhooks. It knows the
+ * signing schemes of common providers (GitHub, Shopify, Slack and Stripe) and
+ * offers a generic HMAC scheme for everything else. The signing secret is read
+ * from application settings, signatures are compared in constant time, and
+ * timestamped schemes reject deliveries outside a tolerance window to stop
+ * replays. Every failure is reported as a `SimpleActionError` with the
+ * `INVALID_SIGNATURE` code and status 401.
+ *
+ * `request.verifySignature(options)` calls `verifySignature` with the
+ * request's raw data, headers and context.
+ */
+import type { BinaryToTextEncoding, HashAlgorithm } from './crypto'
+import type { Context } from './types'
+
+import { hmac, timingSafeEqual } from './crypto'
+import { CONFIGURATION_ERROR, INVALID_SIGNATURE, SimpleActionError } from './errors'
+import * as settings from './settings'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A custom HMAC signing scheme, for providers without a built-in scheme.
+ */
+export interface HmacScheme {
+  /** The hash algorithm. Defaults to `sha256`. */
+  algorithm?: HashAlgorithm
+
+  /** The encoding of the signature. Defaults to `hex`. */
+  encoding?: BinaryToTextEncoding
+
+  /** The header that carries the signature. */
+  header: string
+
+  /** A prefix to strip from the signature header, e.g. `sha256=`. */
+  prefix?: string
+
+  /**
+   * Builds the signed content from the payload and, with `timestampHeader`,
+   * the timestamp. Defaults to the payload, or `{timestamp}.{payload}`.
+   */
+  signedContent?: (payload: string, timestamp?: string) => string
+
+  /** The header that carries the delivery timestamp, in Unix seconds. */
+  timestampHeader?: string
+
+  type: 'hmac'
+}
+
+/**
+ * Options for `verifySignature`.
+ */
+export interface VerifySignatureOptions {
+  /** The application whose settings hold the signing secret. */
+  appId: string
+
+  /** The signing scheme: the name of a built-in provider scheme, or a custom HMAC scheme. */
+  scheme: HmacScheme | WebhookProvider
+
+  /** The settings key of the signing secret. */
+  secretSetting: string
+
+  /**
+   * How far in seconds a delivery's timestamp may be from the current time,
+   * for schemes that sign one. Defaults to 300.
+   */
+  tolerance?: number
+}
+
+/** The providers with a built-in signing scheme. */
+export type WebhookProvider = 'github' | 'shopify' | 'slack' | 'stripe'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** The default timestamp tolerance, in seconds. */
+const DEFAULT_TOLERANCE = 300
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/**
+ * Fails verification because the webhook is not set up correctly. This is the
+ * receiving app's fault, not the sender's, hence the 500 status.
+ * @internal
+ */
+function misconfigured(message: string, details: Record<string, any>): never {
+  throw new SimpleActionError(CONFIGURATION_ERROR, message, { details, status: 500 })
+}
+
+/** @internal */
+function reject(reason: string, scheme: string): never {
+  throw new SimpleActionError(INVALID_SIGNATURE, 'Webhook signature verification failed', {
+    details: { scheme },
+    reasons: [reason],
+    status: 401,
+  })
+}
+
+/**
+ * Returns a header value, matching the name case-insensitively.
+ * @internal
+ */
+function header(headers: Record<string, any>, name: string): string | undefined {
+  const lower = name.toLowerCase()
+  const key = Object.keys(headers ?? {}).find(candidate => candidate.toLowerCase() === lower)
+  const value = key === undefined ? undefined : headers[key]
+
+  return Array.isArray(value) ? value[0] : value === undefined || value === null ? undefined : String(value)
+}
+
+/**
+ * Checks that a Unix timestamp (in seconds) is within the tolerance window.
+ * @internal
+ */
+function checkTimestamp(timestamp: string | undefined, tolerance: number, scheme: string): string {
+  if (!timestamp || !/^\d+$/.test(timestamp)) {
+    return reject('missing or malformed timestamp', scheme)
+  }
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > tolerance) {
+    return reject(`timestamp is outside the ${tolerance}s tolerance window`, scheme)
+  }
+
+  return timestamp
+}
+
+/**
+ * Resolves a built-in provider into the equivalent HMAC scheme. Stripe is
+ * handled separately, as its header carries the timestamp and can carry
+ * several signatures.
+ * @internal
+ */
+function providerScheme(provider: Exclude<WebhookProvider, 'stripe'>): HmacScheme {
+  switch (provider) {
+    case 'github':
+      return { header: 'x-hub-signature-256', prefix: 'sha256=', type: 'hmac' }
+    case 'shopify':
+      return { encoding: 'base64', header: 'x-shopify-hmac-sha256', type: 'hmac' }
+    case 'slack':
+      return {
+        header: 'x-slack-signature',
+        prefix: 'v0=',
+        signedContent: (payload, timestamp) => `v0:${timestamp}:${payload}`,
+        timestampHeader: 'x-slack-request-timestamp',
+        type: 'hmac',
+      }
+    default:
+      return misconfigured(`unknown webhook signature scheme: ${provider}`, { scheme: provider })
+  }
+}
+
+/** @internal */
+function matches(expected: string, signature: string, encoding: BinaryToTextEncoding): boolean {
+  // Hex digests are case-insensitive; base64 ones are not.
+  return encoding === 'hex'
+    ? timingSafeEqual(expected, signature.toLowerCase())
+    : timingSafeEqual(expected, signature)
+}
+
+// ============================================================================
+// Public SDK Functions
+// ============================================================================
+
+/**
+ * Verifies the signature of an inbound webhook.
+ *
+ * @param payload The raw request body, exactly as received.
+ * @param headers The request headers.
+ * @param options The scheme and where the signing secret is stored.
+ * @param context The execution context.
+ * @returns A promise that resolves when the signature is valid.
+ * @throws {SimpleActionError} `INVALID_SIGNATURE` (status 401) if the signature
+ * is missing, does not match, or its timestamp is outside the tolerance window.
+ * @throws {SimpleActionError} `CONFIGURATION_ERROR` (status 500) if the options
+ * are incomplete, the scheme is unknown, or the secret is not set.
+ * @throws Will throw an error if the secret cannot be read from settings.
+ *
+ * @example
+ * ```typescript
+ * await verifySignature(request.data(), request.headers, {
+ *   appId: 'dev.simple.billing',
+ *   scheme: 'stripe',
+ *   secretSetting: 'stripe_webhook_secret',
+ * }, request.context)
+ * ```
+ */
+export async function verifySignature(payload: string, headers: Record<string, any>, options: VerifySignatureOptions, context: Context): Promise<void> {
+  if (!options?.appId || !options.secretSetting || !options.scheme) {
+    misconfigured('appId, scheme and secretSetting are required for signature verification', {
+      missing: ['appId', 'scheme', 'secretSetting'].filter(key => !options?.[key as keyof VerifySignatureOptions]),
+    })
+  }
+
+  const name = typeof options.scheme === 'string' ? options.scheme : 'hmac'
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE
+
+  const values = await settings.get(options.appId, [options.secretSetting], context)
+  const secret = values[options.secretSetting]
+  if (!secret) {
+    misconfigured(`webhook secret "${options.secretSetting}" is not set in the settings of ${options.appId}`, {
+      appId: options.appId,
+      setting: options.secretSetting,
+    })
+  }
+
+  if (options.scheme === 'stripe') {
+    // Stripe-Signature: t=1492774577,v1=5257a8...,v1=...
+    const fields = (header(headers, 'stripe-signature') ?? '').split(',').map(field => field.trim().split('='))
+    const signatures = fields.filter(([key, value]) => key === 'v1' && value).map(([, value]) => value)
+
+    if (signatures.length === 0) {
+      return reject('missing Stripe-Signature header', name)
+    }
+
+    const timestamp = checkTimestamp(fields.find(([key]) => key === 't')?.[1], tolerance, name)
+    const expected = hmac('sha256', secret, `${timestamp}.${payload}`)
+
+    if (!signatures.some(signature => matches(expected, signature, 'hex'))) {
+      return reject('signature mismatch', name)
+    }
+    return
+  }
+
+  const scheme = typeof options.scheme === 'string' ? providerScheme(options.scheme) : options.scheme
+  const encoding = scheme.encoding ?? 'hex'
+
+  let signature = header(headers, scheme.header)?.trim()
+  if (!signature) {
+    return reject(`missing ${scheme.header} header`, name)
+  }
+
+  if (scheme.prefix) {
+    if (!signature.startsWith(scheme.prefix)) {
+      return reject(`signature does not start with "${scheme.prefix}"`, name)
+    }
+    signature = signature.slice(scheme.prefix.length)
+  }
+
+  const timestamp = scheme.timestampHeader
+    ? checkTimestamp(header(headers, scheme.timestampHeader), tolerance, name)
+    : undefined
+  const content = scheme.signedContent
+    ? scheme.signedContent(payload, timestamp)
+    : timestamp === undefined ? payload : `${timestamp}.${payload}`
+
+  if (!matches(hmac(scheme.algorithm ?? 'sha256', secret, content, encoding), signature, encoding)) {
+    return reject('signature mismatch', name)
+  }
+}
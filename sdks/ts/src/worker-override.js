@@ -1,14 +1,87 @@
 /**
  * @file SDK Worker Override Module.
- * This file exports worker-compatible implementations of `execute` and
- * `executeAsync`. The SDK's build tool will use esbuild's `alias` feature
+ * This file exports worker-compatible implementations of `execute`,
+ * `executeBatch`, `executeBinary` and `executeAsync`. The SDK's build tool will use esbuild's `alias` feature
  * to replace the original `@simpleplatform/sdk/host` module with this one during
  * the async application build.
  */
+import { ABORTED, SimpleActionError, TIMEOUT } from './errors'
+
+/** The host action that executes several operations in one round trip. */
+export const BATCH_ACTION = 'runtime/batch:execute'
 
 // State and listeners are sandboxed within this module's closure.
 const pendingHostRequests = new Map()
 
+// Calls waiting to be flushed as a batch, and the batching configuration.
+let queuedCalls = []
+const batching = { enabled: false, maxSize: 25 }
+
+/**
+ * Removes a pending request and releases its timer and abort listener.
+ * @returns The removed entry, or `undefined` if it had already settled.
+ */
+function settle(requestId) {
+  const pending = pendingHostRequests.get(requestId)
+  if (!pending)
+    return undefined
+
+  pendingHostRequests.delete(requestId)
+  pending.cleanup()
+
+  return pending
+}
+
+/**
+ * Rejects a pending request locally and tells the host to stop working on it.
+ *
+ * The host only knows a batched call by its batch's ID, so cancelling one call
+ * of a batch just rejects it here; the batch is cancelled on the host once
+ * none of its calls are still waiting. A call that is still queued has not
+ * reached the host at all, and is dropped by the next flush.
+ */
+function cancel(requestId, error) {
+  const pending = settle(requestId)
+  if (!pending)
+    return
+
+  pending.reject(error)
+
+  if (pending.batchId) {
+    const batch = pendingHostRequests.get(pending.batchId)
+    if (batch && !batch.requestIds.some(id => pendingHostRequests.has(id))) {
+      cancel(pending.batchId, error)
+    }
+    return
+  }
+
+  if (queuedCalls.some(call => call.requestId === requestId))
+    return
+
+  // eslint-disable-next-line no-restricted-globals
+  self.postMessage({
+    requestId,
+    type: 'host_cancel',
+  })
+}
+
+/**
+ * Builds the rejection for a failed host response. The response is attached as
+ * `error.response`, so callers that need more than the error, such as the
+ * partial `data` of a GraphQL operation, can still read it.
+ */
+function failure(response) {
+  const error = SimpleActionError.fromResponse(response && response.error, 'Unknown host error')
+  error.response = response
+  return error
+}
+
+function abortError(actionName, signal) {
+  return new SimpleActionError(ABORTED, `host call "${actionName}" was aborted`, {
+    cause: signal && signal.reason,
+  })
+}
+
 // eslint-disable-next-line no-restricted-globals
 self.addEventListener('message', (event) => {
   const message = event && event.data
@@ -20,40 +93,251 @@ self.addEventListener('message', (event) => {
     return
   }
 
-  const pending = pendingHostRequests.get(message.requestId)
+  const pending = settle(message.requestId)
   if (!pending)
     return
 
   message.response.ok
-    ? pending.resolve(message.response)
-    : pending.reject(new Error(message.response.error ?? 'Unknown host error'))
-
-  pendingHostRequests.delete(message.requestId)
+    ? pending.resolve(pending.binary ? { body: message.body ?? new Uint8Array(0), response: message.response } : message.response)
+    : pending.reject(failure(message.response))
 })
 
+/**
+ * Registers a pending host request, arming its timeout and abort listener.
+ * @returns The new request ID.
+ */
+function track(actionName, options, resolve, reject) {
+  const { signal, timeout = 0 } = options
+  const requestId = crypto.randomUUID()
+
+  const onAbort = () => cancel(requestId, abortError(actionName, signal))
+  const timer = timeout > 0
+    ? setTimeout(() => cancel(requestId, new SimpleActionError(TIMEOUT, `host call "${actionName}" timed out after ${timeout}ms`, { status: 504 })), timeout)
+    : undefined
+
+  if (signal) {
+    signal.addEventListener('abort', onAbort, { once: true })
+  }
+
+  const cleanup = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer)
+    }
+
+    if (signal) {
+      signal.removeEventListener('abort', onAbort)
+    }
+  }
+
+  pendingHostRequests.set(requestId, { cleanup, reject, resolve })
+  return requestId
+}
+
+/**
+ * Posts a host request for an already-tracked request ID.
+ */
+function post(requestId, actionName, params, context, body) {
+  const hostRequest = {
+    ...(body !== undefined && { body }),
+    context,
+    executionId: context.logic.execution_id,
+    name: actionName,
+    params,
+    type: 'hostRequest',
+  }
+
+  // eslint-disable-next-line no-restricted-globals
+  self.postMessage({
+    request: hostRequest,
+    requestId,
+    type: 'host_request',
+  })
+}
+
+/**
+ * Sends a single host request immediately, bypassing the batching queue.
+ */
+function request(actionName, params, context, options) {
+  return new Promise((resolve, reject) => {
+    if (options.signal && options.signal.aborted) {
+      reject(abortError(actionName, options.signal))
+      return
+    }
+
+    post(track(actionName, options, resolve, reject), actionName, params, context)
+  })
+}
+
+/**
+ * Sends queued calls that share a context as one batch request. Each call keeps
+ * its own pending entry (and therefore its own timeout and abort signal); the
+ * batch entry only fans the host's responses out to them.
+ */
+function postBatch(calls, context) {
+  const batchId = crypto.randomUUID()
+
+  const each = (fn) => {
+    calls.forEach((call, index) => {
+      const pending = settle(call.requestId)
+      if (pending)
+        fn(pending, index)
+    })
+  }
+
+  pendingHostRequests.set(batchId, {
+    cleanup() {},
+    reject: error => each(pending => pending.reject(error)),
+    requestIds: calls.map(call => call.requestId),
+    resolve: response => each((pending, index) => {
+      const result = Array.isArray(response.data) ? response.data[index] : undefined
+
+      result && result.ok
+        ? pending.resolve(result)
+        : pending.reject(failure(result))
+    }),
+  })
+
+  for (const call of calls) {
+    pendingHostRequests.get(call.requestId).batchId = batchId
+  }
+
+  post(batchId, BATCH_ACTION, {
+    calls: calls.map(call => ({ id: call.requestId, name: call.actionName, params: call.params ?? null })),
+  }, context)
+}
+
+/**
+ * Sends every queued call, grouped by context and chunked by the batch size.
+ * Calls that were cancelled while queued are dropped.
+ */
+function flush() {
+  const calls = queuedCalls.filter(call => pendingHostRequests.has(call.requestId))
+  queuedCalls = []
+
+  const groups = new Map()
+  for (const call of calls) {
+    const group = groups.get(call.context) || []
+    group.push(call)
+    groups.set(call.context, group)
+  }
+
+  for (const [context, group] of groups) {
+    for (let i = 0; i < group.length; i += batching.maxSize) {
+      const chunk = group.slice(i, i + batching.maxSize)
+
+      chunk.length === 1
+        ? post(chunk[0].requestId, chunk[0].actionName, chunk[0].params, context)
+        : postBatch(chunk, context)
+    }
+  }
+}
+
+/**
+ * Configures automatic coalescing of concurrent host calls. When enabled, calls
+ * made in the same tick (e.g. under `Promise.all`) are sent as batches of up to
+ * `maxSize` operations instead of one message each.
+ *
+ * @param {import('./types').BatchingOptions} options The batching configuration.
+ */
+export function configureBatching(options) {
+  if (options.enabled !== undefined) {
+    batching.enabled = options.enabled
+  }
+
+  if (options.maxSize !== undefined) {
+    batching.maxSize = Math.max(1, options.maxSize)
+  }
+}
+
 /**
  * Worker-compatible implementation that returns a Promise and uses postMessage.
+ *
+ * The call is rejected with an `ABORTED` error when `options.signal` aborts, and
+ * with a `TIMEOUT` error when the host does not reply within `options.timeout`
+ * milliseconds. Without a `timeout` (or with `0`) the call waits as long as the
+ * host takes. In both cases the host receives a
+ * `host_cancel` message for the request, or, for a batched call, for its batch
+ * once every call in it has been cancelled.
+ *
+ * @param {string} actionName The host action to execute.
+ * @param {any} params The action parameters.
+ * @param {import('./types').Context} context The execution context.
+ * @param {import('./types').ExecuteOptions} [options] Per-call timeout and abort signal.
  * @returns {Promise<import('./types').SimpleResponse<any>>} A promise that resolves with the host response
  */
-export function execute(actionName, params, context) {
+export function execute(actionName, params, context, options = {}) {
+  if (!batching.enabled) {
+    return request(actionName, params, context, options)
+  }
+
   return new Promise((resolve, reject) => {
-    const requestId = crypto.randomUUID()
-    pendingHostRequests.set(requestId, { reject, resolve })
+    if (options.signal && options.signal.aborted) {
+      reject(abortError(actionName, options.signal))
+      return
+    }
 
-    const hostRequest = {
+    if (queuedCalls.length === 0) {
+      queueMicrotask(flush)
+    }
+
+    queuedCalls.push({
+      actionName,
       context,
-      executionId: context.logic.execution_id,
-      name: actionName,
       params,
-      type: 'hostRequest',
+      requestId: track(actionName, options, resolve, reject),
+    })
+  })
+}
+
+/**
+ * Worker-compatible batch implementation. Sends all operations in one message
+ * and resolves with one `SimpleResponse` per operation. If the batch itself
+ * fails, every operation reports that failure, matching `host.ts`.
+ *
+ * @param {import('./types').BatchCall[]} calls The operations to execute.
+ * @param {import('./types').Context} context The execution context.
+ * @param {import('./types').ExecuteOptions} [options] Options applied to the combined call.
+ * @returns {Promise<import('./types').SimpleResponse<any>[]>} One response per operation
+ */
+export function executeBatch(calls, context, options = {}) {
+  if (calls.length === 0) {
+    return Promise.resolve([])
+  }
+
+  const payload = { calls: calls.map(call => ({ name: call.action, params: call.params ?? null })) }
+  const failAll = error => calls.map(() => ({ error, ok: false }))
+
+  return request(BATCH_ACTION, payload, context, options).then(
+    response => Array.isArray(response.data)
+      ? response.data
+      : failAll({ message: 'Host returned an invalid batch response.' }),
+    error => failAll(SimpleActionError.from(error).toJSON()),
+  )
+}
+
+/**
+ * Worker-compatible binary implementation. The request body is posted as a
+ * `Uint8Array` (structured clone keeps it binary) and the host replies with the
+ * raw response body in `message.body`. Binary calls are never batched.
+ *
+ * @param {string} actionName The host action to execute.
+ * @param {any} params The action parameters.
+ * @param {Uint8Array} body The raw request body.
+ * @param {import('./types').Context} context The execution context.
+ * @param {import('./types').ExecuteOptions} [options] Per-call timeout and abort signal.
+ * @returns {Promise<import('./types').BinaryResponse<any>>} A promise that resolves with the response and its raw body
+ */
+export function executeBinary(actionName, params, body, context, options = {}) {
+  return new Promise((resolve, reject) => {
+    if (options.signal && options.signal.aborted) {
+      reject(abortError(actionName, options.signal))
+      return
     }
 
-    // eslint-disable-next-line no-restricted-globals
-    self.postMessage({
-      request: hostRequest,
-      requestId,
-      type: 'host_request',
-    })
+    const requestId = track(actionName, options, resolve, reject)
+    pendingHostRequests.get(requestId).binary = true
+
+    post(requestId, actionName, params, context, body)
   })
 }
 
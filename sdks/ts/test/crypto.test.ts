@@ -0,0 +1,128 @@
+/**
+ * @file Tests the pure-JS digests and MACs of the crypto module against
+ * published test vectors (FIPS 180-2, RFC 2202 and RFC 4231) and against
+ * `node:crypto`, and checks `timingSafeEqual`.
+ */
+import type { HashAlgorithm } from '../src/crypto'
+import { createHash, createHmac } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import { hash, hmac, timingSafeEqual } from '../src/crypto'
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const ALGORITHMS: HashAlgorithm[] = ['sha1', 'sha256', 'sha384', 'sha512']
+
+/** FIPS 180-2 examples: the digests of "abc" and of the two-block message. */
+const HASH_VECTORS: Array<[HashAlgorithm, string, string]> = [
+  ['sha1', 'abc', 'a9993e364706816aba3e25717850c26c9cd0d89d'],
+  ['sha1', 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '84983e441c3bd26ebaae4aa1f95129e5e54670f1'],
+  ['sha256', '', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+  ['sha256', 'abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+  ['sha256', 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'],
+  ['sha384', 'abc', 'cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7'],
+  ['sha512', 'abc', 'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f'],
+]
+
+/** RFC 4231 test cases 1, 2 and 6 (a key longer than the block size). */
+const HMAC_VECTORS: Array<{ data: string, key: Uint8Array | string, sha256: string, sha384: string, sha512: string }> = [
+  {
+    data: 'Hi There',
+    key: new Uint8Array(20).fill(0x0B),
+    sha256: 'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7',
+    sha384: 'afd03944d84895626b0825f4ab46907f15f9dadbe4101ec682aa034c7cebc59cfaea9ea9076ede7f4af152e8b2fa9cb6',
+    sha512: '87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cdedaa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854',
+  },
+  {
+    data: 'what do ya want for nothing?',
+    key: 'Jefe',
+    sha256: '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    sha384: 'af45d2e376484031617f78d2b58a6b1b9c7ef464f5a01b47e42ec3736322445e8e2240ca5e69e2c78b3239ecfab21649',
+    sha512: '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737',
+  },
+  {
+    data: 'Test Using Larger Than Block-Size Key - Hash Key First',
+    key: new Uint8Array(131).fill(0xAA),
+    sha256: '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54',
+    sha384: '4ece084485813e9088d2c63a041bc5b44f9ef1012a2b588f3cd11f05033ac4c60c2ef6ab4030fe8296248df163f44952',
+    sha512: '80b24263c7c1a3ebb71493c1dd7be8b49b46d1f41b4aeec1121b013783f8f3526b56d037e05f2598bd0fd2215d6a1e5295e64f73f63f0aec8b915a985d786598',
+  },
+]
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('hash', () => {
+  it.each(HASH_VECTORS)('computes %s(%j)', (algorithm, data, digest) => {
+    expect(hash(algorithm, data)).toBe(digest)
+  })
+
+  it.each(ALGORITHMS)('matches node:crypto for %s across block boundaries', (algorithm) => {
+    for (let length = 0; length <= 260; length++) {
+      const data = 'x'.repeat(length)
+      expect(hash(algorithm, data)).toBe(createHash(algorithm).update(data).digest('hex'))
+    }
+  })
+
+  it('hashes strings as UTF-8 and bytes as given', () => {
+    const text = 'Grüße, 世界 🌍'
+
+    expect(hash('sha256', text)).toBe(createHash('sha256').update(text, 'utf8').digest('hex'))
+    expect(hash('sha256', new TextEncoder().encode(text))).toBe(hash('sha256', text))
+    expect(hash('sha256', new TextEncoder().encode(text).buffer)).toBe(hash('sha256', text))
+  })
+
+  it('encodes the digest as requested', () => {
+    const expected = createHash('sha256').update('abc').digest()
+
+    expect(hash('sha256', 'abc', 'base64')).toBe(expected.toString('base64'))
+    expect(hash('sha256', 'abc', 'base64url')).toBe(expected.toString('base64url'))
+    expect(hash('sha256', 'abc', 'bytes')).toEqual(new Uint8Array(expected))
+  })
+})
+
+describe('hmac', () => {
+  it.each(HMAC_VECTORS)('computes the RFC 4231 MACs of $data', ({ data, key, ...macs }) => {
+    expect(hmac('sha256', key, data)).toBe(macs.sha256)
+    expect(hmac('sha384', key, data)).toBe(macs.sha384)
+    expect(hmac('sha512', key, data)).toBe(macs.sha512)
+  })
+
+  it('computes the RFC 2202 HMAC-SHA1 MAC', () => {
+    expect(hmac('sha1', 'Jefe', 'what do ya want for nothing?')).toBe('effcdf6ae5eb2fa2d27416d5f184df9c259a7c79')
+  })
+
+  it.each(ALGORITHMS)('matches node:crypto for %s with keys around the block size', (algorithm) => {
+    for (const length of [0, 1, 63, 64, 65, 127, 128, 129, 200]) {
+      const key = 'k'.repeat(length)
+      expect(hmac(algorithm, key, 'payload', 'base64')).toBe(createHmac(algorithm, key).update('payload').digest('base64'))
+    }
+  })
+})
+
+describe('timingSafeEqual', () => {
+  it('returns true for equal values', () => {
+    expect(timingSafeEqual('', '')).toBe(true)
+    expect(timingSafeEqual('secret', 'secret')).toBe(true)
+    expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(true)
+  })
+
+  it('compares strings and bytes by their UTF-8 encoding', () => {
+    expect(timingSafeEqual('\u00E9', new Uint8Array([0xC3, 0xA9]))).toBe(true)
+    expect(timingSafeEqual('\u00E9', 'e\u0301')).toBe(false)
+  })
+
+  it.each([
+    ['values that differ in the last byte', 'secret', 'secreT'],
+    ['values that differ in the first byte', 'secret', 'Secret'],
+    ['a value and its prefix', 'secret', 'secre'],
+    ['a prefix and the value', 'secre', 'secret'],
+    ['an empty value and a non-empty one', '', 'a'],
+    ['a non-empty value and an empty one', 'a', ''],
+    ['a value and a repetition of it', 'ab', 'abab'],
+  ])('returns false for %s', (_, a, b) => {
+    expect(timingSafeEqual(a, b)).toBe(false)
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * @file Tests the GraphQL parser and printer against the reference
+ * implementation (`graphql-js`): documents in the supported subset must parse
+ * to interchangeable ASTs and print to the same text, and documents outside it
+ * must be rejected with a located syntax error.
+ */
+import type { DocumentNode as ReferenceDocumentNode } from 'graphql'
+import type { DocumentNode } from '../src/internal/graphql-parser'
+import { parse as referenceParse, print as referencePrint } from 'graphql'
+import { describe, expect, it } from 'vitest'
+import { GraphQLSyntaxError, parse, parseSchema, print } from '../src/internal/graphql-parser'
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/** Executable documents covering every construct `parse` supports. */
+const EXECUTABLE_DOCUMENTS: Record<string, string> = {
+  'aliases and arguments': '{ me: user(id: 4) { first: name(format: SHORT) } }',
+  'block string with embedded triple quotes': '{ a(text: """contains \\""" quotes""") }',
+  'block string with indentation': '{ a(text: """\n    one\n      two\n  """) }',
+  'block string with leading whitespace': '{ a(text: """  indented""") }',
+  'block string with trailing quote': '{ a(text: """ends with a "quote"\n""") }',
+  'comments and commas': '# leading comment\nquery Q,, { a, b # trailing\n c }',
+  'directives everywhere': 'query Q($a: Int @dir) @op { a @include(if: true) ...F @skip(if: false) ... @defer { b } }\nfragment F on T @frag { c }',
+  'fragments': 'query { ...Fields ... on User { id } } fragment Fields on Query { a }',
+  'long argument list': `{ a(first: "${'x'.repeat(40)}", second: "${'y'.repeat(40)}") { b(c: 1) } }`,
+  'long block string': `{ a(text: """${'x'.repeat(80)}""") }`,
+  'multi-line block string': '{ a(text: """\n  first\n\n  second\n""") }',
+  'mutation': 'mutation CreateOrder($input: OrderInput!) { createOrder(input: $input) { id } }',
+  'nested selections': '{ a { b { c { d } } } }',
+  'numbers': '{ a(i: -12, f: 1.5e-3, g: 0.25, h: 6E10) }',
+  'operation without a name': 'query ($id: ID!) { node(id: $id) { id } }',
+  'query shorthand': '{ a }',
+  'several operations': 'query A { a } mutation B { b } subscription C { c }',
+  'strings with escapes': '{ a(s: "tab\\tline\\nquote\\"slash\\\\unicode\\u00e9") }',
+  'subscription': 'subscription OnEvent { event { id } }',
+  'values': '{ a(list: [1, [2, 3]], obj: {k: "v", n: null, e: ENUM, b: false, nested: {x: $x}}) }',
+  'variable defaults and types': 'query Q($a: Int = 1, $b: [String!]! = ["x"], $c: Input = {k: [1]}) { a }',
+}
+
+/** Schema (SDL) documents covering every construct `parseSchema` supports. */
+const SCHEMA_DOCUMENTS: Record<string, string> = {
+  'descriptions': '"""\nA user.\n"""\ntype User { "The id." id("Arg." a: Int): ID! }\n"An enum." enum E { "A value." A }',
+  'directive definitions': 'directive @cache(ttl: Int = 60) repeatable on FIELD_DEFINITION | OBJECT',
+  'enums': 'enum Color { RED GREEN @deprecated(reason: "no") }',
+  'extensions': 'extend schema @d\nextend type A { x: Int }\nextend union U = C\nextend enum E { C }\nextend input I { b: Int }\nextend scalar S @d\nextend interface I { b: Int }',
+  'input objects': 'input OrderInput { quantity: Int = 1, notes: [String!] }',
+  'interfaces': 'interface Node implements Entity { id: ID! }\ntype User implements Node & Entity { id: ID! }',
+  'scalars': 'scalar DateTime @specifiedBy(url: "https://example.com")',
+  'schema definition': '"The schema." schema { query: Query mutation: Mutation }',
+  'type without fields': 'type Empty',
+  'unions': 'union Result = | User | Error',
+}
+
+/** Documents that neither implementation accepts. */
+const INVALID_DOCUMENTS: Record<string, string> = {
+  'empty document': '',
+  'fragment named on': 'fragment on on T { a }',
+  'missing closing brace': '{ a { b }',
+  'missing variable type': 'query ($a) { a }',
+  'selection without fields': '{ }',
+  'unterminated string': '{ a(s: "open) }',
+  'variable in a default value': 'query ($a: Int = $b) { a }',
+}
+
+/** Block string values whose printed form needs care to read back the same. */
+const BLOCK_STRING_VALUES = [
+  'plain',
+  '  leading whitespace',
+  'trailing backslash\\',
+  'trailing quote "',
+  'embedded """ quotes',
+  'ends with """',
+  'first\n  second',
+  'first\n\n  after an empty line',
+  'x'.repeat(80),
+]
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Reads the value of the first argument of the first field of a document. */
+function argumentValue(document: DocumentNode): unknown {
+  const [operation] = document.definitions
+  const [field] = operation.selectionSet.selections
+  const value = field.kind === 'Field' ? field.arguments?.[0]?.value : undefined
+
+  return value?.kind === 'StringValue' ? value.value : undefined
+}
+
+/** Parses and prints a document with the reference implementation. */
+function referenceRoundTrip(source: string): string {
+  return referencePrint(referenceParse(source))
+}
+
+/** Returns the syntax error thrown by `fn`, failing the test if it returns. */
+function syntaxError(fn: () => unknown): GraphQLSyntaxError {
+  try {
+    fn()
+  }
+  catch (error) {
+    expect(error).toBeInstanceOf(GraphQLSyntaxError)
+    return error as GraphQLSyntaxError
+  }
+
+  throw new Error('expected a GraphQLSyntaxError')
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('parse and print', () => {
+  it.each(Object.entries(EXECUTABLE_DOCUMENTS))('prints %s like graphql-js', (_, source) => {
+    expect(print(parse(source))).toBe(referenceRoundTrip(source))
+  })
+
+  it.each(Object.entries(EXECUTABLE_DOCUMENTS))('produces an AST graphql-js can print for %s', (_, source) => {
+    const document = parse(source) as unknown as ReferenceDocumentNode
+    expect(referencePrint(document)).toBe(referenceRoundTrip(source))
+  })
+
+  it.each(Object.entries(EXECUTABLE_DOCUMENTS))('prints an AST from graphql-js for %s', (_, source) => {
+    const document = referenceParse(source, { noLocation: true }) as unknown as DocumentNode
+    expect(print(document)).toBe(referenceRoundTrip(source))
+  })
+
+  it.each(Object.entries(EXECUTABLE_DOCUMENTS))('keeps %s stable across round trips', (_, source) => {
+    const printed = print(parse(source))
+    expect(print(parse(printed))).toBe(printed)
+  })
+
+  it.each(BLOCK_STRING_VALUES)('prints the block string %j so that it parses back to the same value', (value) => {
+    const printed = print({
+      definitions: [{
+        kind: 'OperationDefinition',
+        operation: 'query',
+        selectionSet: {
+          kind: 'SelectionSet',
+          selections: [{
+            arguments: [{ kind: 'Argument', name: { kind: 'Name', value: 's' }, value: { block: true, kind: 'StringValue', value } }],
+            kind: 'Field',
+            name: { kind: 'Name', value: 'a' },
+          }],
+        },
+      }],
+      kind: 'Document',
+    })
+
+    expect(printed).toContain('"""')
+    expect(argumentValue(parse(printed))).toBe(value)
+    expect(argumentValue(referenceParse(printed) as unknown as DocumentNode)).toBe(value)
+  })
+})
+
+describe('parseSchema', () => {
+  it.each(Object.entries(SCHEMA_DOCUMENTS))('parses %s like graphql-js', (_, source) => {
+    const ours = parseSchema(source).definitions
+    const reference = referenceParse(source, { noLocation: true }).definitions
+
+    expect(ours.map(definition => definition.kind.replace('Extension', 'Definition'))).toEqual(
+      reference.map(definition => definition.kind.replace('Extension', 'Definition')),
+    )
+    expect(ours.map(definition => 'name' in definition ? definition.name.value : undefined)).toEqual(
+      reference.map(definition => 'name' in definition ? definition.name?.value : undefined),
+    )
+  })
+
+  it('keeps descriptions as their string value', () => {
+    const [type] = parseSchema('"""\n  A user.\n"""\ntype User { "The id." id: ID! }').definitions
+
+    expect(type).toMatchObject({
+      description: 'A user.',
+      fields: [{ description: 'The id.', name: { value: 'id' } }],
+    })
+  })
+
+  it('rejects executable definitions', () => {
+    expect(syntaxError(() => parseSchema('type A { a: Int }\nquery { a }'))).toMatchObject({ column: 1, line: 2 })
+  })
+})
+
+describe('unsupported and invalid documents', () => {
+  it.each(['type A { a: Int }', '"described" type A', 'extend type A { b: Int }', 'directive @d on FIELD'])('rejects the type system definition %j in parse, which graphql-js accepts', (source) => {
+    expect(() => referenceParse(source)).not.toThrow()
+    expect(syntaxError(() => parse(source)).code).toBe('GRAPHQL_SYNTAX_ERROR')
+  })
+
+  it.each(Object.entries(INVALID_DOCUMENTS))('rejects %s like graphql-js', (_, source) => {
+    expect(() => referenceParse(source)).toThrow()
+    expect(syntaxError(() => parse(source)).status).toBe(400)
+  })
+
+  it('reports the position graphql-js reports', () => {
+    const source = 'query {\n  a(b: )\n}'
+    const error = syntaxError(() => parse(source))
+
+    try {
+      referenceParse(source)
+    }
+    catch (reference: any) {
+      expect({ column: error.column, line: error.line }).toEqual(reference.locations[0])
+    }
+  })
+})
@@ -0,0 +1,216 @@
+/**
+ * @file Tests the retry policy and the per-host circuit breaker of the http
+ * module against the mock host. Retries use no backoff delay, and every test
+ * runs under its own execution ID, which keys the circuit breaker state.
+ */
+import type { HttpRequest, RetryPolicy } from '../src/http'
+import type { MockHost } from '../src/testing'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { HttpError, request } from '../src/http'
+import { createContext, mockHost } from '../src/testing'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const FETCH_ACTION = 'action:http/fetch'
+
+let host: MockHost
+let executions = 0
+
+/** A context with a new execution ID, and therefore fresh circuits. */
+function freshContext() {
+  const context = createContext()
+  context.logic.execution_id = `http-test-${++executions}`
+  return context
+}
+
+/** Answers HTTP requests with the given statuses in turn, repeating the last one. */
+function respondWith(...statuses: Array<number | { headers: Record<string, string>, status: number }>): void {
+  let call = 0
+  host.on(FETCH_ACTION, () => {
+    const next = statuses[Math.min(call++, statuses.length - 1)]
+    const { headers = {}, status } = typeof next === 'number' ? { status: next } : next
+    return { body: `status ${status}`, headers, status }
+  })
+}
+
+/** Sends a request with a retry policy that does not wait between attempts. */
+function send(config: Omit<Partial<HttpRequest>, 'retry'> & { retry?: RetryPolicy }, context = freshContext()) {
+  return request({ method: 'GET', url: 'https://api.example.com/orders', ...config, retry: { initialDelay: 0, ...config.retry } }, context)
+}
+
+beforeEach(() => {
+  host = mockHost().install()
+})
+
+afterEach(() => {
+  host.uninstall()
+  vi.useRealTimers()
+})
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('retry policy', () => {
+  it('retries transient statuses until a request succeeds', async () => {
+    respondWith(503, 429, 200)
+
+    expect((await send({})).status).toBe(200)
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(3)
+  })
+
+  it('throws the last failure once the attempts run out', async () => {
+    respondWith(502)
+
+    await expect(send({ retry: { attempts: 4 } })).rejects.toMatchObject({ name: 'HttpError', status: 502 })
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(4)
+  })
+
+  it('does not retry permanent failures', async () => {
+    respondWith(404, 200)
+
+    await expect(send({})).rejects.toBeInstanceOf(HttpError)
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(1)
+  })
+
+  it('retries only the statuses of the policy', async () => {
+    respondWith(500, 200)
+
+    await expect(send({ retry: { statuses: [503] } })).rejects.toMatchObject({ status: 500 })
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(1)
+  })
+
+  it('does not retry a request that is not idempotent', async () => {
+    respondWith(503, 200)
+
+    await expect(send({ method: 'POST' })).rejects.toMatchObject({ status: 503 })
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(1)
+  })
+
+  it('retries a POST that carries an Idempotency-Key header', async () => {
+    respondWith(503, 200)
+
+    expect((await send({ headers: { 'Idempotency-Key': 'order-42' }, method: 'POST' })).status).toBe(200)
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(2)
+  })
+
+  it('gives up when Retry-After asks for more than maxDelay', async () => {
+    respondWith({ headers: { 'retry-after': '60' }, status: 503 }, 200)
+
+    await expect(send({})).rejects.toMatchObject({ status: 503 })
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(1)
+  })
+
+  it('ignores Retry-After when the policy says so', async () => {
+    respondWith({ headers: { 'retry-after': '60' }, status: 503 }, 200)
+
+    expect((await send({ retry: { respectRetryAfter: false } })).status).toBe(200)
+  })
+
+  it('returns a retried status that validateStatus accepts once the attempts run out', async () => {
+    respondWith(503)
+
+    const response = await send({ retry: { attempts: 2 }, validateStatus: () => true })
+    expect(response.status).toBe(503)
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(2)
+  })
+
+  it('does not retry without a policy', async () => {
+    respondWith(503, 200)
+
+    await expect(request({ url: 'https://api.example.com/orders' }, freshContext())).rejects.toMatchObject({ status: 503 })
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(1)
+  })
+})
+
+describe('circuit breaker', () => {
+  const breaker = { attempts: 1, circuitBreaker: { cooldown: 1000, threshold: 2 } }
+
+  it('opens after consecutive transient failures and rejects calls without reaching the host', async () => {
+    const context = freshContext()
+    respondWith(503)
+
+    await expect(send({ retry: breaker }, context)).rejects.toMatchObject({ status: 503 })
+    await expect(send({ retry: breaker }, context)).rejects.toMatchObject({ status: 503 })
+    await expect(send({ retry: breaker }, context)).rejects.toMatchObject({
+      code: 'CIRCUIT_OPEN',
+      details: { failures: 2, url: 'https://api.example.com/orders' },
+      status: 503,
+    })
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(2)
+  })
+
+  it('stops retrying once the circuit opens', async () => {
+    respondWith(503)
+
+    await expect(send({ retry: { attempts: 5, circuitBreaker: { threshold: 2 } } })).rejects.toMatchObject({ status: 503 })
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(2)
+  })
+
+  it('lets a trial request through after the cooldown, and closes on success', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const context = freshContext()
+    respondWith(503, 503, 200)
+
+    await expect(send({ retry: breaker }, context)).rejects.toBeInstanceOf(HttpError)
+    await expect(send({ retry: breaker }, context)).rejects.toBeInstanceOf(HttpError)
+    await expect(send({ retry: breaker }, context)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' })
+
+    vi.advanceTimersByTime(1000)
+    expect((await send({ retry: breaker }, context)).status).toBe(200)
+
+    // One success resets the count: a single failure does not reopen it.
+    respondWith(503, 200)
+    await expect(send({ retry: breaker }, context)).rejects.toBeInstanceOf(HttpError)
+    expect((await send({ retry: breaker }, context)).status).toBe(200)
+  })
+
+  it('reopens when the trial request fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const context = freshContext()
+    respondWith(503)
+
+    await expect(send({ retry: breaker }, context)).rejects.toBeInstanceOf(HttpError)
+    await expect(send({ retry: breaker }, context)).rejects.toBeInstanceOf(HttpError)
+
+    vi.advanceTimersByTime(1000)
+    await expect(send({ retry: breaker }, context)).rejects.toMatchObject({ status: 503 })
+    await expect(send({ retry: breaker }, context)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' })
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(3)
+  })
+
+  it('keeps a circuit per host and per execution', async () => {
+    const context = freshContext()
+    respondWith(503)
+
+    await expect(send({ retry: breaker }, context)).rejects.toBeInstanceOf(HttpError)
+    await expect(send({ retry: breaker }, context)).rejects.toBeInstanceOf(HttpError)
+    await expect(send({ retry: breaker }, context)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' })
+
+    respondWith(200)
+    expect((await send({ retry: breaker, url: 'https://API.other.example.com/orders' }, context)).status).toBe(200)
+    expect((await send({ retry: breaker })).status).toBe(200)
+  })
+
+  it('does not count permanent failures', async () => {
+    const context = freshContext()
+    respondWith(404)
+
+    for (let i = 0; i < 3; i++) {
+      await expect(send({ retry: breaker }, context)).rejects.toMatchObject({ status: 404 })
+    }
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(3)
+  })
+
+  it('never opens when disabled', async () => {
+    const context = freshContext()
+    respondWith(503)
+
+    for (let i = 0; i < 3; i++) {
+      await expect(send({ retry: { attempts: 1, circuitBreaker: false } }, context)).rejects.toMatchObject({ status: 503 })
+    }
+    expect(host.callsTo(FETCH_ACTION)).toHaveLength(3)
+  })
+})
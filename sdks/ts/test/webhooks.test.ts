@@ -0,0 +1,184 @@
+/**
+ * @file Tests webhook signature verification through `request.verifySignature`,
+ * running handlers against the mock host. Expected signatures are computed
+ * with `node:crypto`, independently of the SDK's own HMAC.
+ */
+import type { VerifySignatureOptions } from '../src/webhooks'
+import { createHmac } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import { runHandler } from '../src/testing'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const SECRET = 'whsec_test'
+const PAYLOAD = '{"event":"order.created","id":42}'
+
+/** Signs content with `node:crypto`. */
+function sign(content: string, encoding: 'base64' | 'base64url' | 'hex' = 'hex', algorithm = 'sha256', secret = SECRET): string {
+  return createHmac(algorithm, secret).update(content).digest(encoding)
+}
+
+/** The current time in Unix seconds, as webhook timestamps are sent. */
+function now(offset = 0): string {
+  return String(Math.floor(Date.now() / 1000) + offset)
+}
+
+/**
+ * Runs a handler that verifies the request's signature, with the secret
+ * stored in the `billing` app's settings.
+ */
+async function verify(headers: Record<string, any>, options: Partial<VerifySignatureOptions>, secret: null | string = SECRET) {
+  return runHandler(async (request) => {
+    await request.verifySignature({ appId: 'billing', scheme: 'github', secretSetting: 'webhook_secret', ...options })
+    return 'verified'
+  }, {
+    request: { data: PAYLOAD, headers },
+    responses: { 'action:settings/get': { data: { webhook_secret: secret }, ok: true } },
+  })
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('verifySignature', () => {
+  it('reads the secret from the app settings', async () => {
+    const result = await verify({ 'X-Hub-Signature-256': `sha256=${sign(PAYLOAD)}` }, {})
+
+    expect(result.done).toMatchObject({ data: 'verified', ok: true })
+    expect(result.calls).toEqual([
+      expect.objectContaining({ action: 'action:settings/get', params: { app_id: 'billing', keys: ['webhook_secret'] } }),
+    ])
+  })
+
+  describe('github', () => {
+    it('accepts a valid signature, in either case', async () => {
+      for (const signature of [sign(PAYLOAD), sign(PAYLOAD).toUpperCase()]) {
+        const result = await verify({ 'x-hub-signature-256': `sha256=${signature}` }, { scheme: 'github' })
+        expect(result.done?.ok).toBe(true)
+      }
+    })
+
+    it.each([
+      ['a signature over other content', { 'x-hub-signature-256': `sha256=${sign(`${PAYLOAD} `)}` }, 'signature mismatch'],
+      ['a signature made with another secret', { 'x-hub-signature-256': `sha256=${sign(PAYLOAD, 'hex', 'sha256', 'other')}` }, 'signature mismatch'],
+      ['a truncated signature', { 'x-hub-signature-256': `sha256=${sign(PAYLOAD).slice(0, 32)}` }, 'signature mismatch'],
+      ['a signature without its prefix', { 'x-hub-signature-256': sign(PAYLOAD) }, 'signature does not start with "sha256="'],
+      ['no signature header', {}, 'missing x-hub-signature-256 header'],
+    ])('rejects %s with INVALID_SIGNATURE', async (_, headers, reason) => {
+      const result = await verify(headers, { scheme: 'github' })
+
+      expect(result.done).toMatchObject({
+        error: { code: 'INVALID_SIGNATURE', details: { scheme: 'github' }, reasons: [reason], status: 401 },
+        ok: false,
+      })
+    })
+  })
+
+  describe('shopify', () => {
+    it('compares base64 signatures', async () => {
+      const signature = sign(PAYLOAD, 'base64')
+
+      expect((await verify({ 'X-Shopify-Hmac-Sha256': signature }, { scheme: 'shopify' })).done?.ok).toBe(true)
+      expect((await verify({ 'X-Shopify-Hmac-Sha256': signature.toLowerCase() }, { scheme: 'shopify' })).done?.ok).toBe(false)
+    })
+  })
+
+  describe('slack', () => {
+    const headers = (timestamp: string, signature = sign(`v0:${timestamp}:${PAYLOAD}`)) => ({
+      'X-Slack-Request-Timestamp': timestamp,
+      'X-Slack-Signature': `v0=${signature}`,
+    })
+
+    it('accepts a signature over the timestamp and payload', async () => {
+      expect((await verify(headers(now()), { scheme: 'slack' })).done?.ok).toBe(true)
+    })
+
+    it('rejects a timestamp outside the tolerance window', async () => {
+      const stale = now(-301)
+      const result = await verify(headers(stale), { scheme: 'slack' })
+
+      expect(result.done?.error).toMatchObject({ code: 'INVALID_SIGNATURE', reasons: ['timestamp is outside the 300s tolerance window'] })
+      expect((await verify(headers(stale), { scheme: 'slack', tolerance: 600 })).done?.ok).toBe(true)
+    })
+
+    it('rejects a signature replayed with another timestamp', async () => {
+      const result = await verify(headers(now(), sign(`v0:${now(-60)}:${PAYLOAD}`)), { scheme: 'slack' })
+      expect(result.done?.error?.reasons).toEqual(['signature mismatch'])
+    })
+
+    it('rejects a malformed timestamp', async () => {
+      const result = await verify(headers('yesterday'), { scheme: 'slack' })
+      expect(result.done?.error?.reasons).toEqual(['missing or malformed timestamp'])
+    })
+  })
+
+  describe('stripe', () => {
+    it('accepts any matching v1 signature', async () => {
+      const timestamp = now()
+      const header = `t=${timestamp},v0=${sign('ignored')},v1=${'0'.repeat(64)},v1=${sign(`${timestamp}.${PAYLOAD}`)}`
+
+      expect((await verify({ 'Stripe-Signature': header }, { scheme: 'stripe' })).done?.ok).toBe(true)
+    })
+
+    it.each([
+      ['no v1 signature', (timestamp: string) => `t=${timestamp},v0=${sign(`${timestamp}.${PAYLOAD}`)}`, 'missing Stripe-Signature header'],
+      ['no timestamp', (timestamp: string) => `v1=${sign(`${timestamp}.${PAYLOAD}`)}`, 'missing or malformed timestamp'],
+      ['a stale timestamp', () => `t=${now(-3600)},v1=${sign(`${now(-3600)}.${PAYLOAD}`)}`, 'timestamp is outside the 300s tolerance window'],
+      ['a signature without the timestamp', (timestamp: string) => `t=${timestamp},v1=${sign(PAYLOAD)}`, 'signature mismatch'],
+    ])('rejects a header with %s', async (_, header, reason) => {
+      const result = await verify({ 'stripe-signature': header(now()) }, { scheme: 'stripe' })
+      expect(result.done?.error).toMatchObject({ code: 'INVALID_SIGNATURE', reasons: [reason], status: 401 })
+    })
+  })
+
+  describe('custom HMAC schemes', () => {
+    it('uses the algorithm, encoding and prefix of the scheme', async () => {
+      const result = await verify({ 'X-Signature': `hmac ${sign(PAYLOAD, 'base64url', 'sha512')}` }, {
+        scheme: { algorithm: 'sha512', encoding: 'base64url', header: 'x-signature', prefix: 'hmac ', type: 'hmac' },
+      })
+
+      expect(result.done?.ok).toBe(true)
+    })
+
+    it('signs `{timestamp}.{payload}` when the scheme has a timestamp header', async () => {
+      const timestamp = now()
+      const result = await verify({ 'x-signature': sign(`${timestamp}.${PAYLOAD}`), 'x-timestamp': timestamp }, {
+        scheme: { header: 'x-signature', timestampHeader: 'x-timestamp', type: 'hmac' },
+      })
+
+      expect(result.done?.ok).toBe(true)
+    })
+
+    it('uses the signed content the scheme builds', async () => {
+      const result = await verify({ 'x-signature': sign(`POST /hooks\n${PAYLOAD}`, 'hex', 'sha1') }, {
+        scheme: { algorithm: 'sha1', header: 'x-signature', signedContent: payload => `POST /hooks\n${payload}`, type: 'hmac' },
+      })
+
+      expect(result.done?.ok).toBe(true)
+    })
+  })
+
+  describe('configuration errors', () => {
+    it('fails with CONFIGURATION_ERROR when the secret is not set', async () => {
+      const result = await verify({ 'x-hub-signature-256': `sha256=${sign(PAYLOAD)}` }, {}, null)
+
+      expect(result.done?.error).toMatchObject({ code: 'CONFIGURATION_ERROR', status: 500 })
+    })
+
+    it('fails with CONFIGURATION_ERROR for incomplete options, without reading settings', async () => {
+      const result = await verify({}, { secretSetting: '' })
+
+      expect(result.done?.error).toMatchObject({ code: 'CONFIGURATION_ERROR', details: { missing: ['secretSetting'] }, status: 500 })
+      expect(result.calls).toEqual([])
+    })
+
+    it('fails with CONFIGURATION_ERROR for an unknown scheme', async () => {
+      const result = await verify({}, { scheme: 'paypal' as VerifySignatureOptions['scheme'] })
+
+      expect(result.done?.error).toMatchObject({ code: 'CONFIGURATION_ERROR', details: { scheme: 'paypal' }, status: 500 })
+    })
+  })
+})